@@ -0,0 +1,214 @@
+import { MacroTargets } from './nutritionTargets';
+
+// Compares each day's meal totals with the personal targets and works out fixes.
+
+export type MacroKey = keyof MacroTargets;
+
+// Allowed deviation from target as a fraction; net carbs are a ceiling, not a target
+export interface ComplianceTolerances {
+    calories: number;
+    protein: number;
+    fat: number;
+}
+
+export const DEFAULT_TOLERANCES: ComplianceTolerances = {
+    calories: 0.1,
+    protein: 0.15,
+    fat: 0.2
+};
+
+// Portion scaling beyond this stops looking like the same recipe
+const MIN_SCALE = 0.6;
+const MAX_SCALE = 1.6;
+
+export interface DailyTotals {
+    hasData: boolean;
+    calories: number;
+    fat: number;
+    protein: number;
+    carbs: number;
+}
+
+export interface MacroDeviation {
+    macro: MacroKey;
+    actual: number;
+    target: number;
+    direction: 'over' | 'under';
+}
+
+export interface DayCompliance {
+    status: 'on-target' | 'over' | 'under' | 'no-data';
+    totals: DailyTotals;
+    target: MacroTargets;
+    deviations: MacroDeviation[];
+}
+
+interface ComplianceMeal {
+    name: string;
+    ingredients?: string[];
+    macros?: { calories?: number; fat?: number; protein?: number; carbs?: number };
+}
+
+const MACRO_LABELS: Record<MacroKey, string> = {
+    calories: 'kcal',
+    protein: 'protein',
+    fat: 'fat',
+    carbs: 'net carbs'
+};
+
+export function calculateDailyTotals(meals: ComplianceMeal[]): DailyTotals {
+    const totals = { hasData: false, calories: 0, fat: 0, protein: 0, carbs: 0 };
+
+    meals.forEach(meal => {
+        if (meal.macros) {
+            totals.hasData = true;
+            totals.calories += meal.macros.calories || 0;
+            totals.fat += meal.macros.fat || 0;
+            totals.protein += meal.macros.protein || 0;
+            totals.carbs += meal.macros.carbs || 0;
+        }
+    });
+
+    return totals;
+}
+
+/**
+ * The targets that apply to a day: reduced days (5:2) have their own, fasting days have none
+ */
+export function getDayTarget(
+    targets: (MacroTargets & { reducedDay?: MacroTargets }) | undefined,
+    dayType?: string
+): MacroTargets | undefined {
+    if (!targets || dayType === 'fasting') return undefined;
+    return dayType === 'reduced' ? targets.reducedDay : targets;
+}
+
+export function checkDayCompliance(
+    meals: ComplianceMeal[],
+    target: MacroTargets,
+    tolerances: ComplianceTolerances = DEFAULT_TOLERANCES
+): DayCompliance {
+    const totals = calculateDailyTotals(meals);
+    if (!totals.hasData) {
+        return { status: 'no-data', totals, target, deviations: [] };
+    }
+
+    const deviations: MacroDeviation[] = [];
+    for (const macro of ['calories', 'protein', 'fat'] as const) {
+        const allowed = target[macro] * tolerances[macro];
+        if (totals[macro] > target[macro] + allowed) {
+            deviations.push({ macro, actual: totals[macro], target: target[macro], direction: 'over' });
+        } else if (totals[macro] < target[macro] - allowed) {
+            deviations.push({ macro, actual: totals[macro], target: target[macro], direction: 'under' });
+        }
+    }
+    if (totals.carbs > target.carbs) {
+        deviations.push({ macro: 'carbs', actual: totals.carbs, target: target.carbs, direction: 'over' });
+    }
+
+    // Calories decide the overall direction; otherwise the first macro that is off
+    const calorieDeviation = deviations.find(d => d.macro === 'calories');
+    const status = deviations.length === 0 ? 'on-target' : (calorieDeviation || deviations[0]).direction;
+    return { status, totals, target, deviations };
+}
+
+export function describeDeviation(deviation: MacroDeviation): string {
+    const unit = deviation.macro === 'calories' ? '' : 'g';
+    const percent = Math.round(Math.abs(deviation.actual - deviation.target) / deviation.target * 100);
+    return `${MACRO_LABELS[deviation.macro]} ${Math.round(deviation.actual)}${unit}/${deviation.target}${unit} (${percent}% ${deviation.direction})`;
+}
+
+/**
+ * Portion multiplier that brings the day's calories to target, or null when calories are not the problem
+ */
+export function suggestScaleFactor(compliance: DayCompliance): number | null {
+    if (!compliance.deviations.some(d => d.macro === 'calories') || compliance.totals.calories <= 0) {
+        return null;
+    }
+
+    const factor = compliance.target.calories / compliance.totals.calories;
+    return Math.round(Math.min(MAX_SCALE, Math.max(MIN_SCALE, factor)) * 100) / 100;
+}
+
+function formatQuantity(value: number, unit: string): string {
+    // Weighed and measured-by-volume amounts round to 5; counts and spoons to a quarter
+    const rounded = /^(g|grams?|ml|milliliters?)$/.test(unit)
+        ? Math.max(5, Math.round(value / 5) * 5)
+        : Math.max(0.25, Math.round(value * 4) / 4);
+    return String(Number(rounded.toFixed(2)));
+}
+
+const LEADING_QUANTITY = /^(\s*)(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?)(\s*)([a-zA-Z]*)/;
+
+/**
+ * The leading quantity of an ingredient line and the rest of it ("200g salmon" -> 200, "g salmon").
+ * Null for lines without a quantity ("salt to taste").
+ */
+export function splitIngredientQuantity(ingredient: string): { quantity: number; rest: string } | null {
+    const match = ingredient.match(LEADING_QUANTITY);
+    if (!match || /to taste|pinch|dash/i.test(ingredient)) {
+        return null;
+    }
+
+    const quantity = match[2].split(/\s+/).reduce((sum, part) => {
+        const [numerator, denominator] = part.split('/').map(Number);
+        return sum + (denominator ? numerator / denominator : numerator);
+    }, 0);
+    return { quantity, rest: ingredient.slice(match[1].length + match[2].length) };
+}
+
+/**
+ * Multiply the leading quantity of an ingredient line, e.g. "200g salmon" x1.5 -> "300g salmon".
+ * Lines without a quantity ("salt to taste") are left alone.
+ */
+export function scaleIngredient(ingredient: string, factor: number): string {
+    const split = splitIngredientQuantity(ingredient);
+    if (!split) {
+        return ingredient;
+    }
+
+    const [, leading, , space, unit] = ingredient.match(LEADING_QUANTITY)!;
+    return `${leading}${formatQuantity(split.quantity * factor, unit.toLowerCase())}${space}${split.rest.slice(space.length)}`;
+}
+
+/**
+ * Scale a meal's ingredient quantities and its macros together
+ */
+export function scaleMeal(meal: ComplianceMeal, factor: number): void {
+    meal.ingredients = meal.ingredients?.map(ingredient => scaleIngredient(ingredient, factor));
+    if (meal.macros) {
+        meal.macros = {
+            calories: meal.macros.calories !== undefined ? Math.round(meal.macros.calories * factor) : undefined,
+            fat: meal.macros.fat !== undefined ? Math.round(meal.macros.fat * factor * 10) / 10 : undefined,
+            protein: meal.macros.protein !== undefined ? Math.round(meal.macros.protein * factor * 10) / 10 : undefined,
+            carbs: meal.macros.carbs !== undefined ? Math.round(meal.macros.carbs * factor * 10) / 10 : undefined
+        };
+    }
+}
+
+/**
+ * The meal that moves the day furthest towards target when changed:
+ * the biggest contributor for an excess, the smallest for a shortfall
+ */
+export function pickMealToAdjust(meals: ComplianceMeal[], compliance: DayCompliance): number {
+    const deviation = compliance.deviations.find(d => d.macro === 'calories') || compliance.deviations[0];
+    if (!deviation || meals.length === 0) return 0;
+
+    const values = meals.map(meal => meal.macros?.[deviation.macro] || 0);
+    const pick = deviation.direction === 'over' ? Math.max(...values) : Math.min(...values);
+    return values.indexOf(pick);
+}
+
+/**
+ * Tell the model how far the day is off and in which direction the replacement dish must move it
+ */
+export function describeAdjustment(compliance: DayCompliance, meal: ComplianceMeal): string {
+    const { totals, target } = compliance;
+    const changes = compliance.deviations.map(d => {
+        const amount = Math.round(Math.abs(d.target - d.actual));
+        const unit = d.macro === 'calories' ? ' kcal' : `g ${MACRO_LABELS[d.macro]}`;
+        return d.direction === 'over' ? `about ${amount}${unit} less` : `about ${amount}${unit} more`;
+    });
+
+    return `The day currently totals ${Math.round(totals.calories)} kcal, ${Math.round(totals.protein)}g protein, ${Math.round(totals.fat)}g fat and ${Math.round(totals.carbs)}g net carbs against targets of ${target.calories} kcal, ${target.protein}g protein, ${target.fat}g fat and at most ${target.carbs}g net carbs. The replacement for "${meal.name}" must bring the day on target: ${changes.join(', ')} than the current dish provides.`;
+}
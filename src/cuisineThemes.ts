@@ -0,0 +1,108 @@
+import { RecipePatterns, createSeededRandom, formatCategory } from './recipePlanner';
+
+// Cuisine themes from the cuisine_themes section of keto-recipe-patterns.json. One theme can
+// steer the whole plan, or "rotate" gives each meal day its own, never the same as the day before.
+
+export const ROTATE_CUISINES = 'rotate';
+
+export interface DayCuisine {
+    day: string;
+    date?: string;
+    theme: string;
+}
+
+export interface CuisinePlan {
+    // A theme name, or "rotate"
+    selection: string;
+    // Only rotation depends on the seed
+    seed?: number;
+    days: DayCuisine[];
+}
+
+export function listCuisineThemes(patterns: RecipePatterns): string[] {
+    return Object.keys(patterns.cuisine_themes || {});
+}
+
+function normalizeThemeName(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Match what the user typed to a theme: the exact name, or one word of it
+ * ("american" for american_classic). Returns "rotate" for rotate mode.
+ */
+export function findCuisineTheme(input: string, patterns: RecipePatterns): string | undefined {
+    const wanted = normalizeThemeName(input);
+    if (wanted === ROTATE_CUISINES) return ROTATE_CUISINES;
+
+    const themes = listCuisineThemes(patterns);
+    return themes.find(theme => theme === wanted)
+        || themes.find(theme => theme.split('_').includes(wanted));
+}
+
+/**
+ * Theme names shown to people, e.g. american_classic -> American Classic
+ */
+export function formatCuisineTheme(theme: string): string {
+    return formatCategory(theme).replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Give every meal day its theme. Rotation walks the themes in an order drawn from the seed,
+ * so the same seed gives the same rotation; a single theme ignores the seed.
+ */
+export function assignCuisineThemes(
+    selection: string,
+    patterns: RecipePatterns,
+    days: Array<{ day: string; date?: string }>,
+    seed = 0
+): CuisinePlan {
+    if (selection !== ROTATE_CUISINES) {
+        return { selection, days: days.map(({ day, date }) => ({ day, date, theme: selection })) };
+    }
+
+    const themes = listCuisineThemes(patterns);
+    if (themes.length === 0) {
+        throw new Error('The recipe patterns have no cuisine themes to rotate');
+    }
+
+    // Fisher-Yates shuffle so rotations don't always open with the first theme in the file
+    const random = createSeededRandom(seed);
+    const order = [...themes];
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    return {
+        selection,
+        seed,
+        days: days.map(({ day, date }, index) => ({ day, date, theme: order[index % order.length] }))
+    };
+}
+
+/**
+ * Prompt lines for the themed days in one part of the plan. Example dishes rejected by
+ * isAllowed (exclusions, diet rules) are left out so the prompt never suggests them.
+ */
+export function describeCuisineForPrompt(
+    assignments: DayCuisine[],
+    patterns: RecipePatterns,
+    isAllowed: (dish: string) => boolean = () => true
+): string {
+    if (assignments.length === 0) return '';
+
+    const describeTheme = (theme: string) => {
+        const dishes = (patterns.cuisine_themes?.[theme] || []).filter(isAllowed);
+        return `${formatCuisineTheme(theme)}${dishes.length > 0 ? ` (dishes such as ${dishes.join('; ')})` : ''}`;
+    };
+
+    const themes = new Set(assignments.map(a => a.theme));
+    if (themes.size === 1) {
+        const [theme] = themes;
+        return `CUISINE THEME: ${describeTheme(theme)}. Cook every meal in this style, with its typical ingredients, herbs, spices and sauces, while keeping to the diet rules.`;
+    }
+
+    const lines = assignments.map(a => `- ${a.day}${a.date ? ` (${a.date})` : ''}: ${describeTheme(a.theme)}`);
+    return `CUISINE THEMES (cook every meal on a day in that day's style, with its typical ingredients, herbs, spices and sauces, while keeping to the diet rules):\n${lines.join('\n')}`;
+}
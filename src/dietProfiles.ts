@@ -0,0 +1,314 @@
+import { MacroRatios } from './nutritionTargets';
+
+// Diet profiles: the macro split, the food groups meals are built from, the groups the diet
+// check rejects, and how the prompt words the diet. "Custom" is the user's own profile,
+// defined in setup and kept in the global config.
+
+export const CUSTOM_DIET = 'Custom';
+
+export interface DietProfile {
+    name: string;
+    description: string;
+    // How prompts name the plan: "a paleo meal plan"
+    wording: string;
+    // Extra instructions for the model, e.g. which swaps to use
+    guidance?: string;
+    // Shares of daily calories in percent; net carbs are also capped by netCarbLimit
+    macroRatios: MacroRatios;
+    // Default daily net-carb ceiling for the diet check
+    netCarbLimit: number;
+    // Restrictive enough to keep you in ketosis
+    ketogenic: boolean;
+    allowedGroups: string[];
+    bannedGroups: string[];
+}
+
+interface GroupItem {
+    item: string;
+    pattern: RegExp;
+}
+
+export interface FoodGroup {
+    id: string;
+    label: string;
+    items: GroupItem[];
+    // Checked after low-carb swaps are taken out, so "almond flour" doesn't count as flour
+    skipsLowCarbSwaps: boolean;
+}
+
+export const FOOD_GROUPS: FoodGroup[] = [
+    {
+        id: 'sugars',
+        label: 'sugar, honey, syrups and sweet drinks',
+        skipsLowCarbSwaps: true,
+        items: [
+            { item: 'sugar', pattern: /\b(?:sugars?|caster|icing)\b/ },
+            { item: 'honey', pattern: /\bhoney\b/ },
+            { item: 'syrup', pattern: /\bsyrup\b|\bagave\b|\bmolasses\b/ },
+            { item: 'sweet drinks', pattern: /\b(?:orange|apple|grape|pineapple|cranberry|fruit)\s+juice\b|\bsoda\b|\bcola\b|\blemonade\b/ }
+        ]
+    },
+    {
+        id: 'starches',
+        label: 'flour, bread, pasta, rice, potatoes and cereal',
+        skipsLowCarbSwaps: true,
+        items: [
+            { item: 'flour', pattern: /\bflour\b/ },
+            { item: 'bread', pattern: /\bbread(?:crumbs)?\b|\bbuns?\b|\bbagels?\b|\bbaguette\b|\bcroutons\b|\bpanko\b/ },
+            { item: 'pasta', pattern: /\bpasta\b|\bspaghetti\b|\bmacaroni\b|\bpenne\b|\blinguine\b|\bfettuccine\b|\blasagna\b|\bnoodles\b/ },
+            { item: 'rice', pattern: /\brice\b|\brisotto\b/ },
+            { item: 'potatoes', pattern: /(?<!sweet )\bpotato(?:es)?\b|\bfries\b|\bhash browns?\b/ },
+            { item: 'cereal', pattern: /\bcereal\b|\bgranola\b|\bcrackers\b/ }
+        ]
+    },
+    {
+        id: 'starchy-vegetables',
+        label: 'sweet potatoes and starches',
+        skipsLowCarbSwaps: true,
+        items: [
+            { item: 'sweet potatoes', pattern: /\bsweet potato(?:es)?\b|\byams?\b/ },
+            { item: 'starch', pattern: /\bpotato starch\b|\btapioca\b|\barrowroot\b/ }
+        ]
+    },
+    {
+        id: 'grains',
+        label: 'grains and corn',
+        skipsLowCarbSwaps: true,
+        items: [
+            { item: 'grains', pattern: /\boats?\b|\boatmeal\b|\bquinoa\b|\bcouscous\b|\bbarley\b|\bbulgur\b|\btortillas?\b/ },
+            { item: 'corn', pattern: /\bcorn\b|\bsweetcorn\b|\bcorn ?starch\b|\bcornflour\b|\bpolenta\b/ }
+        ]
+    },
+    {
+        id: 'legumes',
+        label: 'beans, lentils and chickpeas',
+        skipsLowCarbSwaps: true,
+        items: [{ item: 'legumes', pattern: /\bbeans\b|\blentils?\b|\bchickpeas?\b|\bhummus\b/ }]
+    },
+    {
+        id: 'sweet-fruit',
+        label: 'high-sugar fruit',
+        skipsLowCarbSwaps: true,
+        items: [{ item: 'high-sugar fruit', pattern: /\bbananas?\b|\bmangos?\b|\bmangoes\b|\bpineapple\b|\bgrapes\b|\bdates\b|\braisins\b|\bdried fruit\b/ }]
+    },
+    {
+        id: 'sugary-sauces',
+        label: 'sugary sauces',
+        skipsLowCarbSwaps: true,
+        items: [{ item: 'sugary sauce', pattern: /\bketchup\b|\bbbq sauce\b|\bbarbecue sauce\b|\bteriyaki\b|\bhoisin\b|\bsweet chil(?:i|li) sauce\b/ }]
+    },
+    {
+        id: 'meat',
+        label: 'meat and poultry',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'meat', pattern: /\b(?:beef|bison|steaks?|filet mignon|sirloin|ribeye|brisket|ribs|pork|bacon|ham|lamb|mutton|veal|venison|chicken|turkey|duck|hens?|sausages?|chorizo|salami|pepperoni|prosciutto|pancetta|mince|meatballs?|liver|gelatin|bone broth|lard|tallow)\b/ }]
+    },
+    {
+        id: 'seafood',
+        label: 'fish and seafood',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'fish and seafood', pattern: /\b(?:fish|salmon|tuna|cod|mahi mahi|haddock|halibut|tilapia|trout|mackerel|sardines?|anchov(?:y|ies)|shrimps?|prawns?|crab|lobster|scallops?|mussels|clams|oysters|squid|calamari|octopus|sea bass|snapper|roe|caviar)\b/ }]
+    },
+    {
+        id: 'eggs',
+        label: 'eggs',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'eggs', pattern: /\beggs?\b|\byolks?\b/ }]
+    },
+    {
+        id: 'dairy',
+        label: 'dairy (milk, cream, cheese, yogurt, butter)',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'dairy', pattern: /(?<!coconut |almond |oat |soy |cashew |rice )\bmilk\b|(?<!coconut )\bcream\b|\b(?:cheese|cheddar|mozzarella|parmesan|feta|ricotta|halloumi|mascarpone|paneer|gruyere|brie)\b|(?<!coconut )\byogh?urt\b|\bkefir\b|\bwhey\b|(?<!almond |peanut |nut |cashew |cocoa |cacao |seed )\bbutter\b/ }]
+    },
+    {
+        id: 'plant-proteins',
+        label: 'tofu, tempeh and seitan',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'tofu, tempeh or seitan', pattern: /\b(?:tofu|tempeh|seitan|edamame)\b/ }]
+    },
+    {
+        id: 'vegetables',
+        label: 'vegetables',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'vegetables', pattern: /\b(?:spinach|kale|lettuce|arugula|rocket|broccoli|cauliflower|cabbage|brussels sprouts|asparagus|zucchini|courgettes?|eggplant|aubergine|cucumbers?|celery|tomato(?:es)?|onions?|shallots?|garlic|leeks?|bell peppers?|peppers|jalape[nñ]os?|mushrooms?|green beans?|bok choy|radish(?:es)?|squash|pumpkin|carrots?|artichokes?|olives?|greens|salad|sauerkraut|kimchi|okra|fennel|turnips?|rutabagas?|parsnips?|beets?|beetroot|kohlrabi|chard|snow peas|sugar snap(?: peas)?|bean sprouts|seaweed|nori)\b/ }]
+    },
+    {
+        id: 'fruit',
+        label: 'fruit, including berries, lemons and avocado',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'fruit', pattern: /\b(?:apples?|bananas?|berries|strawberr(?:y|ies)|blueberr(?:y|ies)|raspberr(?:y|ies)|blackberr(?:y|ies)|lemons?|limes?|oranges?|avocados?|mangos?|mangoes|pineapple|grapes|peach(?:es)?|pears?|plums?|cherr(?:y|ies)|melon|watermelon|kiwi|raisins|dried fruit|pomegranate|coconut)\b/ }]
+    },
+    {
+        id: 'nuts-seeds',
+        label: 'nuts and seeds',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'nuts and seeds', pattern: /\b(?:almonds?|walnuts?|pecans?|cashews?|pistachios?|hazelnuts?|macadamias?|peanuts?|pine nuts|nuts|seeds|chia|flax(?:seed)?|sesame|tahini|hemp hearts)\b/ }]
+    },
+    {
+        id: 'plant-oils',
+        label: 'plant oils such as olive, avocado and coconut oil',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'plant oils', pattern: /\b(?:olive|coconut|avocado|sesame|vegetable|canola|sunflower|safflower|peanut|rapeseed|soybean|corn|grapeseed|mct|walnut|flaxseed) oil\b|\bmargarine\b/ }]
+    },
+    {
+        id: 'seed-oils',
+        label: 'seed oils and margarine',
+        skipsLowCarbSwaps: false,
+        items: [{ item: 'seed oils', pattern: /\b(?:vegetable|canola|sunflower|safflower|rapeseed|soybean|corn|grapeseed|cottonseed|peanut) oil\b|\bmargarine\b|\bshortening\b/ }]
+    }
+];
+
+const KETO_BANNED = ['sugars', 'starches', 'starchy-vegetables', 'grains', 'legumes', 'sweet-fruit', 'sugary-sauces'];
+const LOW_CARB_SWAPS = 'Use low-carb swaps such as almond flour, cauliflower rice or zucchini noodles instead.';
+
+export const DIET_PROFILES: DietProfile[] = [
+    {
+        name: 'Keto',
+        description: 'High fat, 20g net carbs a day',
+        wording: 'keto',
+        guidance: LOW_CARB_SWAPS,
+        macroRatios: { protein: 25, fat: 70, carbs: 5 },
+        netCarbLimit: 20,
+        ketogenic: true,
+        allowedGroups: ['meat', 'seafood', 'eggs', 'dairy', 'vegetables', 'nuts-seeds', 'plant-oils'],
+        bannedGroups: KETO_BANNED
+    },
+    {
+        name: 'Low-Carb',
+        description: 'Moderate carbs, 50g net carbs a day',
+        wording: 'low-carb',
+        guidance: LOW_CARB_SWAPS,
+        macroRatios: { protein: 30, fat: 50, carbs: 20 },
+        netCarbLimit: 50,
+        ketogenic: false,
+        allowedGroups: ['meat', 'seafood', 'eggs', 'dairy', 'vegetables', 'fruit', 'nuts-seeds', 'plant-oils'],
+        bannedGroups: ['sugars', 'starches']
+    },
+    {
+        name: 'Carnivore',
+        description: 'Animal foods only: meat, fish, eggs and dairy',
+        wording: 'carnivore',
+        guidance: 'Cook with butter, tallow or lard and season with salt; leave out every plant food.',
+        macroRatios: { protein: 35, fat: 63, carbs: 2 },
+        netCarbLimit: 10,
+        ketogenic: true,
+        allowedGroups: ['meat', 'seafood', 'eggs', 'dairy'],
+        bannedGroups: [...KETO_BANNED, 'plant-proteins', 'vegetables', 'fruit', 'nuts-seeds', 'plant-oils']
+    },
+    {
+        name: 'Paleo',
+        description: 'No grains, legumes, dairy or refined sugar',
+        wording: 'paleo',
+        guidance: 'Sweet potatoes, fruit and almond or coconut flour are fine in moderation; cook with ghee, olive, avocado or coconut oil.',
+        macroRatios: { protein: 30, fat: 40, carbs: 30 },
+        netCarbLimit: 100,
+        ketogenic: false,
+        allowedGroups: ['meat', 'seafood', 'eggs', 'vegetables', 'fruit', 'nuts-seeds', 'plant-oils'],
+        bannedGroups: ['sugars', 'starches', 'grains', 'legumes', 'plant-proteins', 'sugary-sauces', 'dairy', 'seed-oils']
+    },
+    {
+        name: 'Vegetarian Keto',
+        description: 'Keto without meat or fish',
+        wording: 'vegetarian keto',
+        guidance: 'Get protein from eggs, cheese, Greek yogurt, tofu, tempeh, paneer and halloumi, and use vegetable stock. ' + LOW_CARB_SWAPS,
+        macroRatios: { protein: 20, fat: 72, carbs: 8 },
+        netCarbLimit: 30,
+        ketogenic: true,
+        allowedGroups: ['eggs', 'dairy', 'plant-proteins', 'vegetables', 'nuts-seeds', 'plant-oils'],
+        bannedGroups: [...KETO_BANNED, 'meat', 'seafood']
+    },
+    {
+        name: 'Mediterranean Low-Carb',
+        description: 'Fish, olive oil, vegetables and a few legumes',
+        wording: 'Mediterranean low-carb',
+        guidance: 'Favour fish and seafood over red meat, cook with olive oil, and keep legumes to small portions.',
+        macroRatios: { protein: 25, fat: 50, carbs: 25 },
+        netCarbLimit: 70,
+        ketogenic: false,
+        allowedGroups: ['seafood', 'vegetables', 'legumes', 'nuts-seeds', 'plant-oils', 'eggs', 'dairy', 'meat'],
+        bannedGroups: ['sugars', 'starches', 'sugary-sauces']
+    }
+];
+
+export function findFoodGroup(id: string): FoodGroup | undefined {
+    return FOOD_GROUPS.find(group => group.id === id);
+}
+
+function normalizeDietName(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+export function isCustomDiet(name: string): boolean {
+    return normalizeDietName(name) === normalizeDietName(CUSTOM_DIET);
+}
+
+/**
+ * A built-in profile by name ("vegetarian keto", "Vegetarian-Keto", "low carb")
+ */
+export function findDietProfile(name: string): DietProfile | undefined {
+    const wanted = normalizeDietName(name);
+    return DIET_PROFILES.find(profile => normalizeDietName(profile.name) === wanted);
+}
+
+/**
+ * Check a custom profile read from the config file. Returns the problems, or none when it can be used.
+ */
+export function validateDietProfile(profile: DietProfile): string[] {
+    const problems: string[] = [];
+    if (!profile.name?.trim()) problems.push('it has no name');
+
+    const { protein, fat, carbs } = profile.macroRatios || {};
+    if (![protein, fat, carbs].every(share => typeof share === 'number' && share >= 0)) {
+        problems.push('macroRatios needs protein, fat and carbs percentages');
+    } else if (Math.abs(protein + fat + carbs - 100) > 1) {
+        problems.push(`macroRatios add up to ${protein + fat + carbs}%, not 100%`);
+    }
+
+    if (!(typeof profile.netCarbLimit === 'number' && profile.netCarbLimit > 0)) {
+        problems.push('netCarbLimit must be a positive number of grams');
+    }
+
+    const unknown = [...(profile.allowedGroups || []), ...(profile.bannedGroups || [])].filter(id => !findFoodGroup(id));
+    if (unknown.length > 0) {
+        problems.push(`unknown food groups: ${unknown.join(', ')}`);
+    }
+    const both = (profile.bannedGroups || []).filter(id => (profile.allowedGroups || []).includes(id));
+    if (both.length > 0) {
+        problems.push(`groups both allowed and banned: ${both.join(', ')}`);
+    }
+    return problems;
+}
+
+/**
+ * Default wording and empty group lists for a custom profile saved with fewer fields
+ */
+export function completeCustomProfile(profile: Partial<DietProfile>): DietProfile {
+    const name = profile.name?.trim() || CUSTOM_DIET;
+    return {
+        name,
+        description: profile.description || 'Your own diet profile',
+        wording: profile.wording?.trim() || name,
+        guidance: profile.guidance,
+        macroRatios: profile.macroRatios!,
+        netCarbLimit: profile.netCarbLimit!,
+        ketogenic: profile.ketogenic ?? (profile.netCarbLimit !== undefined && profile.netCarbLimit <= 30),
+        allowedGroups: profile.allowedGroups || [],
+        bannedGroups: profile.bannedGroups || []
+    };
+}
+
+export function describeMacroRatios(ratios: MacroRatios): string {
+    return `${ratios.protein}% protein, ${ratios.fat}% fat, ${ratios.carbs}% carbs`;
+}
+
+/**
+ * Read "30/50/20" (protein/fat/carbs in percent). Returns null unless they add up to 100.
+ */
+export function parseMacroRatios(input: string): MacroRatios | null {
+    const parts = input.trim().split(/\s*[\/,\s]\s*/).filter(Boolean).map(Number);
+    if (parts.length !== 3 || !parts.every(share => Number.isFinite(share) && share >= 0)) return null;
+
+    const [protein, fat, carbs] = parts;
+    return Math.abs(protein + fat + carbs - 100) <= 1 ? { protein, fat, carbs } : null;
+}
@@ -0,0 +1,201 @@
+import { DietProfile, FoodGroup, describeMacroRatios, findFoodGroup } from './dietProfiles';
+
+// Checks generated meals against the chosen diet profile: ingredients from its banned groups,
+// and meals or days whose net carbs go over its limit.
+// Works on the plain day/meal shape so it stays independent of the zod schema in index.ts.
+
+export interface DietRules {
+    diet: string;
+    strictKeto: boolean;
+    dayNetCarbLimit: number;
+    mealNetCarbLimit: number;
+    profile: DietProfile;
+}
+
+export interface IngredientViolation {
+    ingredient: string;
+    item: string;
+}
+
+export interface MealDietCheck {
+    meal: string;
+    netCarbs?: number;
+    overCarbLimit: boolean;
+    ingredients: IngredientViolation[];
+}
+
+export interface DayDietCheck {
+    day: string;
+    netCarbs: number;
+    overCarbLimit: boolean;
+    meals: MealDietCheck[];
+    passed: boolean;
+}
+
+interface CheckableMeal {
+    name: string;
+    ingredients?: string[];
+    macros?: { carbs?: number };
+    dietIssues?: string[];
+}
+
+interface CheckableDay {
+    day: string;
+    dayType?: string;
+    meals: CheckableMeal[];
+    dietIssues?: string[];
+}
+
+// A single meal may use this share of the daily allowance when the day has more than one meal
+const MEAL_SHARE_OF_DAY = 0.5;
+
+// Low-carb swaps and harmless look-alikes, removed from an ingredient line before the carb groups
+// are checked, so "almond flour", "cauliflower rice" or "baking soda" don't count as flour, rice or soda
+const KETO_SUBSTITUTES: RegExp[] = [
+    /\b(?:sugar[- ]free|no[- ]sugar[- ]added|unsweetened|keto|low[- ]carb)\b[^,;()]*/g,
+    /\b(?:almond|coconut|flax(?:seed)?|lupin|sunflower seed|psyllium)\s+(?:flour|meal)\b/g,
+    /\bpork rind\s+(?:crumbs?|breadcrumbs|crumb)\b/g,
+    /\b(?:cauliflower|broccoli|konjac|shirataki)\s+(?:rice|noodles|pasta|mash)\b/g,
+    /\b(?:zucchini|courgette|palmini|kelp|cucumber)\s+(?:noodles|pasta|spaghetti)\b/g,
+    /\bspaghetti squash\b/g,
+    /\brice (?:wine )?vinegar\b/g,
+    /\b(?:baking|club) soda\b|\bsoda water\b/g,
+    /\bsugar snap(?: peas)?\b/g,
+    /\bgreen beans?\b|\bbean sprouts\b/g
+];
+
+/**
+ * Thresholds and banned food groups for the chosen diet profile
+ */
+export function getDietRules(profile: DietProfile, netCarbLimit?: number): DietRules {
+    const dayNetCarbLimit = netCarbLimit ?? profile.netCarbLimit;
+    return {
+        diet: profile.name,
+        strictKeto: profile.ketogenic,
+        dayNetCarbLimit,
+        mealNetCarbLimit: Math.round(dayNetCarbLimit * MEAL_SHARE_OF_DAY),
+        profile
+    };
+}
+
+function getBannedGroups(rules: DietRules): FoodGroup[] {
+    return rules.profile.bannedGroups.map(findFoodGroup).filter((group): group is FoodGroup => group !== undefined);
+}
+
+/**
+ * Spell out what the validator will reject, so the model avoids it in the first place
+ */
+export function describeDietRulesForPrompt(rules: DietRules): string {
+    const { profile } = rules;
+    const allowed = profile.allowedGroups.map(id => findFoodGroup(id)?.label).filter(Boolean);
+    const banned = getBannedGroups(rules).flatMap(group => group.items.map(i => i.item));
+    const parts = [
+        `DIET RULES (${profile.name}, every meal is checked after generation):`,
+        allowed.length > 0 ? `build meals from ${allowed.join('; ')}.` : '',
+        banned.length > 0 ? `Do not use ${banned.join(', ')}.` : '',
+        profile.guidance || '',
+        `Aim for about ${describeMacroRatios(profile.macroRatios)} of calories.`,
+        `Keep each day at or under ${rules.dayNetCarbLimit}g net carbs and each meal under ${rules.mealNetCarbLimit}g when a day has more than one meal, and report carbs as net carbs.`
+    ];
+    return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Everything in an ingredient line the diet doesn't allow, e.g. "1 cup white rice" -> rice
+ */
+export function findForbiddenIngredients(ingredient: string, rules: DietRules): string[] {
+    const text = ingredient.toLowerCase();
+    let withoutSwaps = text;
+    for (const substitute of KETO_SUBSTITUTES) {
+        withoutSwaps = withoutSwaps.replace(substitute, ' ');
+    }
+
+    // Swaps only get a pass from the carb groups: almond flour is still nuts on carnivore
+    return getBannedGroups(rules).flatMap(group => group.items
+        .filter(i => i.pattern.test(group.skipsLowCarbSwaps ? withoutSwaps : text))
+        .map(i => i.item));
+}
+
+export function checkMealDiet(meal: CheckableMeal, rules: DietRules, mealsInDay = 1): MealDietCheck {
+    const ingredients = (meal.ingredients || []).flatMap(ingredient =>
+        findForbiddenIngredients(ingredient, rules).map(item => ({ ingredient, item })));
+    // Carbs reported per meal are treated as net carbs, as the prompt asks for them
+    const netCarbs = meal.macros?.carbs;
+
+    return {
+        meal: meal.name,
+        netCarbs,
+        // The only meal of the day may use the whole daily allowance, which the day check covers
+        overCarbLimit: mealsInDay > 1 && netCarbs !== undefined && netCarbs > rules.mealNetCarbLimit,
+        ingredients
+    };
+}
+
+export function checkDayDiet(day: CheckableDay, rules: DietRules): DayDietCheck {
+    const meals = day.meals.map(meal => checkMealDiet(meal, rules, day.meals.length));
+    const netCarbs = day.meals.reduce((sum, meal) => sum + (meal.macros?.carbs || 0), 0);
+    const overCarbLimit = netCarbs > rules.dayNetCarbLimit;
+
+    return {
+        day: day.day,
+        netCarbs,
+        overCarbLimit,
+        meals,
+        passed: !overCarbLimit && meals.every(m => !m.overCarbLimit && m.ingredients.length === 0)
+    };
+}
+
+export function describeMealDietIssues(check: MealDietCheck, rules: DietRules): string[] {
+    const issues = check.ingredients.map(v => `Not ${rules.profile.wording}: ${v.item} ("${v.ingredient}")`);
+    if (check.overCarbLimit && check.netCarbs !== undefined) {
+        issues.push(`${Math.round(check.netCarbs)}g net carbs is over the ${rules.mealNetCarbLimit}g per-meal limit`);
+    }
+    return issues;
+}
+
+export function describeDayDietIssues(check: DayDietCheck, rules: DietRules): string[] {
+    return check.overCarbLimit
+        ? [`${Math.round(check.netCarbs)}g net carbs is over the ${rules.dayNetCarbLimit}g daily limit`]
+        : [];
+}
+
+/**
+ * Validate a day and record the failures on the day and its meals (dietIssues),
+ * clearing any left over from before the day was edited
+ */
+export function applyDietCheck(day: CheckableDay, rules: DietRules): DayDietCheck {
+    const check = checkDayDiet(day, rules);
+    day.meals.forEach((meal, index) => {
+        const issues = describeMealDietIssues(check.meals[index], rules);
+        if (issues.length > 0) {
+            meal.dietIssues = issues;
+        } else {
+            delete meal.dietIssues;
+        }
+    });
+
+    const dayIssues = describeDayDietIssues(check, rules);
+    if (dayIssues.length > 0) {
+        day.dietIssues = dayIssues;
+    } else {
+        delete day.dietIssues;
+    }
+    return check;
+}
+
+/**
+ * Short summary of a failed day for the table, e.g. "Not keto: rice, sugar | 34g/20g net carbs"
+ */
+export function summarizeDayDietCheck(check: DayDietCheck, rules: DietRules): string {
+    const items = [...new Set(check.meals.flatMap(m => m.ingredients.map(v => v.item)))];
+    const parts: string[] = [];
+    if (items.length > 0) {
+        parts.push(`Not ${rules.profile.wording}: ${items.join(', ')}`);
+    }
+    if (check.overCarbLimit) {
+        parts.push(`${Math.round(check.netCarbs)}g/${rules.dayNetCarbLimit}g net carbs`);
+    } else if (check.meals.some(m => m.overCarbLimit)) {
+        parts.push(`meal over ${rules.mealNetCarbLimit}g net carbs`);
+    }
+    return parts.join(' | ');
+}
@@ -0,0 +1,283 @@
+// Foods the user never wants in a plan: allergens, religious rules and plain dislikes.
+// Known groups expand to their ingredients ("shellfish" catches "prawns"); anything
+// else is matched as the word itself.
+
+export interface ExclusionRule {
+    name: string;
+    examples: string[];
+    pattern: RegExp;
+    safe?: RegExp;
+    // Not a known group: only the word itself (and its synonyms) is matched
+    wordMatch?: boolean;
+}
+
+export interface ExclusionViolation {
+    exclusion: string;
+    ingredient: string;
+}
+
+interface ExclusionGroup {
+    terms: string[];
+    // Look-alikes that are fine, removed from an ingredient before it is checked
+    safe?: string[];
+    // Qualifiers that make the group's food right after them safe: "dairy-free cheese"
+    freeFrom?: string;
+}
+
+const EXCLUSION_GROUPS: Record<string, ExclusionGroup> = {
+    shellfish: {
+        terms: ['shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'crawfish', 'langoustine', 'scallop', 'mussel', 'clam', 'oyster', 'cockle', 'squid', 'calamari', 'octopus'],
+        safe: ['oyster mushrooms?']
+    },
+    fish: {
+        terms: ['fish', 'salmon', 'tuna', 'cod', 'haddock', 'pollock', 'mackerel', 'sardine', 'anchovy', 'anchovies', 'trout', 'tilapia', 'halibut', 'sea bass', 'snapper', 'swordfish', 'herring', 'plaice', 'catfish', 'fish sauce', 'worcestershire', 'caesar dressing']
+    },
+    pork: {
+        terms: ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'guanciale', 'chorizo', 'salami', 'pepperoni', 'lard', 'sausage', 'gammon', 'pork rinds?', 'chicharron'],
+        safe: ['(?:chicken|turkey|beef|lamb|vegan|vegetarian) (?:sausage|bacon|ham|pepperoni|salami|chorizo)s?']
+    },
+    beef: {
+        terms: ['beef', 'steak', 'veal', 'brisket', 'ribeye', 'sirloin', 'filet mignon', 'oxtail', 'mince', 'bresaola', 'pastrami'],
+        safe: ['(?:salmon|tuna|swordfish|cauliflower|cabbage|celeriac|pork|lamb|turkey|chicken|gammon) (?:steak|mince)s?']
+    },
+    lamb: {
+        terms: ['lamb', 'mutton'],
+        safe: ["lamb'?s lettuce"]
+    },
+    poultry: {
+        terms: ['poultry', 'chicken', 'turkey', 'duck', 'goose', 'quail']
+    },
+    dairy: {
+        terms: ['dairy', 'milk', 'buttermilk', 'cheese', 'cheddar', 'parmesan', 'pecorino', 'mozzarella', 'burrata', 'feta', 'ricotta', 'mascarpone', 'halloumi', 'brie', 'camembert', 'gouda', 'gruyere', 'manchego', 'paneer', 'labneh', 'butter', 'cream', 'yogurt', 'yoghurt', 'kefir', 'ghee', 'whey', 'casein', 'creme fraiche', 'crème fraîche'],
+        safe: [
+            '(?:coconut|almond|oat|soy|cashew|hemp|rice|macadamia) (?:milk|cream|yogh?urt|cheese)',
+            '(?:peanut|almond|cashew|nut|seed|sunflower seed|cocoa|coconut|shea) butter',
+            'butter (?:lettuce|beans?)',
+            'cream of tartar'
+        ],
+        freeFrom: 'dairy[- ]free|lactose[- ]free|vegan|plant[- ]based'
+    },
+    eggs: {
+        terms: ['egg', 'yolk', 'mayonnaise', 'mayo', 'aioli', 'meringue', 'hollandaise', 'custard'],
+        freeFrom: 'egg[- ]free|vegan'
+    },
+    nuts: {
+        terms: ['tree nut', 'almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut', 'chestnut', 'praline', 'marzipan', 'pesto', 'nut butter', 'mixed nuts', 'nuts']
+    },
+    peanuts: {
+        terms: ['peanut', 'groundnut', 'satay', 'monkey nut']
+    },
+    gluten: {
+        terms: ['gluten', 'wheat', 'flour', 'bread', 'breadcrumb', 'panko', 'pasta', 'noodle', 'couscous', 'barley', 'rye', 'bulgur', 'semolina', 'spelt', 'seitan', 'soy sauce', 'beer', 'tortilla', 'cracker'],
+        safe: [
+            '(?:almond|coconut|flax(?:seed)?|lupin|sunflower seed|psyllium|rice|chickpea|tapioca) flour',
+            '(?:shirataki|konjac|zucchini|courgette|kelp|rice|palmini) noodles?',
+            '(?:cloud|cauliflower|keto) bread',
+            'pork rind (?:crumbs?|breadcrumbs)'
+        ],
+        freeFrom: 'gluten[- ]free'
+    },
+    soy: {
+        terms: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'],
+        freeFrom: 'soy[- ]free'
+    },
+    sesame: {
+        terms: ['sesame', 'tahini', 'gomasio']
+    },
+    mustard: {
+        terms: ['mustard']
+    },
+    celery: {
+        terms: ['celery', 'celeriac']
+    },
+    alcohol: {
+        terms: ['alcohol', 'wine', 'beer', 'rum', 'vodka', 'gin', 'brandy', 'cognac', 'sherry', 'bourbon', 'whisky', 'whiskey', 'sake', 'mirin', 'liqueur', 'cider', 'marsala', 'vermouth'],
+        safe: ['(?:wine|cider|sherry) vinegar'],
+        freeFrom: 'non[- ]alcoholic|alcohol[- ]free'
+    },
+    gelatin: {
+        terms: ['gelatin', 'gelatine']
+    }
+};
+
+// Religious rules and common phrasings that stand for one or more groups, keyed in the singular
+const EXCLUSION_ALIASES: Record<string, string[]> = {
+    halal: ['pork', 'alcohol', 'gelatin'],
+    kosher: ['pork', 'shellfish'],
+    seafood: ['shellfish', 'fish'],
+    crustacean: ['shellfish'],
+    mollusc: ['shellfish'],
+    mollusk: ['shellfish'],
+    'red meat': ['beef', 'lamb', 'pork'],
+    meat: ['beef', 'lamb', 'pork', 'poultry'],
+    milk: ['dairy'],
+    lactose: ['dairy'],
+    'cow milk': ['dairy'],
+    "cow's milk": ['dairy'],
+    'tree nut': ['nuts'],
+    nut: ['nuts'],
+    peanut: ['peanuts'],
+    egg: ['eggs'],
+    wheat: ['gluten'],
+    celiac: ['gluten'],
+    coeliac: ['gluten'],
+    soya: ['soy'],
+    soybean: ['soy'],
+    'sesame seed': ['sesame']
+};
+
+// Dislikes that go by more than one name; any of them excludes them all
+const DISLIKE_SYNONYMS: string[][] = [
+    ['cilantro', 'coriander'],
+    ['eggplant', 'aubergine'],
+    ['zucchini', 'courgette'],
+    ['bell pepper', 'capsicum', 'red pepper', 'green pepper'],
+    ['arugula', 'rocket'],
+    ['scallion', 'spring onion', 'green onion'],
+    ['mushroom', 'shiitake', 'portobello', 'cremini', 'chestnut mushroom', 'porcini', 'chanterelle', 'enoki'],
+    ['brussels sprout', 'sprout'],
+    ['blue cheese', 'gorgonzola', 'stilton', 'roquefort']
+];
+
+// The groups offered as checkboxes in setup/generate
+export const COMMON_EXCLUSIONS = ['shellfish', 'fish', 'nuts', 'peanuts', 'dairy', 'eggs', 'gluten', 'soy', 'sesame', 'pork', 'beef', 'alcohol', 'halal', 'kosher'];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a term with or without a plural ending, on word boundaries
+ */
+function buildPattern(terms: string[]): RegExp {
+    return new RegExp(`\\b(?:${terms.join('|')})(?:e?s)?\\b`, 'i');
+}
+
+/**
+ * The qualifier and the one food it qualifies, with at most one word between ("vegan cream cheese"),
+ * so the rest of the line ("vegan mayo with parmesan") is still checked
+ */
+function buildFreeFromPattern(freeFrom: string, terms: string[]): string {
+    return `\\b(?:${freeFrom})(?: (?:[a-z-]+ )?(?:${terms.join('|')})(?:e?s)?\\b)?`;
+}
+
+/**
+ * "No dairy", "dairy-free", "Dairy allergy" and "Dairy" all mean the dairy group
+ */
+function normalizeExclusion(input: string): string {
+    return input.trim().toLowerCase()
+        .replace(/^(?:no|without|avoid|allergic to)\s+/, '')
+        .replace(/[- ]free$/, '')
+        .replace(/\s+(?:allergy|allergies|intolerance|intolerant|sensitivity|disease)$/, '')
+        .replace(/-/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Reduce a free-text dislike to its singular so both forms match ("mushrooms" -> mushroom)
+ */
+function singular(word: string): string {
+    if (/[^aeiou]ies$/.test(word)) return `${word.slice(0, -3)}y`;
+    if (/oes$/.test(word)) return word.slice(0, -2);
+    if (/[^s]s$/.test(word)) return word.slice(0, -1);
+    return word;
+}
+
+/**
+ * The groups an entry stands for, looked up as written and in the singular ("tree nuts" -> tree nut)
+ */
+function findExclusionGroups(name: string): string[] {
+    for (const key of [name, singular(name)]) {
+        if (EXCLUSION_ALIASES[key]) return EXCLUSION_ALIASES[key];
+        if (EXCLUSION_GROUPS[key]) return [key];
+    }
+    return [];
+}
+
+/**
+ * Split a comma separated answer ("shellfish, no pork, mushrooms") into entries
+ */
+export function parseExclusionList(input: string): string[] {
+    return input.split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Expand the user's list into match rules, one per group, without duplicates
+ */
+export function resolveExclusions(exclusions: string[] = []): ExclusionRule[] {
+    const rules = new Map<string, ExclusionRule>();
+
+    for (const entry of exclusions) {
+        const name = normalizeExclusion(entry);
+        if (!name) continue;
+
+        const groups = findExclusionGroups(name);
+        for (const group of groups) {
+            const { terms, safe = [], freeFrom } = EXCLUSION_GROUPS[group];
+            const safePatterns = freeFrom ? [...safe, buildFreeFromPattern(freeFrom, terms)] : safe;
+            rules.set(group, {
+                name: group,
+                examples: terms.filter(term => term !== group && !/[?(|]/.test(term)).slice(0, 6),
+                pattern: buildPattern(terms),
+                safe: safePatterns.length > 0 ? new RegExp(safePatterns.join('|'), 'gi') : undefined
+            });
+        }
+
+        if (groups.length === 0 && !rules.has(name)) {
+            const base = singular(name);
+            const synonyms = DISLIKE_SYNONYMS.find(names => names.includes(base)) || [base];
+            rules.set(name, {
+                name,
+                examples: synonyms.filter(synonym => synonym !== base),
+                // "strawberry" also catches "strawberries"
+                pattern: buildPattern(synonyms.map(synonym => escapeRegExp(synonym).replace(/([^aeiou])y$/, '$1(?:y|ie)'))),
+                wordMatch: true
+            });
+        }
+    }
+
+    return [...rules.values()];
+}
+
+/**
+ * Every rule an ingredient line (or a dish name) breaks
+ */
+export function findExcludedItems(text: string, rules: ExclusionRule[]): string[] {
+    return rules
+        .filter(rule => rule.pattern.test(rule.safe ? text.replace(rule.safe, ' ') : text))
+        .map(rule => rule.name);
+}
+
+/**
+ * Check a meal's name and ingredients; the name catches dishes returned without an ingredient list
+ */
+export function findExclusionViolations(
+    meal: { name: string; ingredients?: string[] },
+    rules: ExclusionRule[]
+): ExclusionViolation[] {
+    if (rules.length === 0) return [];
+
+    const violations: ExclusionViolation[] = [];
+    for (const text of [...(meal.ingredients || []), meal.name]) {
+        for (const exclusion of findExcludedItems(text, rules)) {
+            if (!violations.some(v => v.exclusion === exclusion)) {
+                violations.push({ exclusion, ingredient: text });
+            }
+        }
+    }
+    return violations;
+}
+
+export function describeViolation(violation: ExclusionViolation): string {
+    return violation.exclusion === violation.ingredient.toLowerCase()
+        ? violation.exclusion
+        : `${violation.exclusion} ("${violation.ingredient}")`;
+}
+
+export function describeExclusionsForPrompt(rules: ExclusionRule[]): string {
+    if (rules.length === 0) return '';
+
+    const list = rules.map(rule => rule.examples.length > 0 ? `${rule.name} (e.g. ${rule.examples.join(', ')})` : rule.name);
+    return `EXCLUSIONS (allergies, religious rules and dislikes of the people eating this food - never break them): do not use any ${list.join('; ')}. Watch for hidden sources such as fish sauce, Worcestershire sauce, oyster sauce, soy sauce, pesto, stock and ready-made dressings, and use a safe substitute instead.`;
+}
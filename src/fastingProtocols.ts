@@ -0,0 +1,432 @@
+import { addDays, formatIsoDate, formatIsoDateTime } from './planDates';
+
+export type FastingProtocolId = '36-hour' | '16:8' | 'omad' | '5:2' | 'alternate-day';
+
+export type FastingDayType = 'eating' | 'fasting' | 'reduced';
+
+export interface EatingWindow {
+    start: string; // 24h "HH:MM"
+    end: string;   // 24h "HH:MM"
+}
+
+export interface FastingProtocol {
+    id: FastingProtocolId;
+    name: string;
+    description: string;
+    eatingWindow: EatingWindow;
+    mealsPerDay?: number;       // Default meal structure when the user sets none
+    fastingDays: string[];      // Weekdays with no meals at all
+    reducedDays: string[];      // Weekdays with a small calorie allowance (e.g. 5:2)
+    reducedCalories?: number;
+    usesExtendedFast: boolean;  // Whether fastingStart/fastingEnd describe the fast
+    extendedFastHours?: { min: number; max: number };
+}
+
+export interface ScheduledDay {
+    day: string;      // Label used in the plan, e.g. "Monday" or "Week 2 Monday"
+    weekday: string;
+    date?: string;    // YYYY-MM-DD when the plan is anchored to a start date
+    type: FastingDayType;
+    eatingWindow?: EatingWindow;
+}
+
+export interface WeekdayTime {
+    weekday: number; // 0 = Sunday
+    minutes: number; // Minutes after midnight
+}
+
+export interface FastingWindow {
+    start: WeekdayTime;
+    end: WeekdayTime;
+    durationHours: number;
+    skippedDays: string[];
+}
+
+export interface FastingPeriodSummary {
+    start: string;
+    end: string;
+    durationHours?: number;
+    startDate?: string;     // YYYY-MM-DDTHH:MM of the first extended fast in the plan
+    endDate?: string;
+    skippedDay?: string;
+    protocol: FastingProtocolId;
+    fastingDays: string[];
+    fastingDates?: string[];
+    reducedDays: string[];
+    eatingWindow: EatingWindow;
+}
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const DEFAULT_FASTING_PROTOCOL: FastingProtocolId = '36-hour';
+
+export const DEFAULT_PLAN_DAYS = 7;
+export const MAX_PLAN_DAYS = 56;
+export const PLAN_CHUNK_DAYS = 7; // Days requested from the model per call
+
+export const FASTING_PROTOCOLS: FastingProtocol[] = [
+    {
+        id: '36-hour',
+        name: '36-Hour Fast',
+        description: 'Eat normally six days a week and skip Saturday entirely',
+        eatingWindow: { start: '08:00', end: '20:00' },
+        fastingDays: ['Saturday'],
+        reducedDays: [],
+        usesExtendedFast: true,
+        extendedFastHours: { min: 24, max: 72 }
+    },
+    {
+        id: '16:8',
+        name: '16:8 Time-Restricted Eating',
+        description: 'Fast 16 hours daily, eat two meals within an 8-hour window',
+        eatingWindow: { start: '12:00', end: '20:00' },
+        mealsPerDay: 2,
+        fastingDays: [],
+        reducedDays: [],
+        usesExtendedFast: false
+    },
+    {
+        id: 'omad',
+        name: 'OMAD (One Meal a Day)',
+        description: 'Fast about 23 hours daily and eat a single large meal',
+        eatingWindow: { start: '18:00', end: '19:00' },
+        mealsPerDay: 1,
+        fastingDays: [],
+        reducedDays: [],
+        usesExtendedFast: false
+    },
+    {
+        id: '5:2',
+        name: '5:2 Fasting',
+        description: 'Eat normally five days a week, ~500 kcal on Monday and Thursday',
+        eatingWindow: { start: '08:00', end: '20:00' },
+        fastingDays: [],
+        reducedDays: ['Monday', 'Thursday'],
+        reducedCalories: 500,
+        usesExtendedFast: false
+    },
+    {
+        id: 'alternate-day',
+        name: 'Alternate-Day Fasting',
+        description: 'Alternate full fasting days (Mon/Wed/Fri) with normal eating days',
+        eatingWindow: { start: '08:00', end: '20:00' },
+        fastingDays: ['Monday', 'Wednesday', 'Friday'],
+        reducedDays: [],
+        usesExtendedFast: false
+    }
+];
+
+/**
+ * Look up a protocol by id or display name (case-insensitive)
+ */
+export function findFastingProtocol(idOrName?: string): FastingProtocol | undefined {
+    if (!idOrName) return undefined;
+    const query = idOrName.trim().toLowerCase();
+    return FASTING_PROTOCOLS.find(p => p.id === query || p.name.toLowerCase() === query);
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// Bounds for any extended fast, regardless of protocol
+const MIN_FAST_HOURS = 12;
+const MAX_FAST_HOURS = 72;
+
+/**
+ * Parse a time of day such as "8pm", "8:30 am", "20:00", "noon" or "midnight" into minutes after midnight
+ */
+export function parseTimeOfDay(input: string): number | null {
+    const text = input.trim().toLowerCase();
+
+    if (text === 'noon' || text === 'midday') return 12 * 60;
+    if (text === 'midnight') return 0;
+
+    const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+    if (!match) return null;
+
+    let hours = parseInt(match[1], 10);
+    const minutes = match[2] ? parseInt(match[2], 10) : 0;
+    const meridiem = match[3]?.replace(/\./g, '');
+
+    if (minutes > 59) return null;
+
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return null;
+        if (meridiem === 'am' && hours === 12) hours = 0;
+        if (meridiem === 'pm' && hours !== 12) hours += 12;
+    } else if (!match[2] || hours > 23) {
+        // Bare numbers like "8" are ambiguous without am/pm
+        return null;
+    }
+
+    return hours * 60 + minutes;
+}
+
+/**
+ * Parse strings like "Friday 8pm", "fri 20:00" or "Sunday at 8:30 am" into a weekday and time
+ */
+export function parseWeekdayTime(input: string): WeekdayTime | null {
+    const text = input.trim().toLowerCase().replace(/\s+at\s+/, ' ').replace(/,/g, ' ');
+    const match = text.match(/^([a-z]+)\s+(.+)$/);
+    if (!match) return null;
+
+    const weekday = WEEKDAYS.findIndex(day => {
+        const name = day.toLowerCase();
+        return name === match[1] || (match[1].length >= 3 && name.startsWith(match[1]));
+    });
+    if (weekday === -1) return null;
+
+    const minutes = parseTimeOfDay(match[2]);
+    if (minutes === null) return null;
+
+    return { weekday, minutes };
+}
+
+export function formatTimeOfDay(minutes: number): string {
+    const hours24 = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    const suffix = hours24 < 12 ? 'am' : 'pm';
+    const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+    return mins === 0 ? `${hours12}${suffix}` : `${hours12}:${mins.toString().padStart(2, '0')}${suffix}`;
+}
+
+export function formatWeekdayTime(value: WeekdayTime): string {
+    return `${WEEKDAYS[value.weekday]} ${formatTimeOfDay(value.minutes)}`;
+}
+
+/**
+ * Validate a single fasting start/end string, returning an error message or true (inquirer-style)
+ */
+export function validateWeekdayTimeInput(input: string): true | string {
+    if (parseWeekdayTime(input)) return true;
+    return `Could not understand "${input}". Use a weekday and time, e.g. "Friday 8pm" or "Sunday 08:00".`;
+}
+
+function eatingWindowMinutes(window: EatingWindow): { start: number; end: number } {
+    return {
+        start: parseTimeOfDay(window.start) ?? 0,
+        end: parseTimeOfDay(window.end) ?? MINUTES_PER_DAY
+    };
+}
+
+/**
+ * Parse and check an extended fast against the protocol's limits and eating window.
+ * Works out which days are skipped entirely and how long the fast lasts.
+ */
+export function resolveFastingWindow(
+    protocol: FastingProtocol,
+    fastingStart: string,
+    fastingEnd: string
+): { window?: FastingWindow; error?: string } {
+    const start = parseWeekdayTime(fastingStart);
+    if (!start) return { error: validateWeekdayTimeInput(fastingStart) as string };
+
+    const end = parseWeekdayTime(fastingEnd);
+    if (!end) return { error: validateWeekdayTimeInput(fastingEnd) as string };
+
+    const startOfWeek = start.weekday * MINUTES_PER_DAY + start.minutes;
+    let endOfWeek = end.weekday * MINUTES_PER_DAY + end.minutes;
+    if (endOfWeek <= startOfWeek) {
+        endOfWeek += MINUTES_PER_WEEK;
+    }
+
+    const durationHours = Math.round((endOfWeek - startOfWeek) / 60 * 10) / 10;
+    const minHours = protocol.extendedFastHours?.min ?? MIN_FAST_HOURS;
+    const maxHours = protocol.extendedFastHours?.max ?? MAX_FAST_HOURS;
+
+    if (endOfWeek - startOfWeek === MINUTES_PER_WEEK) {
+        return { error: 'Fasting end must be after fasting start.' };
+    }
+    if (durationHours > maxHours) {
+        return { error: `Fasting end must come after the start and within ${maxHours} hours (${formatWeekdayTime(start)} to ${formatWeekdayTime(end)} is ${durationHours} hours). Check the order of start and end.` };
+    }
+    if (durationHours < minHours) {
+        return { error: `A ${protocol.name} must last at least ${minHours} hours (${formatWeekdayTime(start)} to ${formatWeekdayTime(end)} is ${durationHours} hours).` };
+    }
+
+    const eating = eatingWindowMinutes(protocol.eatingWindow);
+    const windowText = `${protocol.eatingWindow.start}-${protocol.eatingWindow.end}`;
+
+    if (start.minutes > eating.start && start.minutes < eating.end) {
+        return { error: `Fasting start ${formatWeekdayTime(start)} falls inside the ${windowText} eating window. Start the fast at or after ${formatTimeOfDay(eating.end)}.` };
+    }
+    if (end.minutes > eating.start && end.minutes < eating.end) {
+        return { error: `Fasting end ${formatWeekdayTime(end)} falls inside the ${windowText} eating window. End the fast at or before ${formatTimeOfDay(eating.start)}.` };
+    }
+
+    // A day is skipped when its whole eating window falls inside the fast
+    const skippedDays: string[] = [];
+    for (let dayOffset = 0; dayOffset < 14; dayOffset++) {
+        const windowStart = dayOffset * MINUTES_PER_DAY + eating.start;
+        const windowEnd = dayOffset * MINUTES_PER_DAY + eating.end;
+        if (windowStart >= startOfWeek && windowEnd <= endOfWeek) {
+            skippedDays.push(WEEKDAYS[dayOffset % 7]);
+        }
+    }
+
+    return {
+        window: { start, end, durationHours, skippedDays }
+    };
+}
+
+/**
+ * Build the eating/fasting schedule for a plan of totalDays, starting on Sunday or on startDate.
+ * Plans longer than a week get "Week N" prefixed labels so every day is unique.
+ * For extended-fast protocols the parsed fasting window decides the skipped days.
+ */
+export function buildSchedule(
+    protocol: FastingProtocol,
+    totalDays: number = DEFAULT_PLAN_DAYS,
+    fastingWindow?: FastingWindow,
+    startDate?: Date
+): ScheduledDay[] {
+    const fastingDays = fastingWindow ? fastingWindow.skippedDays : protocol.fastingDays;
+    const firstWeekday = startDate ? startDate.getUTCDay() : 0;
+
+    return Array.from({ length: totalDays }, (_, index) => {
+        const weekday = WEEKDAYS[(firstWeekday + index) % 7];
+        const day = totalDays > 7 ? `Week ${Math.floor(index / 7) + 1} ${weekday}` : weekday;
+        const date = startDate ? formatIsoDate(addDays(startDate, index)) : undefined;
+
+        if (fastingDays.includes(weekday)) {
+            return { day, weekday, date, type: 'fasting' as const };
+        }
+        if (protocol.reducedDays.includes(weekday)) {
+            return { day, weekday, date, type: 'reduced' as const, eatingWindow: protocol.eatingWindow };
+        }
+        return { day, weekday, date, type: 'eating' as const, eatingWindow: protocol.eatingWindow };
+    });
+}
+
+/**
+ * Concrete start/end of the first extended fast that reaches into the plan's eating time,
+ * where the plan starts on planStart and eating begins eatingStartMinutes after midnight
+ */
+export function resolveFastingDates(
+    fastingWindow: FastingWindow,
+    planStart: Date,
+    eatingStartMinutes: number = 0
+): { startDate: string; endDate: string } {
+    const durationMinutes = Math.round(fastingWindow.durationHours * 60);
+
+    // Step back a week so a fast already under way when the plan starts is the one reported
+    let fastStartDay = addDays(planStart, (fastingWindow.start.weekday - planStart.getUTCDay() + 7) % 7 - 7);
+    const planEatingStart = (planStart.getTime() - fastStartDay.getTime()) / 60000 + eatingStartMinutes;
+    const endsBeforePlan = fastingWindow.start.minutes + durationMinutes <= planEatingStart;
+    if (endsBeforePlan) {
+        fastStartDay = addDays(fastStartDay, 7);
+    }
+
+    const endMinutes = fastingWindow.start.minutes + durationMinutes;
+    const fastEndDay = addDays(fastStartDay, Math.floor(endMinutes / (24 * 60)));
+
+    return {
+        startDate: formatIsoDateTime(fastStartDay, fastingWindow.start.minutes),
+        endDate: formatIsoDateTime(fastEndDay, endMinutes % (24 * 60))
+    };
+}
+
+/**
+ * Split a schedule into consecutive chunks small enough for a single model call
+ */
+export function chunkSchedule(schedule: ScheduledDay[], chunkDays: number = PLAN_CHUNK_DAYS): ScheduledDay[][] {
+    const chunks: ScheduledDay[][] = [];
+    for (let i = 0; i < schedule.length; i += chunkDays) {
+        chunks.push(schedule.slice(i, i + chunkDays));
+    }
+    return chunks;
+}
+
+/**
+ * Days on which the model needs to plan meals (eating and reduced-calorie days)
+ */
+export function getMealDays(schedule: ScheduledDay[]): ScheduledDay[] {
+    return schedule.filter(d => d.type !== 'fasting');
+}
+
+/**
+ * Describe the protocol's fasting rules as prompt text for the model
+ */
+export function describeProtocolForPrompt(
+    protocol: FastingProtocol,
+    schedule: ScheduledDay[],
+    fastingStart: string,
+    fastingEnd: string,
+    fastingWindow?: FastingWindow
+): string {
+    const mealDays = getMealDays(schedule).map(d => d.day);
+    const fastingDays = schedule.filter(d => d.type === 'fasting').map(d => d.day);
+    const reducedDays = schedule.filter(d => d.type === 'reduced').map(d => d.day);
+    const window = `${protocol.eatingWindow.start}-${protocol.eatingWindow.end}`;
+
+    const parts: string[] = [`Fasting protocol: ${protocol.name}.`];
+
+    if (protocol.usesExtendedFast && fastingWindow) {
+        const fastText = `${fastingWindow.durationHours}-hour fast (${formatWeekdayTime(fastingWindow.start)} to ${formatWeekdayTime(fastingWindow.end)})`;
+        parts.push(fastingDays.length > 0
+            ? `Skip ${fastingDays.join(', ')} for the ${fastText}.`
+            : `No meals during the ${fastText}.`);
+    } else if (protocol.usesExtendedFast && fastingDays.length > 0) {
+        parts.push(`Skip ${fastingDays.join(', ')} for the fast (${fastingStart} to ${fastingEnd}).`);
+    } else if (fastingDays.length > 0) {
+        parts.push(`${fastingDays.join(', ')} are full fasting days with no meals.`);
+    }
+
+    if (reducedDays.length > 0) {
+        parts.push(`${reducedDays.join(', ')} are reduced-calorie fast days: plan one small meal of about ${protocol.reducedCalories || 500} kcal.`);
+    }
+
+    parts.push(`Plan meals only for: ${mealDays.join(', ')}.`);
+    parts.push(`All meals must fall inside the ${window} eating window.`);
+
+    // How many meals go on a normal eating day is the meal structure's job (mealSlots.ts)
+    return parts.join(' ');
+}
+
+/**
+ * Short human-readable summary used in table headings and exports
+ */
+export function describeProtocolSummary(protocol: FastingProtocol, fastingStart: string, fastingEnd: string): string {
+    if (protocol.usesExtendedFast) {
+        return `${protocol.name}: ${fastingStart} - ${fastingEnd}`;
+    }
+    return `${protocol.name}: eating ${protocol.eatingWindow.start}-${protocol.eatingWindow.end}`;
+}
+
+/**
+ * Build the plan's fastingPeriod from the protocol rather than trusting the model
+ */
+export function buildFastingPeriod(
+    protocol: FastingProtocol,
+    schedule: ScheduledDay[],
+    fastingStart: string,
+    fastingEnd: string,
+    fastingWindow?: FastingWindow,
+    planStart?: Date
+): FastingPeriodSummary {
+    const fastingDays = schedule.filter(d => d.type === 'fasting').map(d => d.day);
+    const reducedDays = schedule.filter(d => d.type === 'reduced').map(d => d.day);
+    const fastingDates = schedule.filter(d => d.type === 'fasting' && d.date).map(d => d.date!);
+    const fastDates = fastingWindow && planStart
+        ? resolveFastingDates(fastingWindow, planStart, eatingWindowMinutes(protocol.eatingWindow).start)
+        : undefined;
+
+    if (fastingWindow) {
+        fastingStart = formatWeekdayTime(fastingWindow.start);
+        fastingEnd = formatWeekdayTime(fastingWindow.end);
+    }
+
+    return {
+        start: protocol.usesExtendedFast ? fastingStart : protocol.eatingWindow.end,
+        end: protocol.usesExtendedFast ? fastingEnd : protocol.eatingWindow.start,
+        durationHours: fastingWindow?.durationHours,
+        startDate: fastDates?.startDate,
+        endDate: fastDates?.endDate,
+        skippedDay: protocol.usesExtendedFast ? fastingDays[0] : undefined,
+        protocol: protocol.id,
+        fastingDays,
+        fastingDates: planStart ? fastingDates : undefined,
+        reducedDays,
+        eatingWindow: protocol.eatingWindow
+    };
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { LanguageModelMiddleware } from 'ai';
+import { LLMProvider, LLMProviderError, ProviderLanguageModel } from './llmProviders';
+
+type CallOptions = Parameters<ProviderLanguageModel['doGenerate']>[0];
+type StreamPart = ProviderLanguageModel extends { doStream(options: CallOptions): PromiseLike<{ stream: ReadableStream<infer P> }> } ? P : never;
+
+export interface RecordedResponse {
+    recordedAt: string;
+    provider: string;
+    modelId: string;
+    prompt: unknown;
+    response: unknown;
+}
+
+const EMPTY_USAGE = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+/**
+ * Turn a fixture file into the raw text a model would have returned.
+ * Accepts files written by --record ({ response: ... }) or a plain MealPlan JSON export.
+ */
+function readFixtureText(filePath: string): string {
+    const content = fs.readFileSync(filePath, 'utf8');
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        throw new LLMProviderError(`Fixture ${filePath} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`, 'fixture');
+    }
+
+    if (parsed && typeof parsed === 'object' && 'response' in parsed) {
+        return typeof parsed.response === 'string' ? parsed.response : JSON.stringify(parsed.response);
+    }
+    return JSON.stringify(parsed);
+}
+
+/**
+ * Replays recorded model output instead of calling a live model.
+ * A directory fixture is replayed file by file in name order, cycling when exhausted,
+ * so multi-chunk plans get one recorded response per call.
+ */
+export class FixtureProvider implements LLMProvider {
+    readonly id = 'fixture' as const;
+    readonly name = 'Fixture replay';
+    readonly models = [];
+    readonly defaultModel = 'fixture';
+    private readonly responses: string[];
+    private callCount = 0;
+
+    constructor(private fixturePath: string) {
+        if (!fs.existsSync(fixturePath)) {
+            throw new LLMProviderError(`Fixture not found: ${fixturePath}`, this.id);
+        }
+
+        const files = fs.statSync(fixturePath).isDirectory()
+            ? fs.readdirSync(fixturePath)
+                .filter(file => file.endsWith('.json'))
+                .sort()
+                .map(file => path.join(fixturePath, file))
+            : [fixturePath];
+
+        if (files.length === 0) {
+            throw new LLMProviderError(`No .json fixtures found in ${fixturePath}`, this.id);
+        }
+
+        this.responses = files.map(readFixtureText);
+    }
+
+    validateModel(): boolean {
+        return true;
+    }
+
+    private nextResponse(): string {
+        const response = this.responses[this.callCount % this.responses.length];
+        this.callCount++;
+        return response;
+    }
+
+    createModel(model: string): ProviderLanguageModel {
+        return {
+            specificationVersion: 'v2',
+            provider: this.id,
+            modelId: model,
+            supportedUrls: {},
+            doGenerate: async () => ({
+                content: [{ type: 'text', text: this.nextResponse() }],
+                finishReason: 'stop',
+                usage: EMPTY_USAGE,
+                warnings: []
+            }),
+            doStream: async () => {
+                const text = this.nextResponse();
+                // Emit the recording in small pieces so streaming consumers behave as they would live
+                const deltas = text.match(/[\s\S]{1,200}/g) || [];
+                const stream = new ReadableStream<StreamPart>({
+                    start(controller) {
+                        controller.enqueue({ type: 'stream-start', warnings: [] });
+                        controller.enqueue({ type: 'text-start', id: '0' });
+                        deltas.forEach(delta => controller.enqueue({ type: 'text-delta', id: '0', delta }));
+                        controller.enqueue({ type: 'text-end', id: '0' });
+                        controller.enqueue({ type: 'finish', finishReason: 'stop', usage: EMPTY_USAGE });
+                        controller.close();
+                    }
+                });
+                return { stream };
+            }
+        };
+    }
+}
+
+function writeRecording(directory: string, model: ProviderLanguageModel, params: CallOptions, text: string): void {
+    try {
+        fs.mkdirSync(directory, { recursive: true });
+
+        // Number files so that a directory replay returns responses in call order
+        const existing = fs.readdirSync(directory).filter(file => /^response-\d+\.json$/.test(file)).length;
+        const filePath = path.join(directory, `response-${String(existing + 1).padStart(3, '0')}.json`);
+
+        let response: unknown = text;
+        try {
+            response = JSON.parse(text);
+        } catch {
+            // Keep unparseable output verbatim so schema failures can be replayed too
+        }
+
+        const recording: RecordedResponse = {
+            recordedAt: new Date().toISOString(),
+            provider: model.provider,
+            modelId: model.modelId,
+            prompt: params.prompt,
+            response
+        };
+
+        fs.writeFileSync(filePath, JSON.stringify(recording, null, 2));
+        if (process.env.DEBUG_PROMPT) {
+            console.log(`📼 Recorded model response to ${filePath}`);
+        }
+    } catch (error) {
+        console.warn(`⚠️  Failed to record model response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Middleware that saves every model response to a directory for later replay with FixtureProvider
+ */
+export function createRecordingMiddleware(directory: string): LanguageModelMiddleware {
+    return {
+        middlewareVersion: 'v2',
+        wrapGenerate: async ({ doGenerate, params, model }) => {
+            const result = await doGenerate();
+            const text = result.content
+                .map(part => (part.type === 'text' ? part.text : ''))
+                .join('');
+            writeRecording(directory, model, params, text);
+            return result;
+        },
+        wrapStream: async ({ doStream, params, model }) => {
+            const { stream, ...rest } = await doStream();
+            let text = '';
+
+            const recorder = new TransformStream<StreamPart, StreamPart>({
+                transform(part, controller) {
+                    if (part.type === 'text-delta') {
+                        text += part.delta;
+                    }
+                    controller.enqueue(part);
+                },
+                flush() {
+                    writeRecording(directory, model, params, text);
+                }
+            });
+
+            return { stream: stream.pipeThrough(recorder), ...rest };
+        }
+    };
+}
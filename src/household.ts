@@ -0,0 +1,188 @@
+import { MacroTargets, NutritionProfile, WeeklyPattern, computeNutritionTargets } from './nutritionTargets';
+import { splitIngredientQuantity, scaleIngredient } from './compliance';
+
+// The other people a plan cooks for. Meals are planned as one portion for the main user and
+// shared: everyone else gets the same dish scaled to their own calorie target.
+// Works on the plain meal shape so it stays independent of the zod schema in index.ts.
+
+export interface HouseholdMember {
+    name: string;
+    sex?: string;
+    age?: string;
+    height?: string;
+    currentWeight?: string;
+    targetWeight?: string;
+    timeframe?: string;
+    activityLevel?: string;
+    // A fixed daily target instead of the calculation, e.g. for children
+    calories?: number;
+    // Foods this person can't eat; shared meals leave them out for everyone
+    exclusions?: string[];
+}
+
+// One person's share of every meal: their portion of the main user's dish and their daily targets
+export interface HouseholdPortion extends MacroTargets {
+    name: string;
+    portion: number;
+}
+
+// The main user, always the first portion
+export const MAIN_MEMBER = 'You';
+
+// Units that are measured rather than counted
+const MEASURE_UNIT = /^(?:g|kg|grams?|ml|l|liters?|oz|ounces?|lbs?|pounds?|cups?|tbsp|tablespoons?|tsp|teaspoons?)\b/i;
+
+interface PortionMacros {
+    calories?: number;
+    fat?: number;
+    protein?: number;
+    carbs?: number;
+}
+
+function roundPortion(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+export function findHouseholdMember(members: HouseholdMember[], name: string): HouseholdMember | undefined {
+    return members.find(member => member.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/**
+ * Add a member, or replace the one with the same name
+ */
+export function setHouseholdMember(members: HouseholdMember[], member: HouseholdMember): { members: HouseholdMember[]; updated: boolean } {
+    const updated = !!findHouseholdMember(members, member.name);
+    return {
+        members: updated ? members.map(m => m.name.toLowerCase() === member.name.toLowerCase() ? member : m) : [...members, member],
+        updated
+    };
+}
+
+export function removeHouseholdMember(members: HouseholdMember[], name: string): { members: HouseholdMember[]; removed: boolean } {
+    const remaining = members.filter(member => member.name.toLowerCase() !== name.trim().toLowerCase());
+    return { members: remaining, removed: remaining.length < members.length };
+}
+
+export function describeHouseholdMember(member: HouseholdMember): string {
+    const details = [
+        member.age ? `age ${member.age}` : '',
+        member.calories ? `${member.calories} kcal/day` : '',
+        !member.calories && member.currentWeight
+            ? member.targetWeight && member.targetWeight !== member.currentWeight ? `${member.currentWeight} to ${member.targetWeight}` : member.currentWeight
+            : '',
+        member.exclusions && member.exclusions.length > 0 ? `no ${member.exclusions.join(', ')}` : ''
+    ].filter(Boolean);
+    return details.length > 0 ? `${member.name} (${details.join(', ')})` : member.name;
+}
+
+/**
+ * A member's daily targets. A fixed calorie target keeps the main user's macro split;
+ * otherwise their own profile goes through the same calculation, with the plan's diet settings.
+ */
+export function computeMemberTargets(
+    member: HouseholdMember,
+    mainTargets: MacroTargets,
+    diet: Pick<NutritionProfile, 'diet' | 'netCarbLimit' | 'macroRatios'>,
+    week?: WeeklyPattern
+): { targets?: MacroTargets; error?: string } {
+    if (member.calories) {
+        const share = member.calories / mainTargets.calories;
+        return {
+            targets: {
+                calories: member.calories,
+                protein: Math.round(mainTargets.protein * share),
+                fat: Math.round(mainTargets.fat * share),
+                carbs: Math.round(mainTargets.carbs * share)
+            }
+        };
+    }
+
+    const { targets, error } = computeNutritionTargets({
+        ...diet,
+        sex: member.sex || '',
+        age: member.age || '',
+        height: member.height || '',
+        currentWeight: member.currentWeight || '',
+        targetWeight: member.targetWeight || member.currentWeight || '',
+        timeframe: member.timeframe || '6 months',
+        activityLevel: member.activityLevel || ''
+    }, week);
+    return targets
+        ? { targets: { calories: targets.calories, protein: targets.protein, fat: targets.fat, carbs: targets.carbs } }
+        : { error };
+}
+
+/**
+ * Portions for the main user and each member, sized by calories against the main user's target
+ */
+export function buildHouseholdPortions(mainTargets: MacroTargets, members: Array<{ name: string; targets: MacroTargets }>): HouseholdPortion[] {
+    return [
+        { name: MAIN_MEMBER, portion: 1, ...pickTargets(mainTargets) },
+        ...members.map(member => ({
+            name: member.name,
+            portion: roundPortion(member.targets.calories / mainTargets.calories),
+            ...pickTargets(member.targets)
+        }))
+    ];
+}
+
+function pickTargets(targets: MacroTargets): MacroTargets {
+    return { calories: targets.calories, protein: targets.protein, fat: targets.fat, carbs: targets.carbs };
+}
+
+/**
+ * How many of the main user's portions each meal has to make
+ */
+export function getTotalPortions(portions: HouseholdPortion[]): number {
+    return roundPortion(portions.reduce((sum, person) => sum + person.portion, 0));
+}
+
+/**
+ * One person's macros for a dish planned as the main user's portion
+ */
+export function scalePortionMacros(macros: PortionMacros, portion: number): PortionMacros {
+    return {
+        calories: macros.calories !== undefined ? Math.round(macros.calories * portion) : undefined,
+        fat: macros.fat !== undefined ? Math.round(macros.fat * portion * 10) / 10 : undefined,
+        protein: macros.protein !== undefined ? Math.round(macros.protein * portion * 10) / 10 : undefined,
+        carbs: macros.carbs !== undefined ? Math.round(macros.carbs * portion * 10) / 10 : undefined
+    };
+}
+
+/**
+ * Ingredient lines for the whole plan with the same item added up ("6 oz salmon" + "8 oz salmon" -> "14 oz salmon")
+ * and scaled to the household's portions. Lines without a quantity are listed once.
+ */
+export function totalShoppingQuantities(ingredients: string[], portions: number = 1): string[] {
+    const totals = new Map<string, { line: string; quantity: number; total: number }>();
+    const unquantified = new Set<string>();
+
+    for (const ingredient of ingredients) {
+        const line = ingredient.toLowerCase().trim();
+        const split = splitIngredientQuantity(line);
+        if (!split || split.quantity <= 0) {
+            unquantified.add(line);
+            continue;
+        }
+
+        const key = split.rest.trim();
+        const entry = totals.get(key);
+        if (entry) {
+            entry.total += split.quantity;
+        } else {
+            totals.set(key, { line, quantity: split.quantity, total: split.quantity });
+        }
+    }
+
+    // Counted items ("2 eggs", "1 avocado") are bought whole
+    const quantified = [...totals.entries()].map(([rest, entry]) => {
+        const amount = MEASURE_UNIT.test(rest) ? entry.total * portions : Math.ceil(entry.total * portions);
+        return scaleIngredient(entry.line, amount / entry.quantity);
+    });
+    return [...quantified, ...unquantified];
+}
+
+export function describeHouseholdForPrompt(members: HouseholdMember[]): string {
+    if (members.length === 0) return '';
+    return `HOUSEHOLD: every meal is shared with ${members.map(describeHouseholdMember).join('; ')}. Choose dishes the whole household can eat together (family-friendly for children), with nothing anyone has to avoid. Still write each meal's ingredient quantities and macros for ONE portion for the user; the planner scales portions for the others.`;
+}
@@ -8,56 +8,406 @@ import os from 'os';
 dotenv.config({ path: path.join(process.cwd(), '.env.local') });
 dotenv.config(); // This loads .env as fallback
 import { Command } from 'commander';
-import { generateObject } from 'ai';
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { generateObject, streamObject, wrapLanguageModel, NoObjectGeneratedError } from 'ai';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import Table from 'cli-table3';
 import { z } from 'zod';
-import { WaitingExperience, WaitingExperienceType } from './waitingExperience';
+import { StreamingTable } from './streamingTable';
 import { USDAAPIService } from './usdaApi';
 import { NutritionCalculator, USDAAPIInterface } from './nutritionCalculator';
+import {
+    FASTING_PROTOCOLS,
+    DEFAULT_FASTING_PROTOCOL,
+    FastingProtocol,
+    ScheduledDay,
+    findFastingProtocol,
+    buildSchedule,
+    chunkSchedule,
+    DEFAULT_PLAN_DAYS,
+    MAX_PLAN_DAYS,
+    getMealDays,
+    describeProtocolForPrompt,
+    describeProtocolSummary,
+    buildFastingPeriod,
+    FastingWindow,
+    resolveFastingWindow,
+    validateWeekdayTimeInput
+} from './fastingProtocols';
+import { parseIsoDate, formatIsoDate, nextOccurrence } from './planDates';
+import {
+    LLMProvider,
+    LLMProviderId,
+    LLM_PROVIDERS,
+    DEFAULT_LLM_PROVIDER,
+    OPENROUTER_MODELS,
+    DEFAULT_OPENROUTER_MODEL,
+    OpenRouterProvider,
+    OpenAICompatibleProvider,
+    isLLMProviderId,
+    parseAuthHeader,
+    ProviderLanguageModel
+} from './llmProviders';
+import { FixtureProvider, createRecordingMiddleware } from './fixtureProvider';
+import { NutritionTargets, computeNutritionTargets, describeTargetsForPrompt, formatWeeklyChange } from './nutritionTargets';
+import {
+    DayCompliance,
+    calculateDailyTotals,
+    getDayTarget,
+    checkDayCompliance,
+    describeDeviation,
+    suggestScaleFactor,
+    scaleMeal,
+    pickMealToAdjust,
+    describeAdjustment
+} from './compliance';
+import {
+    DietRules,
+    getDietRules,
+    applyDietCheck,
+    findForbiddenIngredients,
+    summarizeDayDietCheck,
+    describeDietRulesForPrompt
+} from './dietValidator';
+import {
+    DietProfile,
+    CUSTOM_DIET,
+    DIET_PROFILES,
+    FOOD_GROUPS,
+    isCustomDiet,
+    findDietProfile,
+    completeCustomProfile,
+    validateDietProfile,
+    parseMacroRatios,
+    describeMacroRatios
+} from './dietProfiles';
+import {
+    ExclusionRule,
+    COMMON_EXCLUSIONS,
+    parseExclusionList,
+    resolveExclusions,
+    findExcludedItems,
+    describeExclusionsForPrompt
+} from './exclusions';
+import {
+    RecipePatterns,
+    RecipePlan,
+    MAX_SEED,
+    generateSeed,
+    planRecipeAssignments,
+    describeAssignment,
+    describeRecipePlanForPrompt
+} from './recipePlanner';
+import {
+    TemplateContext,
+    IncludeResolver,
+    BUILT_IN_FRAGMENTS,
+    checkTemplate,
+    renderTemplate,
+    listTemplateVariables
+} from './promptTemplate';
+import {
+    VarietyAudit,
+    auditPlanVariety,
+    getDaysBreakingVariety,
+    summarizeRepeats,
+    describeVarietyFixForPrompt
+} from './varietyAudit';
+import {
+    PantryItem,
+    getPantryPath,
+    loadPantry,
+    savePantry,
+    addPantryItem,
+    removePantryItem,
+    formatPantryItem,
+    splitShoppingList,
+    describePantryForPrompt
+} from './pantry';
+import { listTemplates, findTemplate, getUserTemplatesDir } from './templateLibrary';
+import {
+    PriceTable,
+    LoadedPriceTable,
+    IngredientParser,
+    Budget,
+    PRICE_UNIT_NAMES,
+    MAX_BUDGET_SWAPS_PER_WEEK,
+    getPricesPath,
+    loadPriceTable,
+    savePriceTable,
+    parsePrice,
+    setPrice,
+    removePrice,
+    formatMoney,
+    formatPriceEntry,
+    priceMeal,
+    getDayCost,
+    parseBudget,
+    describeBudget,
+    summarizePlanCost,
+    findMostExpensiveMeals,
+    describeBudgetForPrompt,
+    describeBudgetFixForPrompt
+} from './priceTable';
+import {
+    HouseholdMember,
+    HouseholdPortion,
+    MAIN_MEMBER,
+    findHouseholdMember,
+    setHouseholdMember,
+    removeHouseholdMember,
+    describeHouseholdMember,
+    computeMemberTargets,
+    buildHouseholdPortions,
+    getTotalPortions,
+    scalePortionMacros,
+    totalShoppingQuantities,
+    describeHouseholdForPrompt
+} from './household';
+import {
+    LeftoverPair,
+    planLeftovers,
+    describeLeftoversForPrompt,
+    describeLeftoverSource,
+    describeBatch,
+    getBatchServings,
+    linkLeftover,
+    linkLeftovers,
+    syncLeftovers,
+    getShoppingIngredients
+} from './leftovers';
+import {
+    PrepSession,
+    buildPrepSchedule,
+    formatPrepClock,
+    formatPrepDuration,
+    describePrepStepMeal,
+    describePrepStepTiming
+} from './mealPrep';
+import {
+    CuisinePlan,
+    ROTATE_CUISINES,
+    listCuisineThemes,
+    findCuisineTheme,
+    formatCuisineTheme,
+    assignCuisineThemes,
+    describeCuisineForPrompt
+} from './cuisineThemes';
+import {
+    MealSlot,
+    parseMealStructure,
+    getDefaultMealStructure,
+    describeMealStructure,
+    describeMealStructureForPrompt
+} from './mealSlots';
+import {
+    DEFAULT_REPAIR_ATTEMPTS,
+    RepairRecord,
+    findScheduledDay,
+    findPlanIssues,
+    getDaysNeedingRegeneration,
+    getMealsNeedingDetails,
+    arrangeMealSlots,
+    describeMealDetailRequest,
+    mergeRegeneratedDays,
+    mergeMealDetails,
+    describeRejectedMeals,
+    dropExcludedMeals,
+    buildRepairRecords,
+    describeIssue
+} from './planRepair';
 
 const program = new Command();
 
-// Zod schema for structured meal plan output
+// Zod schema for structured meal plan output: only what the model writes
+const mealSchema = z.object({
+    name: z.string(),
+    type: z.enum(['breakfast', 'lunch', 'dinner', 'snack']).optional(),
+    prepTime: z.string().optional(),
+    ingredients: z.array(z.string()).optional(),
+    instructions: z.array(z.string()).optional(),
+    macros: z.object({
+        calories: z.number().optional(),
+        fat: z.number().optional(),
+        protein: z.number().optional(),
+        carbs: z.number().optional()
+    }).optional(),
+    nutritionSource: z.enum(['llm', 'usda', 'mixed']).optional(),
+    nutritionConfidence: z.enum(['high', 'medium', 'low']).optional()
+});
+
+const mealPlanDaySchema = z.object({
+    day: z.string(),
+    date: z.string().optional(),
+    dayType: z.enum(['eating', 'fasting', 'reduced']).optional(),
+    meals: z.array(mealSchema)
+});
+
 const mealPlanSchema = z.object({
-    days: z.array(z.object({
-        day: z.string(),
-        meals: z.array(z.object({
-            name: z.string(),
-            type: z.enum(['breakfast', 'lunch', 'dinner', 'snack']).optional(),
-            prepTime: z.string().optional(),
-            ingredients: z.array(z.string()).optional(),
-            instructions: z.array(z.string()).optional(),
-            macros: z.object({
-                calories: z.number().optional(),
-                fat: z.number().optional(),
-                protein: z.number().optional(),
-                carbs: z.number().optional()
-            }).optional(),
-            nutritionSource: z.enum(['llm', 'usda', 'mixed']).optional(),
-            nutritionConfidence: z.enum(['high', 'medium', 'low']).optional()
-        }))
-    })),
+    days: z.array(mealPlanDaySchema),
     fastingPeriod: z.object({
         start: z.string(),
         end: z.string(),
-        skippedDay: z.string()
+        durationHours: z.number().optional(),
+        startDate: z.string().optional(),
+        endDate: z.string().optional(),
+        skippedDay: z.string().optional(),
+        protocol: z.string().optional(),
+        fastingDays: z.array(z.string()).optional(),
+        fastingDates: z.array(z.string()).optional(),
+        reducedDays: z.array(z.string()).optional(),
+        eatingWindow: z.object({
+            start: z.string(),
+            end: z.string()
+        }).optional()
     }).optional()
 });
 
-type MealPlan = z.infer<typeof mealPlanSchema>;
+const macroTargetsSchema = z.object({
+    calories: z.number(),
+    protein: z.number(),
+    fat: z.number(),
+    carbs: z.number()
+});
 
-// OpenRouter models that support structured output well
-const OPENROUTER_MODELS = [
-    { name: 'x-ai/grok-4-fast', description: 'Grok-4 Fast (Fast, good quality, structured output)' }
-];
+// One entry from keto-recipe-patterns.json assigned to a day by the recipe planner
+const patternPickSchema = z.object({
+    category: z.string(),
+    item: z.string()
+});
+
+// The saved plan: the model's output plus what the planner works out from it.
+// These fields are never sent to the model, so a feature that is off leaves them out of the export.
+const savedMealSchema = mealSchema.extend({
+    dietIssues: z.array(z.string()).optional(),
+    cuisine: z.string().optional(),
+    cost: z.object({
+        amount: z.number(),
+        currency: z.string(),
+        unpriced: z.array(z.string())
+    }).optional(),
+    // Batch cooking: a dinner cooked for later meals too, and a meal eaten from an earlier batch
+    batch: z.object({
+        servings: z.number(),
+        leftovers: z.array(z.object({
+            day: z.string(),
+            type: z.string()
+        }))
+    }).optional(),
+    leftoverFrom: z.object({
+        day: z.string(),
+        type: z.string(),
+        name: z.string()
+    }).optional()
+});
+
+const savedMealPlanDaySchema = mealPlanDaySchema.extend({
+    meals: z.array(savedMealSchema),
+    dietIssues: z.array(z.string()).optional()
+});
+
+const savedMealPlanSchema = mealPlanSchema.extend({
+    days: z.array(savedMealPlanDaySchema),
+    targets: macroTargetsSchema.extend({
+        method: z.literal('mifflin-st-jeor'),
+        bmr: z.number(),
+        tdee: z.number(),
+        activityMultiplier: z.number(),
+        dailyDeficit: z.number(),
+        weeklyChangeKg: z.number(),
+        reducedDay: macroTargetsSchema.optional()
+    }).optional(),
+    exclusions: z.array(z.string()).optional(),
+    // Everyone the meals are cooked for, the main user first; each meal is scaled by portion
+    household: z.array(macroTargetsSchema.extend({
+        name: z.string(),
+        portion: z.number()
+    })).optional(),
+    mealSlots: z.array(z.enum(['breakfast', 'lunch', 'dinner', 'snack'])).optional(),
+    variety: z.object({
+        score: z.number(),
+        repeats: z.array(z.object({
+            dimension: z.string(),
+            category: z.string(),
+            days: z.array(z.string())
+        }))
+    }).optional(),
+    recipePlan: z.object({
+        seed: z.number(),
+        days: z.array(z.object({
+            day: z.string(),
+            date: z.string().optional(),
+            protein: patternPickSchema,
+            vegetable: patternPickSchema,
+            method: patternPickSchema,
+            seasoning: patternPickSchema
+        }))
+    }).optional(),
+    cuisine: z.object({
+        selection: z.string(),
+        seed: z.number().optional(),
+        days: z.array(z.object({
+            day: z.string(),
+            date: z.string().optional(),
+            theme: z.string()
+        }))
+    }).optional(),
+    dietCheck: z.object({
+        diet: z.string(),
+        dayNetCarbLimit: z.number(),
+        mealNetCarbLimit: z.number(),
+        passed: z.boolean(),
+        failedDays: z.array(z.string())
+    }).optional(),
+    costs: z.object({
+        currency: z.string(),
+        total: z.number(),
+        averagePerDay: z.number(),
+        weeks: z.array(z.object({
+            days: z.array(z.string()),
+            total: z.number(),
+            limit: z.number().optional(),
+            overBudget: z.boolean()
+        })),
+        unpricedIngredients: z.number(),
+        budget: z.object({
+            amount: z.number(),
+            per: z.enum(['day', 'week'])
+        }).optional()
+    }).optional()
+});
+
+type MealPlan = z.infer<typeof savedMealPlanSchema>;
+type MealPlanDay = MealPlan['days'][number];
+type Meal = z.infer<typeof savedMealSchema>;
+
+// Recipe details requested when the model returned a dish without ingredients or instructions
+const mealDetailsSchema = z.object({
+    meals: z.array(z.object({
+        day: z.string(),
+        name: z.string(),
+        ingredients: z.array(z.string()),
+        instructions: z.array(z.string())
+    }))
+});
+
+// Replacement dishes for a single meal, requested from the detailed view
+const mealReplacementSchema = z.object({
+    meals: z.array(mealSchema)
+});
 
 interface Config {
+    fastingProtocol: string;
+    planDays?: number;
+    planWeeks?: number;
     fastingStart: string;
     fastingEnd: string;
     diet: string;
+    netCarbLimit?: number;
+    exclusions?: string[];
+    cuisine?: string;
+    mealStructure?: string;
+    budget?: string;
+    batchCooking?: boolean;
     apiKey: string;
     currentWeight: string;
     targetWeight: string;
@@ -68,10 +418,44 @@ interface Config {
     activityLevel: string;
 }
 
+// Every profile field, so templates can refer to optional ones that were never answered
+const EMPTY_PROFILE: Record<keyof Config, undefined> = {
+    fastingProtocol: undefined,
+    planDays: undefined,
+    planWeeks: undefined,
+    fastingStart: undefined,
+    fastingEnd: undefined,
+    diet: undefined,
+    netCarbLimit: undefined,
+    exclusions: undefined,
+    cuisine: undefined,
+    mealStructure: undefined,
+    budget: undefined,
+    batchCooking: undefined,
+    apiKey: undefined,
+    currentWeight: undefined,
+    targetWeight: undefined,
+    timeframe: undefined,
+    sex: undefined,
+    age: undefined,
+    height: undefined,
+    activityLevel: undefined
+};
+
 interface TestConfig {
+    fastingProtocol?: string;
+    planDays?: number;
+    planWeeks?: number;
+    startDate?: string;
     fastingStart?: string;
     fastingEnd?: string;
     diet?: string;
+    netCarbLimit?: number;
+    exclusions?: string[];
+    cuisine?: string;
+    mealStructure?: string;
+    budget?: string | number;
+    batchCooking?: boolean;
     currentWeight?: string;
     targetWeight?: string;
     timeframe?: string;
@@ -80,18 +464,42 @@ interface TestConfig {
     height?: string;
     activityLevel?: string;
     promptTemplate?: string;
+    template?: string;
+    fragments?: Record<string, string>;
+    seed?: number;
+    household?: HouseholdMember[];
 }
 
 interface GlobalConfig {
+    provider?: LLMProviderId;
     apiKey?: string;
     usdaApiKey?: string;
     appUrl?: string;
     appTitle?: string;
     defaultModel?: string;
+    openaiCompatible?: {
+        baseUrl?: string;
+        defaultModel?: string;
+        apiKey?: string;
+        authHeader?: string;
+    };
+    // The profile behind the "Custom" diet
+    customDiet?: DietProfile;
+    // The other people the plans cook for
+    household?: HouseholdMember[];
     defaults?: {
+        fastingProtocol?: string;
+        planDays?: number;
+        planWeeks?: number;
         fastingStart?: string;
         fastingEnd?: string;
         diet?: string;
+        netCarbLimit?: number;
+        exclusions?: string[];
+        cuisine?: string;
+        mealStructure?: string;
+        budget?: string;
+        batchCooking?: boolean;
         currentWeight?: string;
         targetWeight?: string;
         timeframe?: string;
@@ -115,6 +523,63 @@ function loadTestConfig(configPath: string): TestConfig {
     }
 }
 
+// The prompt template a run uses, with where its fragments and relative includes come from
+interface SelectedTemplate {
+    label: string;
+    source: string;
+    fragments?: Record<string, string>;
+    baseDir: string;
+}
+
+/**
+ * Pick the prompt template. Priority: --template > the config file's own promptTemplate >
+ * the config file's "template" name. Named templates come from the templates directories.
+ */
+function resolvePromptTemplate(cliTemplate: string | undefined, testConfig: TestConfig, configPath?: string): SelectedTemplate | undefined {
+    const configDir = configPath ? path.dirname(path.resolve(configPath)) : process.cwd();
+    if (!cliTemplate && testConfig.promptTemplate) {
+        // The old DYNAMIC_VARIETY marker names a built-in fragment
+        const source = testConfig.promptTemplate.trim() === 'DYNAMIC_VARIETY' ? '${> dynamic-variety}' : testConfig.promptTemplate;
+        return { label: 'custom prompt template from config', source, fragments: testConfig.fragments, baseDir: configDir };
+    }
+
+    const name = cliTemplate || testConfig.template;
+    if (!name) return undefined;
+
+    const warn = (message: string) => console.warn(chalk.yellow(`⚠️  ${message}`));
+    const template = findTemplate(name, warn);
+    if (!template) {
+        console.error(chalk.red(`❌ Unknown template: ${name}`));
+        const available = listTemplates(() => {}).map(t => t.name);
+        console.log(chalk.yellow(available.length > 0 ? `Available templates: ${available.join(', ')}` : 'No templates found.'));
+        console.log(chalk.gray(`Add your own to ${getUserTemplatesDir()}`));
+        process.exit(1);
+    }
+    return {
+        label: `"${template.name}" template (${template.source === 'user' ? template.path : 'built-in'})`,
+        source: template.promptTemplate,
+        // Config file fragments still win, so a profile can adjust a named template
+        fragments: { ...template.fragments, ...testConfig.fragments },
+        baseDir: path.dirname(template.path)
+    };
+}
+
+/**
+ * Fragments for ${> name}: the template's and config file's own "fragments" first, then the
+ * built-in ones, then a file with that path relative to the template
+ */
+function createIncludeResolver(template: SelectedTemplate): IncludeResolver {
+    return name => {
+        if (template.fragments?.[name] !== undefined) return template.fragments[name];
+        if (BUILT_IN_FRAGMENTS[name] !== undefined) return BUILT_IN_FRAGMENTS[name];
+
+        const fragmentPath = path.resolve(template.baseDir, name);
+        return fs.existsSync(fragmentPath) && fs.statSync(fragmentPath).isFile()
+            ? fs.readFileSync(fragmentPath, 'utf8')
+            : undefined;
+    };
+}
+
 // Global Configuration Functions
 function getGlobalConfigPath(): string {
     return path.join(os.homedir(), '.ai-fasting-planner', 'config.json');
@@ -134,6 +599,15 @@ function loadGlobalConfig(): GlobalConfig {
     return {};
 }
 
+function readPantry(): PantryItem[] {
+    try {
+        return loadPantry();
+    } catch (error) {
+        console.warn(chalk.yellow(`⚠️  Warning: Could not load pantry (${error instanceof Error ? error.message : 'Unknown error'}), treating it as empty`));
+        return [];
+    }
+}
+
 function saveGlobalConfig(config: GlobalConfig): void {
     try {
         const configPath = getGlobalConfigPath();
@@ -186,56 +660,441 @@ function clearGlobalConfig(): void {
     }
 }
 
-function validateModel(model: string): boolean {
-    // Check if model is in our predefined list
-    const isValidModel = OPENROUTER_MODELS.some(m => m.name === model);
-    if (isValidModel) {
-        return true;
+function getSelectedProviderId(globalConfig: GlobalConfig, cliProvider?: string): LLMProviderId {
+    // Priority: CLI flag > global config > environment > default
+    const providerId = cliProvider || globalConfig.provider || process.env.LLM_PROVIDER || DEFAULT_LLM_PROVIDER;
+
+    if (!isLLMProviderId(providerId)) {
+        console.error(chalk.red(`❌ Unknown AI provider: ${providerId}`));
+        console.log(chalk.yellow('Available providers:'));
+        LLM_PROVIDERS.forEach(provider => {
+            console.log(chalk.gray(`  ${provider.id} - ${provider.description}`));
+        });
+        process.exit(1);
     }
 
-    // Allow custom models that follow OpenRouter naming pattern (provider/model)
-    const openRouterPattern = /^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.-]+$/;
-    return openRouterPattern.test(model);
+    return providerId;
 }
 
-function getSelectedModel(globalConfig: GlobalConfig, cliModel?: string): string {
+function createSelectedProvider(
+    providerId: LLMProviderId,
+    globalConfig: GlobalConfig,
+    options: { apiKey?: string; baseUrl?: string; authHeader?: string; fixture?: string }
+): LLMProvider {
+    try {
+        if (providerId === 'fixture') {
+            return new FixtureProvider(options.fixture || '');
+        }
+
+        if (providerId === 'openai-compatible') {
+            const baseUrl = options.baseUrl || globalConfig.openaiCompatible?.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL;
+            if (!baseUrl) {
+                console.error(chalk.red('❌ No base URL configured for the OpenAI-compatible provider!'));
+                console.log(chalk.yellow('Run "fast-plan setup", pass --base-url, or set OPENAI_COMPATIBLE_BASE_URL.'));
+                process.exit(1);
+            }
+
+            return new OpenAICompatibleProvider({
+                baseUrl,
+                apiKey: globalConfig.openaiCompatible?.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY,
+                authHeader: options.authHeader || globalConfig.openaiCompatible?.authHeader
+            });
+        }
+
+        return new OpenRouterProvider({
+            apiKey: options.apiKey || '',
+            appUrl: globalConfig.appUrl || process.env.APP_URL,
+            appTitle: globalConfig.appTitle || process.env.APP_TITLE
+        });
+    } catch (error) {
+        console.error(chalk.red(`❌ Could not configure AI provider: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+    }
+}
+
+function getSelectedModel(provider: LLMProvider, globalConfig: GlobalConfig, cliModel?: string): string {
     // Priority: CLI flag > global config > default
     if (cliModel) {
-        if (!validateModel(cliModel)) {
-            console.error(chalk.red(`❌ Invalid model: ${cliModel}`));
-            console.log(chalk.yellow('Available models:'));
-            OPENROUTER_MODELS.forEach(model => {
-                console.log(chalk.gray(`  ${model.name} - ${model.description}`));
-            });
+        if (!provider.validateModel(cliModel)) {
+            console.error(chalk.red(`❌ Invalid model for ${provider.name}: ${cliModel}`));
+            if (provider.models.length > 0) {
+                console.log(chalk.yellow('Available models:'));
+                provider.models.forEach(model => {
+                    console.log(chalk.gray(`  ${model.name} - ${model.description}`));
+                });
+            }
             process.exit(1);
         }
         return cliModel;
     }
 
+    if (provider.id === 'openai-compatible') {
+        const localModel = globalConfig.openaiCompatible?.defaultModel || process.env.OPENAI_COMPATIBLE_MODEL;
+        if (!localModel) {
+            console.error(chalk.red('❌ No model configured for the OpenAI-compatible provider!'));
+            console.log(chalk.yellow('Run "fast-plan setup" or pass --model with the name your server uses.'));
+            process.exit(1);
+        }
+        return localModel;
+    }
+
+    // Recorded responses don't depend on a model; keep the config's OpenRouter default out of the output
+    if (provider.id === 'fixture') {
+        return provider.defaultModel || 'fixture';
+    }
+
     if (globalConfig.defaultModel) {
         return globalConfig.defaultModel;
     }
 
     // Fallback to default
-    return 'x-ai/grok-4-fast';
+    return provider.defaultModel || DEFAULT_OPENROUTER_MODEL;
 }
 
-function evaluatePromptTemplate(template: string, finalAnswers: Config): string {
-    // Replace template variables with actual values
-    return template
-        .replace(/\$\{finalAnswers\.sex\}/g, finalAnswers.sex)
-        .replace(/\$\{finalAnswers\.age\}/g, finalAnswers.age)
-        .replace(/\$\{finalAnswers\.height\}/g, finalAnswers.height)
-        .replace(/\$\{finalAnswers\.currentWeight\}/g, finalAnswers.currentWeight)
-        .replace(/\$\{finalAnswers\.targetWeight\}/g, finalAnswers.targetWeight)
-        .replace(/\$\{finalAnswers\.timeframe\}/g, finalAnswers.timeframe)
-        .replace(/\$\{finalAnswers\.activityLevel\}/g, finalAnswers.activityLevel)
-        .replace(/\$\{finalAnswers\.fastingStart\}/g, finalAnswers.fastingStart)
-        .replace(/\$\{finalAnswers\.fastingEnd\}/g, finalAnswers.fastingEnd)
-        .replace(/\$\{finalAnswers\.diet\}/g, finalAnswers.diet);
+/**
+ * Work out the plan length in days. Priority: CLI flags > config file > saved defaults.
+ * An explicit day count wins over a week count from the same source.
+ */
+function resolvePlanLength(
+    cli: { days?: string; weeks?: string },
+    testConfig: TestConfig,
+    defaults: NonNullable<GlobalConfig['defaults']>
+): number {
+    const sources: Array<{ days?: number | string; weeks?: number | string; label: string }> = [
+        { days: cli.days, weeks: cli.weeks, label: 'command line' },
+        { days: testConfig.planDays, weeks: testConfig.planWeeks, label: 'config file' },
+        { days: defaults.planDays, weeks: defaults.planWeeks, label: 'saved defaults' }
+    ];
+
+    for (const source of sources) {
+        const value = source.days !== undefined ? Number(source.days)
+            : source.weeks !== undefined ? Number(source.weeks) * 7
+                : undefined;
+
+        if (value === undefined) continue;
+
+        if (!Number.isInteger(value) || value < 1 || value > MAX_PLAN_DAYS) {
+            console.error(chalk.red(`❌ Invalid plan length from ${source.label}: days and weeks must be whole numbers giving 1-${MAX_PLAN_DAYS} days`));
+            process.exit(1);
+        }
+        return value;
+    }
+
+    return DEFAULT_PLAN_DAYS;
+}
+
+function parseNetCarbLimit(input: string | number | undefined): number | null {
+    if (input === undefined || String(input).trim() === '') return null;
+    const grams = Number(input);
+    return Number.isFinite(grams) && grams > 0 && grams <= 300 ? grams : null;
+}
+
+/**
+ * Daily net-carb limit for the diet check. Priority: CLI flag > config file > saved defaults;
+ * undefined leaves it to the diet profile (20g keto, 50g low-carb).
+ */
+function resolveNetCarbLimit(
+    cliNetCarbs: string | undefined,
+    testConfig: TestConfig,
+    defaults: NonNullable<GlobalConfig['defaults']>
+): number | undefined {
+    const sources = [
+        { value: cliNetCarbs, label: 'command line' },
+        { value: testConfig.netCarbLimit, label: 'config file' },
+        { value: defaults.netCarbLimit, label: 'saved defaults' }
+    ];
+
+    for (const source of sources) {
+        if (source.value === undefined) continue;
+
+        const grams = parseNetCarbLimit(source.value);
+        if (grams === null) {
+            console.error(chalk.red(`❌ Invalid net-carb limit from ${source.label}: ${source.value} (use grams between 1 and 300)`));
+            process.exit(1);
+        }
+        return grams;
+    }
+
+    return undefined;
+}
+
+/**
+ * Food budget for the cost check. Priority: CLI flag > config file > saved defaults;
+ * undefined means no budget.
+ */
+function resolveBudget(
+    cliBudget: string | undefined,
+    testConfig: TestConfig,
+    defaults: NonNullable<GlobalConfig['defaults']>
+): Budget | undefined {
+    const sources = [
+        { value: cliBudget, label: 'command line' },
+        { value: testConfig.budget, label: 'config file' },
+        { value: defaults.budget, label: 'saved defaults' }
+    ];
+
+    for (const source of sources) {
+        if (source.value === undefined) continue;
+
+        const budget = parseBudget(source.value);
+        if (!budget) {
+            console.error(chalk.red(`❌ Invalid budget from ${source.label}: ${source.value} (use an amount such as 80, 80/week or 12/day)`));
+            process.exit(1);
+        }
+        return budget;
+    }
+
+    return undefined;
+}
+
+// The diet menu: every built-in profile, then the user's own
+const DIET_CHOICES = [
+    ...DIET_PROFILES.map(profile => ({ name: `${profile.name} - ${profile.description}`, value: profile.name })),
+    { name: `${CUSTOM_DIET} - Your own macros and food rules`, value: CUSTOM_DIET }
+];
+
+/**
+ * Ask for the user's own diet profile, starting from the saved one
+ */
+async function askCustomDietProfile(existing?: DietProfile): Promise<DietProfile> {
+    const groupChoices = (exclude: string[] = []) => FOOD_GROUPS
+        .filter(group => !exclude.includes(group.id))
+        .map(group => ({ name: group.label, value: group.id }));
+
+    const answers = await inquirer.prompt([
+        {
+            type: 'input',
+            name: 'name',
+            message: 'Name of your diet:',
+            default: existing?.name || 'My Diet',
+            validate: (input: string) => input.trim() ? true : 'Please enter a name'
+        },
+        {
+            type: 'input',
+            name: 'macroRatios',
+            message: 'Protein/fat/carbs as % of calories, e.g. 30/50/20:',
+            default: existing?.macroRatios ? `${existing.macroRatios.protein}/${existing.macroRatios.fat}/${existing.macroRatios.carbs}` : '25/65/10',
+            validate: (input: string) => parseMacroRatios(input) ? true : 'Please enter three percentages that add up to 100, e.g. 30/50/20'
+        },
+        {
+            type: 'input',
+            name: 'netCarbLimit',
+            message: 'Daily net-carb limit in grams:',
+            default: String(existing?.netCarbLimit ?? 30),
+            validate: (input: string) => parseNetCarbLimit(input) !== null ? true : 'Please enter a number of grams between 1 and 300'
+        },
+        {
+            type: 'checkbox',
+            name: 'bannedGroups',
+            message: 'Foods the diet rules out (space to select):',
+            choices: groupChoices(),
+            default: existing?.bannedGroups || []
+        },
+        {
+            type: 'input',
+            name: 'guidance',
+            message: 'Anything else the AI should know about this diet (blank for nothing):',
+            default: existing?.guidance || ''
+        }
+    ]);
+
+    // Only groups the diet doesn't rule out can be built on
+    const { allowedGroups } = await inquirer.prompt([{
+        type: 'checkbox',
+        name: 'allowedGroups',
+        message: 'Foods to build meals from (space to select):',
+        choices: groupChoices(answers.bannedGroups),
+        default: (existing?.allowedGroups || []).filter(id => !answers.bannedGroups.includes(id))
+    }]);
+
+    return completeCustomProfile({
+        name: answers.name.trim(),
+        description: existing?.description,
+        macroRatios: parseMacroRatios(answers.macroRatios)!,
+        netCarbLimit: parseNetCarbLimit(answers.netCarbLimit)!,
+        allowedGroups,
+        bannedGroups: answers.bannedGroups,
+        guidance: answers.guidance.trim() || undefined
+    });
 }
 
-function loadRecipePatterns(): any {
+/**
+ * The profile behind a diet name: a built-in one, or the custom profile from the global config.
+ * A custom diet that was never defined (or no longer checks out) is asked for and saved.
+ */
+async function resolveDietProfile(diet: string, globalConfig: GlobalConfig): Promise<DietProfile> {
+    if (isCustomDiet(diet)) {
+        if (globalConfig.customDiet) {
+            const profile = completeCustomProfile(globalConfig.customDiet);
+            const problems = validateDietProfile(profile);
+            if (problems.length === 0) return profile;
+            console.warn(chalk.yellow(`⚠️  Your custom diet can't be used (${problems.join('; ')}); please set it up again`));
+        } else {
+            console.log(chalk.cyan('🥗 Define your custom diet (saved for next time):'));
+        }
+
+        const profile = await askCustomDietProfile(globalConfig.customDiet);
+        globalConfig.customDiet = profile;
+        saveGlobalConfig({ customDiet: profile });
+        return profile;
+    }
+
+    const profile = findDietProfile(diet);
+    if (!profile) {
+        console.error(chalk.red(`❌ Unknown diet: ${diet}`));
+        console.log(chalk.yellow(`Available diets: ${[...DIET_PROFILES.map(p => p.name), CUSTOM_DIET].join(', ')}`));
+        process.exit(1);
+    }
+    return profile;
+}
+
+/**
+ * Cuisine theme for the plan. Priority: CLI flag > config file > saved defaults; "none" turns
+ * a saved theme off for one run. Returns a theme name, "rotate", or undefined for no theme.
+ */
+function resolveCuisine(
+    cliCuisine: string | undefined,
+    testConfig: TestConfig,
+    defaults: NonNullable<GlobalConfig['defaults']>,
+    patterns: RecipePatterns | null
+): string | undefined {
+    const input = cliCuisine || testConfig.cuisine || defaults.cuisine;
+    if (!input || input.trim().toLowerCase() === 'none') return undefined;
+
+    if (!patterns) {
+        console.warn(chalk.yellow(`⚠️  Cuisine themes come from keto-recipe-patterns.json; planning without the "${input}" theme`));
+        return undefined;
+    }
+
+    const theme = findCuisineTheme(input, patterns);
+    if (!theme) {
+        console.error(chalk.red(`❌ Unknown cuisine theme: ${input}`));
+        console.log(chalk.yellow(`Available themes: ${[...listCuisineThemes(patterns), ROTATE_CUISINES, 'none'].join(', ')}`));
+        process.exit(1);
+    }
+    return theme;
+}
+
+/**
+ * Meal slots for every normal eating day, from the meal structure the user chose (CLI flag >
+ * config file > saved defaults, merged into the profile) or else the protocol's own meal count.
+ * Undefined leaves the number of meals to the model.
+ */
+function resolveMealSlots(mealStructure: string | undefined, protocol: FastingProtocol): MealSlot[] | undefined {
+    if (!mealStructure) return getDefaultMealStructure(protocol.mealsPerDay);
+
+    const slots = parseMealStructure(mealStructure);
+    if (!slots) {
+        console.error(chalk.red(`❌ Invalid meal structure: ${mealStructure}`));
+        console.log(chalk.yellow('Use e.g. "3 meals", "2 meals + 1 snack", "dinner only" or "breakfast, dinner, 2 snacks" (at most 3 meals and 3 snacks)'));
+        process.exit(1);
+    }
+    return slots;
+}
+
+/**
+ * Seed for the recipe planner. Priority: CLI flag > config file > a new random seed
+ */
+function resolveSeed(cliSeed: string | undefined, testConfig: TestConfig): number {
+    const input = cliSeed ?? testConfig.seed;
+    if (input === undefined) return generateSeed();
+
+    const seed = Number(input);
+    if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+        console.error(chalk.red(`❌ Invalid seed: ${input} (use a whole number between 0 and ${MAX_SEED})`));
+        process.exit(1);
+    }
+    return seed;
+}
+
+/**
+ * Resolve the plan's first day. Priority: CLI flag > config file > the next occurrence
+ * of the first planned weekday (Sunday), counting today.
+ */
+function resolveStartDate(cliStartDate: string | undefined, testConfig: TestConfig): Date {
+    const input = cliStartDate || testConfig.startDate;
+
+    if (input) {
+        const startDate = parseIsoDate(input);
+        if (!startDate) {
+            console.error(chalk.red(`❌ Invalid start date: ${input}`));
+            console.log(chalk.yellow('Use the YYYY-MM-DD format, e.g. --start-date 2026-03-01'));
+            process.exit(1);
+        }
+        return startDate;
+    }
+
+    return nextOccurrence(0);
+}
+
+/**
+ * First and last dated day of a plan, when the plan carries dates
+ */
+function getPlanDateRange(mealPlan: MealPlan): { start: string; end: string } | undefined {
+    const datedDays = mealPlan.days.filter(d => d.date);
+    if (datedDays.length === 0) return undefined;
+    return { start: datedDays[0].date!, end: datedDays[datedDays.length - 1].date! };
+}
+
+/**
+ * Tell the model exactly which day labels to return and, for later chunks,
+ * which dishes are already planned so variety carries across the whole plan
+ */
+function describePlanScope(chunk: ScheduledDay[], previousDays: MealPlan['days']): string {
+    const labels = getMealDays(chunk).map(d => d.day);
+    let scope = `Return exactly ${labels.length} day${labels.length === 1 ? '' : 's'} in "days", using these exact day labels: ${labels.join(', ')}.`;
+
+    const previousMeals = previousDays.flatMap(d => d.meals.map(m => m.name));
+    if (previousMeals.length > 0) {
+        // Only the most recent dishes matter for avoiding back-to-back repeats
+        const recentMeals = previousMeals.slice(-30);
+        scope += ` For variety across the whole plan, do not repeat any of these dishes already planned for other days, and rotate proteins and cooking methods away from them: ${recentMeals.join('; ')}.`;
+    }
+
+    return scope;
+}
+
+/**
+ * Validate the fasting start/end for an extended-fast protocol, re-prompting until they are usable
+ */
+async function promptForValidFastingWindow(
+    protocol: FastingProtocol,
+    fastingStart: string,
+    fastingEnd: string
+): Promise<{ fastingStart: string; fastingEnd: string; window: FastingWindow }> {
+    let result = resolveFastingWindow(protocol, fastingStart, fastingEnd);
+
+    while (!result.window) {
+        console.log(chalk.red(`❌ Invalid fasting window: ${result.error}`));
+
+        const corrected = await inquirer.prompt([{
+            type: 'input',
+            name: 'fastingStart',
+            message: 'Fasting start?',
+            default: fastingStart,
+            validate: validateWeekdayTimeInput
+        }]);
+        fastingStart = corrected.fastingStart;
+
+        // Prompted separately so the end can be checked against the chosen start
+        const { correctedEnd } = await inquirer.prompt([{
+            type: 'input',
+            name: 'correctedEnd',
+            message: 'Fasting end?',
+            default: fastingEnd,
+            validate: (input: string) => {
+                const check = resolveFastingWindow(protocol, fastingStart, input);
+                return check.window ? true : check.error!;
+            }
+        }]);
+        fastingEnd = correctedEnd;
+        result = resolveFastingWindow(protocol, fastingStart, fastingEnd);
+    }
+
+    return { fastingStart, fastingEnd, window: result.window };
+}
+
+function loadRecipePatterns(): RecipePatterns | null {
     try {
         // Try multiple possible locations for the patterns file
         const possiblePaths = [
@@ -258,96 +1117,380 @@ function loadRecipePatterns(): any {
     }
 }
 
-function getRandomFromArray(arr: string[]): string {
-    return arr[Math.floor(Math.random() * arr.length)];
+/**
+ * Reorder the generated days to match the protocol schedule, inserting fasting days
+ * and overriding whatever day types the model reported
+ */
+function alignMealPlanToSchedule(mealPlan: MealPlan, schedule: ScheduledDay[]): void {
+    mealPlan.days = schedule.map(scheduled => {
+        if (scheduled.type === 'fasting') {
+            return { day: scheduled.day, date: scheduled.date, dayType: 'fasting' as const, meals: [] };
+        }
+
+        const dayData = findScheduledDay(mealPlan.days, scheduled);
+        return { ...(dayData || { meals: [] }), day: scheduled.day, date: scheduled.date, dayType: scheduled.type };
+    });
 }
 
-function generateDynamicVarietyPrompt(patterns: any, finalAnswers: Config): string {
-    if (!patterns) return '';
+/**
+ * Replace a meal's LLM macros with a USDA calculation from its ingredients.
+ * Returns false when the meal keeps its LLM estimate (no ingredients, or the lookup failed).
+ */
+async function applyUsdaNutrition(
+    meal: Meal,
+    nutritionCalculator: NutritionCalculator,
+    warn: (message: string) => void = message => console.warn(message)
+): Promise<boolean> {
+    if (!meal.ingredients || meal.ingredients.length === 0) {
+        // No ingredients provided, keep LLM macros
+        meal.nutritionSource = 'llm';
+        meal.nutritionConfidence = 'low';
+        return false;
+    }
+
+    try {
+        const mealNutrition = await nutritionCalculator.calculateMealNutrition(meal.ingredients);
 
-    // Sample from different categories to ensure variety
-    const proteinCategories = Object.keys(patterns.proteins);
-    const cookingMethods = Object.keys(patterns.cooking_methods);
-    const seasonings = Object.keys(patterns.seasonings);
+        // Check if LLM claimed USDA verification but provided inaccurate data
+        const llmClaimedUSDA = meal.nutritionSource === 'usda';
+        const hasLLMMacros = meal.macros && (
+            meal.macros.calories || meal.macros.fat || meal.macros.protein || meal.macros.carbs
+        );
 
-    // Build variety requirements dynamically
-    const proteinReq = `Use different protein categories each day (${proteinCategories.join(', ')})`;
-    const methodReq = `Vary cooking methods (${cookingMethods.join(', ')})`;
-    const seasoningReq = `Change seasoning profiles daily (${seasonings.join(', ')})`;
+        let nutritionSource: 'usda' | 'llm' | 'mixed' = 'usda';
+        let nutritionConfidence = mealNutrition.confidence;
+
+        if (llmClaimedUSDA && hasLLMMacros && meal.macros) {
+            // LLM claimed USDA, check if its macros are reasonably close to our calculation
+            const llmCalories = meal.macros.calories || 0;
+            const ourCalories = mealNutrition.total.calories;
+            const percentDiff = Math.abs(ourCalories - llmCalories) / Math.max(llmCalories, ourCalories);
+
+            if (percentDiff > 0.2) { // More than 20% difference
+                // LLM's USDA claim was incorrect
+                nutritionSource = 'usda'; // Still usda, but corrected
+                nutritionConfidence = 'low'; // Low confidence in LLM's calculation
+                if (process.env.DEBUG_NUTRITION) {
+                    console.log(`⚠️  LLM claimed USDA (${llmCalories} cal) but calculation shows ${Math.round(ourCalories)} cal (${Math.round(percentDiff * 100)}% difference)`);
+                }
+            } else {
+                // LLM's calculation was reasonably accurate
+                nutritionConfidence = 'medium'; // Trust but verify
+            }
+        }
 
-    return `Create a highly varied 6-day keto meal plan using diverse recipe patterns to ensure no repeated ingredients or cooking methods. Skip Saturday for 36-hour fast (${finalAnswers.fastingStart} to ${finalAnswers.fastingEnd}).
+        // Update meal with accurate nutrition data
+        meal.macros = {
+            calories: Math.round(mealNutrition.total.calories),
+            fat: Math.round(mealNutrition.total.fat * 10) / 10, // Round to 1 decimal
+            protein: Math.round(mealNutrition.total.protein * 10) / 10,
+            carbs: Math.round(mealNutrition.total.carbs * 10) / 10,
+        };
 
-CRITICAL VARIETY REQUIREMENTS:
-1) ${proteinReq}
-2) ${methodReq}
-3) ${seasoningReq}
-4) Rotate through different vegetable families and meal types
+        // Set nutrition source and confidence
+        meal.nutritionSource = nutritionSource;
+        meal.nutritionConfidence = nutritionConfidence;
+        return true;
+    } catch (error) {
+        warn(chalk.yellow(`⚠️  Failed to calculate nutrition for "${meal.name}": ${error instanceof Error ? error.message : 'Unknown error'}`));
+        // Keep LLM-provided macros as fallback
+        meal.nutritionSource = 'llm';
+        meal.nutritionConfidence = 'low';
+        return false;
+    }
+}
 
-For each day, combine one protein from a different category, one unique cooking method, fresh vegetables from un-used families, and a distinct seasoning approach. Create original keto dishes that feel creative and varied.
+/**
+ * Run the nutrition pass for a set of meals: USDA when available, otherwise mark the LLM estimates.
+ * Returns true if any meal got USDA-calculated nutrition.
+ */
+async function refreshNutrition(
+    meals: Meal[],
+    nutritionCalculator: NutritionCalculator | undefined,
+    warn?: (message: string) => void
+): Promise<boolean> {
+    let calculated = false;
+    for (const meal of meals) {
+        if (nutritionCalculator) {
+            calculated = await applyUsdaNutrition(meal, nutritionCalculator, warn) || calculated;
+        } else {
+            meal.nutritionSource = 'llm';
+            meal.nutritionConfidence = 'low';
+        }
+    }
+    return calculated;
+}
+
+/**
+ * Stream a plan chunk, handing each day to onDay as soon as the model moves on to the next one
+ */
+async function streamMealPlan(model: ProviderLanguageModel, prompt: string, onDay: (day: MealPlanDay) => void): Promise<MealPlan> {
+    let streamError: unknown;
+    const result = streamObject({
+        model,
+        prompt,
+        schema: mealPlanSchema,
+        onError: ({ error }) => { streamError = error; }
+    });
+
+    let finished = 0;
+    for await (const partial of result.partialObjectStream) {
+        const days = partial.days || [];
+        // A day is complete once a later day has started
+        for (; finished < days.length - 1; finished++) {
+            const day = mealPlanDaySchema.safeParse(days[finished]);
+            if (day.success) onDay(day.data);
+        }
+    }
 
-Tailor for: ${finalAnswers.sex}, age ${finalAnswers.age}, height ${finalAnswers.height}, current weight ${finalAnswers.currentWeight}, target weight ${finalAnswers.targetWeight} in ${finalAnswers.timeframe}, activity level: ${finalAnswers.activityLevel}.
+    // Network and auth errors surface here rather than as a schema failure
+    if (streamError && !NoObjectGeneratedError.isInstance(streamError)) {
+        throw streamError;
+    }
 
-Format: 1. Sunday: [Creative Dish Name] - Protein: [category] - Method: [technique] - Signature flavors: [profile] - Macros: [...], 2. Monday: [continue with different combinations]`;
+    const plan = await result.object;
+    plan.days.slice(finished).forEach(onDay);
+    return plan;
 }
 
-function formatMealPlanForTable(mealPlan: MealPlan): Array<{ day: string; meal: string }> {
-    const targetDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+/**
+ * Explain a schema failure to the model so the retry can avoid it
+ */
+function describeSchemaFailure(error: NoObjectGeneratedError): string {
+    const reason = error.cause instanceof Error ? error.cause.message : error.message;
+    return `Your previous answer could not be used because it did not match the required JSON structure (${reason.slice(0, 500)}). Return a single JSON object with a "days" array where every day has a "day" label and a "meals" array, and every meal has a "name", "ingredients" and "instructions".`;
+}
 
-    return targetDays.map(targetDay => {
-        const dayData = mealPlan.days.find(d => d.day.toLowerCase() === targetDay.toLowerCase());
+/**
+ * Generate one chunk of the plan, then re-ask the model for only the parts that came back
+ * broken (invalid JSON, missing days, empty days, recipes without ingredients or instructions,
+ * excluded foods). Every extra model call counts against maxRepairs.
+ */
+async function generateChunkWithRepair(options: {
+    chunk: ScheduledDay[];
+    previousDays: MealPlan['days'];
+    buildPrompt: (chunk: ScheduledDay[]) => string;
+    createModel: () => ProviderLanguageModel;
+    maxRepairs: number;
+    exclusions?: ExclusionRule[];
+    dietRules?: DietRules;
+    mealSlots?: MealSlot[];
+    onDayComplete?: (day: MealPlanDay) => void;
+    log?: (message: string) => void;
+}): Promise<{ plan: MealPlan; repairs: RepairRecord[] }> {
+    const { chunk, previousDays, buildPrompt, createModel, maxRepairs, exclusions = [], mealSlots = [] } = options;
+    const log = options.log || (message => console.log(message));
+    const repairs: RepairRecord[] = [];
+    let attemptsLeft = maxRepairs;
+
+    // Complete days are handed out while streaming; once handed out they are kept even if a retry follows
+    const streamedDays: MealPlanDay[] = [];
+    const handleStreamedDay = (day: MealPlanDay) => {
+        const scheduled = getMealDays(chunk).find(s => findScheduledDay([day], s));
+        if (!scheduled || streamedDays.some(d => d.day === scheduled.day)) return;
+        if (findPlanIssues([day], [scheduled], exclusions, mealSlots).length > 0) return; // Held back for repair
+
+        const labelled = { ...day, day: scheduled.day };
+        arrangeMealSlots([labelled], [scheduled], mealSlots);
+        streamedDays.push(labelled);
+        options.onDayComplete?.(labelled);
+    };
 
-        if (!dayData || dayData.meals.length === 0) {
-            return { day: targetDay, meal: `${targetDay} meal (keto, home-cooked)` };
+    let chunkPlan: MealPlan | undefined;
+    let schemaFailure = '';
+    while (!chunkPlan) {
+        const prompt = [buildPrompt(chunk), describePlanScope(chunk, previousDays), schemaFailure].filter(Boolean).join('\n\n');
+        try {
+            chunkPlan = await streamMealPlan(createModel(), prompt, handleStreamedDay);
+        } catch (error) {
+            if (!NoObjectGeneratedError.isInstance(error)) {
+                throw error;
+            }
+            if (attemptsLeft === 0) {
+                console.error(chalk.red('❌ The AI response did not match the meal plan format and the repair budget is used up.'));
+                console.error(chalk.red(`Error: ${error.cause instanceof Error ? error.cause.message : error.message}`));
+                console.log(chalk.yellow('Try again, raise --max-repairs, or pick a model with better structured output support.'));
+                process.exit(1);
+            }
+            attemptsLeft--;
+            schemaFailure = describeSchemaFailure(error);
+            log(chalk.yellow('⚠️  The AI response did not match the meal plan format, asking again...'));
         }
+    }
 
-        if (dayData.meals.length === 1) {
-            const meal = dayData.meals[0];
-            let mealText = meal.name;
+    const streamedSchedule = chunk.filter(s => streamedDays.some(d => d.day === s.day));
+    chunkPlan.days = mergeRegeneratedDays(chunkPlan.days, streamedDays, streamedSchedule);
 
-            // Add prep time if available
-            if (meal.prepTime) {
-                mealText += ` (${meal.prepTime})`;
+    if (schemaFailure) {
+        const range = chunk.length > 1 ? `${chunk[0].day} - ${chunk[chunk.length - 1].day}` : chunk[0].day;
+        repairs.push({ kind: 'invalid-response', day: range, repaired: true });
+    }
+
+    const initialIssues = findPlanIssues(chunkPlan.days, chunk, exclusions, mealSlots);
+    let issues = initialIssues;
+
+    while (issues.length > 0 && attemptsLeft > 0) {
+        attemptsLeft--;
+        log(chalk.yellow(`🔧 Repairing ${issues.length} problem${issues.length === 1 ? '' : 's'} in the AI response...`));
+
+        try {
+            const daysToRegenerate = getDaysNeedingRegeneration(issues, chunk);
+            if (daysToRegenerate.length > 0) {
+                const prompt = [
+                    buildPrompt(daysToRegenerate),
+                    describePlanScope(daysToRegenerate, [...previousDays, ...chunkPlan.days]),
+                    describeRejectedMeals(issues)
+                ].filter(Boolean).join('\n\n');
+                const { object: regenerated } = await generateObject({ model: createModel(), prompt, schema: mealPlanSchema });
+                chunkPlan.days = mergeRegeneratedDays(chunkPlan.days, regenerated.days, daysToRegenerate);
             }
 
-            // Add macros if available
-            if (meal.macros && (meal.macros.calories || meal.macros.fat || meal.macros.protein || meal.macros.carbs)) {
-                const macros = [];
-                if (meal.macros.calories) macros.push(`${meal.macros.calories}cal`);
-                if (meal.macros.fat) macros.push(`${meal.macros.fat}g fat`);
-                if (meal.macros.protein) macros.push(`${meal.macros.protein}g protein`);
-                if (meal.macros.carbs) macros.push(`${meal.macros.carbs}g carbs`);
+            const mealsNeedingDetails = getMealsNeedingDetails(issues);
+            if (mealsNeedingDetails.length > 0) {
+                const { object: details } = await generateObject({
+                    model: createModel(),
+                    prompt: describeMealDetailRequest(mealsNeedingDetails, [
+                        options.dietRules ? describeDietRulesForPrompt(options.dietRules) : '',
+                        describeExclusionsForPrompt(exclusions)
+                    ]),
+                    schema: mealDetailsSchema
+                });
+                mergeMealDetails(chunkPlan.days, details.meals, chunk);
+            }
+        } catch (error) {
+            // A malformed repair answer just uses up this attempt; anything else (network, auth) is fatal
+            if (!NoObjectGeneratedError.isInstance(error)) {
+                throw error;
+            }
+        }
 
-                if (macros.length > 0) {
-                    let macroText = ` | ${macros.join(', ')}`;
+        issues = findPlanIssues(chunkPlan.days, chunk, exclusions, mealSlots);
+    }
 
-                    // Add nutrition source indicator
-                    if (meal.nutritionSource === 'usda') {
-                        macroText += ' 🥗'; // USDA verified
-                    } else if (meal.nutritionSource === 'llm') {
-                        macroText += ' 🤖'; // LLM estimate
-                    }
+    // Never hand out a meal that breaks an exclusion, even if the day ends up short
+    dropExcludedMeals(chunkPlan.days, issues, chunk);
+    arrangeMealSlots(chunkPlan.days, chunk, mealSlots);
 
-                    // Add confidence indicator
-                    if (meal.nutritionConfidence === 'low') {
-                        macroText += '†'; // Corrected inaccurate claim
-                    } else if (meal.nutritionConfidence === 'medium') {
-                        macroText += '*'; // Medium confidence
-                    }
+    repairs.push(...buildRepairRecords(initialIssues, issues));
+    return { plan: chunkPlan, repairs };
+}
 
-                    mealText += macroText;
-                }
-            }
+/**
+ * Table rows for the plan: one row per meal slot with that meal's own macros.
+ * The day label goes on the first row of each day only.
+ */
+function formatMealPlanForTable(mealPlan: MealPlan): Array<{ day: string; date?: string; meal: string }> {
+    return mealPlan.days.flatMap(dayData => {
+        const targetDay = dayData.day;
+        const date = dayData.date;
+
+        if (dayData.dayType === 'fasting') {
+            return [{ day: targetDay, date, meal: chalk.gray('🚫 Fasting day - water, black coffee, tea and electrolytes only') }];
+        }
 
-            return { day: targetDay, meal: mealText };
-        } else {
-            // Multiple meals - show count and names
-            const mealNames = dayData.meals.map(m => m.name).join(', ');
-            return { day: targetDay, meal: `${dayData.meals.length} meals: ${mealNames}` };
+        if (dayData.meals.length === 0) {
+            // Left empty by an unrepaired response or a meal removed for an excluded food
+            return [{ day: targetDay, date, meal: chalk.yellow('No meal planned - regenerate this day from the detailed view') }];
         }
+
+        const dayPrefix = dayData.dayType === 'reduced' ? '⚖️  Reduced-calorie day: ' : '';
+
+        return dayData.meals.map((meal, index) => index === 0
+            ? { day: targetDay, date, meal: dayPrefix + formatMealForTable(meal) }
+            : { day: '', meal: formatMealForTable(meal) });
     });
 }
 
-async function showDetailedMealPlan(mealPlan: MealPlan): Promise<void> {
+function formatMealForTable(meal: Meal): string {
+    let mealText = meal.type ? `${meal.type.charAt(0).toUpperCase() + meal.type.slice(1)}: ${meal.name}` : meal.name;
+
+    if (meal.leftoverFrom) {
+        mealText += ` (${describeLeftoverSource(meal.leftoverFrom)})`;
+    } else if (meal.batch) {
+        mealText += ` (cooked x${meal.batch.servings})`;
+    }
+
+    // Add prep time if available
+    if (meal.prepTime) {
+        mealText += ` (${meal.prepTime})`;
+    }
+
+    // Add macros if available
+    if (meal.macros && (meal.macros.calories || meal.macros.fat || meal.macros.protein || meal.macros.carbs)) {
+        const macros = [];
+        if (meal.macros.calories) macros.push(`${meal.macros.calories}cal`);
+        if (meal.macros.fat) macros.push(`${meal.macros.fat}g fat`);
+        if (meal.macros.protein) macros.push(`${meal.macros.protein}g protein`);
+        if (meal.macros.carbs) macros.push(`${meal.macros.carbs}g carbs`);
+
+        if (macros.length > 0) {
+            let macroText = ` | ${macros.join(', ')}`;
+
+            // Add nutrition source indicator
+            if (meal.nutritionSource === 'usda') {
+                macroText += ' 🥗'; // USDA verified
+            } else if (meal.nutritionSource === 'llm') {
+                macroText += ' 🤖'; // LLM estimate
+            }
+
+            // Add confidence indicator
+            if (meal.nutritionConfidence === 'low') {
+                macroText += '†'; // Corrected inaccurate claim
+            } else if (meal.nutritionConfidence === 'medium') {
+                macroText += '*'; // Medium confidence
+            }
+
+            mealText += macroText;
+        }
+    }
+
+    if (meal.cost) {
+        mealText += ` | ${formatMoney(meal.cost.amount, meal.cost.currency)}`;
+    }
+
+    return mealText;
+}
+
+function printNutritionTargets(targets: NutritionTargets): void {
+    console.log(chalk.green('🎯 Your daily targets (Mifflin-St Jeor):'));
+    console.log(chalk.gray(`   BMR ${targets.bmr} kcal | TDEE ${targets.tdee} kcal (activity x${targets.activityMultiplier})`));
+    console.log(chalk.gray(`   Eating days: ${targets.calories} kcal | ${targets.protein}g protein | ${targets.fat}g fat | ${targets.carbs}g net carbs`));
+    if (targets.reducedDay) {
+        console.log(chalk.gray(`   Reduced days: ${targets.reducedDay.calories} kcal | ${targets.reducedDay.protein}g protein | ${targets.reducedDay.fat}g fat | ${targets.reducedDay.carbs}g net carbs`));
+    }
+    const deficit = targets.dailyDeficit >= 0 ? `${targets.dailyDeficit} kcal/day deficit` : `${-targets.dailyDeficit} kcal/day surplus`;
+    console.log(chalk.gray(`   Average ${deficit} including fasting days: about ${formatWeeklyChange(targets)}`));
+    targets.warnings.forEach(warning => console.log(chalk.yellow(`   ⚠️  ${warning}`)));
+}
+
+/**
+ * What the detailed view needs to call the model again for a single meal or day
+ */
+interface PlanEditingContext {
+    schedule: ScheduledDay[];
+    buildPrompt: (chunk: ScheduledDay[]) => string;
+    createModel: () => ProviderLanguageModel;
+    maxRepairs: number;
+    exclusions: ExclusionRule[];
+    dietRules?: DietRules;
+    mealSlots?: MealSlot[];
+    nutritionCalculator?: NutritionCalculator;
+    patterns?: RecipePatterns;
+    pricing?: PlanPricing;
+}
+
+/**
+ * The price table and budget behind the cost estimates
+ */
+interface PlanPricing {
+    table: PriceTable;
+    parser: IngredientParser;
+    budget?: Budget;
+    // Main-user portions cooked of each meal; more than 1 for a household
+    portions?: number;
+}
+
+async function showDetailedMealPlan(mealPlan: MealPlan, editing?: PlanEditingContext): Promise<void> {
     console.log(chalk.cyan('\n🔍 Want to see detailed recipes and instructions?'));
 
     const { viewDetails } = await inquirer.prompt([{
@@ -367,11 +1510,12 @@ async function showDetailedMealPlan(mealPlan: MealPlan): Promise<void> {
     while (continueViewing) {
         // Create menu choices for available days
         const dayChoices = mealPlan.days.map(day => ({
-            name: `${day.day} (${day.meals.length} meals)`,
+            name: `${day.day}${day.date ? ` ${day.date}` : ''} ` + (day.dayType === 'fasting' ? '(fasting day)' : `(${day.meals.length} meals)`),
             value: day.day
         }));
 
         dayChoices.push(
+            { name: '🔪 Prep day plan', value: 'prep' },
             { name: '📄 Export full meal plan', value: 'export' },
             { name: '❌ Exit detailed view', value: 'exit' }
         );
@@ -394,21 +1538,274 @@ async function showDetailedMealPlan(mealPlan: MealPlan): Promise<void> {
             continue;
         }
 
-        // Show detailed day view
-        await showDayDetails(mealPlan, selectedAction);
-    }
+        if (selectedAction === 'prep') {
+            printPrepSchedule(mealPlan);
+            continue;
+        }
+
+        // Show detailed day view
+        await showDayDetails(mealPlan, selectedAction, editing);
+    }
+}
+
+async function showDayDetails(mealPlan: MealPlan, selectedDay: string, editing?: PlanEditingContext): Promise<void> {
+    const dayData = mealPlan.days.find(d => d.day.toLowerCase() === selectedDay.toLowerCase());
+
+    if (!dayData) {
+        console.log(chalk.red('Day not found in meal plan.'));
+        return;
+    }
+
+    printDayDetails(dayData, mealPlan.targets, mealPlan.household);
+
+    if (!editing || dayData.dayType === 'fasting') {
+        return;
+    }
+
+    while (true) {
+        const { dayAction } = await inquirer.prompt([{
+            type: 'list',
+            name: 'dayAction',
+            message: 'Change anything on this day?',
+            choices: [
+                { name: '🔄 Regenerate a meal', value: 'meal', disabled: dayData.meals.length === 0 },
+                { name: '💡 Show 3 alternatives for a meal', value: 'alternatives', disabled: dayData.meals.length === 0 },
+                { name: '📅 Regenerate this whole day', value: 'day' },
+                ...(getDayTarget(mealPlan.targets, dayData.dayType) ? [{ name: '⚖️  Rebalance to hit targets', value: 'rebalance' }] : []),
+                { name: '⬅️  Back to days', value: 'back' }
+            ]
+        }]);
+
+        if (dayAction === 'back') {
+            return;
+        }
+
+        try {
+            const changed = dayAction === 'day' ? await regenerateDay(mealPlan, dayData, editing)
+                : dayAction === 'rebalance' ? await rebalanceDay(mealPlan, dayData, editing)
+                    : await replaceMeal(mealPlan, dayData, await chooseMeal(dayData), dayAction === 'alternatives' ? 3 : 1, editing);
+
+            if (changed) {
+                // Edited meals are checked against the same diet rules as the generated plan
+                if (mealPlan.dietCheck && editing?.dietRules) {
+                    checkPlanDiet(mealPlan, editing.dietRules);
+                }
+                if (mealPlan.variety && editing?.patterns) {
+                    checkPlanVariety(mealPlan, editing.patterns);
+                }
+                if (mealPlan.costs && editing?.pricing) {
+                    priceMealPlan(mealPlan, editing.pricing);
+                }
+                printDayDetails(dayData, mealPlan.targets, mealPlan.household);
+            }
+        } catch (error) {
+            console.error(chalk.red(`❌ Could not regenerate: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+    }
+}
+
+async function chooseMeal(dayData: MealPlanDay): Promise<number> {
+    if (dayData.meals.length === 1) {
+        return 0;
+    }
+
+    const { mealIndex } = await inquirer.prompt([{
+        type: 'list',
+        name: 'mealIndex',
+        message: 'Which meal?',
+        choices: dayData.meals.map((meal, index) => ({
+            name: `${meal.type ? `${meal.type.charAt(0).toUpperCase() + meal.type.slice(1)}: ` : ''}${meal.name}`,
+            value: index
+        }))
+    }]);
+    return mealIndex;
+}
+
+/**
+ * Days near the target give the model the variety context for a swap;
+ * a two-month plan is too long to send in full
+ */
+function getNeighbouringDays(mealPlan: MealPlan, dayData: MealPlanDay): MealPlanDay[] {
+    const index = mealPlan.days.indexOf(dayData);
+    return mealPlan.days.filter((d, i) => d !== dayData && Math.abs(i - index) <= 7);
+}
+
+function describeMealReplacementRequest(
+    mealPlan: MealPlan,
+    dayData: MealPlanDay,
+    meal: Meal,
+    count: number,
+    planPrompt: string,
+    guidance?: string
+): string {
+    const sameDay = dayData.meals.filter(m => m !== meal).map(m => m.name);
+    const otherDays = getNeighbouringDays(mealPlan, dayData)
+        .filter(d => d.meals.length > 0)
+        .map(d => `${d.day}: ${d.meals.map(m => m.name).join(', ')}`);
+
+    const what = count === 1 ? 'one replacement dish' : `${count} different replacement dishes`;
+    let request = `${planPrompt}
+
+Instead of a whole plan, suggest ${what} for "${meal.name}"${meal.type ? ` (${meal.type})` : ''} on ${dayData.day}. Return them in "meals".`;
+
+    if (sameDay.length > 0) {
+        request += ` The other meals that day are: ${sameDay.join('; ')}.`;
+    }
+    if (otherDays.length > 0) {
+        request += ` The surrounding days already have: ${otherDays.join(' | ')}. Do not repeat any of these dishes, and use a different main protein and cooking method from the original and from the same day.`;
+    }
+
+    if (meal.dietIssues && meal.dietIssues.length > 0) {
+        request += ` The original fails the diet check (${meal.dietIssues.join('; ')}); the replacement must not.`;
+    }
+
+    if (guidance) {
+        request += ` ${guidance}`;
+    }
+
+    return `${request} Each dish must have a name, type, prep time, ingredients with quantities, step-by-step instructions and estimated macros (calories, fat, protein, carbs), and must differ from "${meal.name}".`;
+}
+
+/**
+ * Replace one meal with a freshly generated dish. With count > 1 the user picks from the alternatives.
+ * Returns true when the plan was changed.
+ */
+async function replaceMeal(
+    mealPlan: MealPlan,
+    dayData: MealPlanDay,
+    mealIndex: number,
+    count: number,
+    editing: PlanEditingContext,
+    guidance?: string
+): Promise<boolean> {
+    const meal = dayData.meals[mealIndex];
+    const scheduled = editing.schedule.find(d => d.day === dayData.day);
+    const planPrompt = editing.buildPrompt(scheduled ? [scheduled] : editing.schedule);
+
+    console.log(chalk.blue(count === 1 ? `🔄 Finding a replacement for ${meal.name}...` : `💡 Finding ${count} alternatives to ${meal.name}...`));
+
+    const { object } = await generateObject({
+        model: editing.createModel(),
+        prompt: describeMealReplacementRequest(mealPlan, dayData, meal, count, planPrompt, guidance),
+        schema: mealReplacementSchema
+    });
+
+    // Drop anything unusable, including the model handing back the original dish
+    const candidates = object.meals
+        .filter(m => m.name.trim() && m.name.toLowerCase() !== meal.name.toLowerCase())
+        .filter(m => findPlanIssues([{ day: dayData.day, meals: [m] }], scheduled ? [scheduled] : [], editing.exclusions).length === 0)
+        .slice(0, count);
+
+    if (candidates.length === 0) {
+        console.log(chalk.yellow('⚠️  The AI did not return a usable replacement. The meal was left unchanged.'));
+        return false;
+    }
+
+    let replacement = candidates[0];
+    if (count > 1) {
+        const { choice } = await inquirer.prompt([{
+            type: 'list',
+            name: 'choice',
+            message: `Replace ${meal.name} with:`,
+            choices: [
+                ...candidates.map((candidate, index) => ({
+                    name: `${candidate.name}${candidate.macros?.calories ? chalk.gray(` (${candidate.macros.calories} cal, ${candidate.macros.carbs ?? '?'}g carbs)`) : ''}`,
+                    value: index
+                })),
+                { name: `Keep ${meal.name}`, value: -1 }
+            ]
+        }]);
+
+        if (choice === -1) {
+            return false;
+        }
+        replacement = candidates[choice];
+    }
+
+    // With a meal structure the replacement takes over the original's slot
+    replacement.type = (editing.mealSlots && meal.type) || replacement.type || meal.type;
+    await refreshNutrition([replacement], editing.nutritionCalculator);
+    dayData.meals[mealIndex] = replacement;
+    tagMealCuisines(mealPlan);
+    syncLeftovers(mealPlan.days);
+
+    console.log(chalk.green(`✅ ${meal.name} replaced with ${replacement.name}`));
+    return true;
+}
+
+/**
+ * Generate the day again from scratch, with the surrounding days as variety context
+ */
+async function regenerateDay(mealPlan: MealPlan, dayData: MealPlanDay, editing: PlanEditingContext, guidance?: string): Promise<boolean> {
+    const scheduled = editing.schedule.find(d => d.day === dayData.day);
+    if (!scheduled) {
+        console.log(chalk.red('Day not found in the plan schedule.'));
+        return false;
+    }
+
+    console.log(chalk.blue(`📅 Regenerating ${dayData.day}...`));
+
+    const previousMeals = dayData.meals.map(m => m.name);
+    const { plan, repairs } = await generateChunkWithRepair({
+        chunk: [scheduled],
+        // The current version goes in too so the model doesn't hand the same dishes back
+        previousDays: [...getNeighbouringDays(mealPlan, dayData), dayData],
+        buildPrompt: chunk => [editing.buildPrompt(chunk), guidance].filter(Boolean).join('\n\n'),
+        createModel: editing.createModel,
+        maxRepairs: editing.maxRepairs,
+        exclusions: editing.exclusions,
+        dietRules: editing.dietRules,
+        mealSlots: editing.mealSlots
+    });
+
+    alignMealPlanToSchedule(plan, [scheduled]);
+    const newMeals = plan.days[0]?.meals || [];
+    if (newMeals.length === 0 || repairs.some(r => !r.repaired)) {
+        console.log(chalk.yellow(`⚠️  The AI did not return a complete day. ${dayData.day} was left unchanged.`));
+        return false;
+    }
+
+    await refreshNutrition(newMeals, editing.nutritionCalculator);
+    dayData.meals = newMeals;
+    tagMealCuisines(mealPlan);
+    syncLeftovers(mealPlan.days);
+
+    console.log(chalk.green(`✅ ${dayData.day} regenerated (was: ${previousMeals.join(', ')})`));
+    return true;
+}
+
+function formatPortionMacros(macros: { calories?: number; fat?: number; protein?: number; carbs?: number }): string {
+    return `${macros.calories ?? '?'} cal | ${macros.fat ?? '?'}g fat | ${macros.protein ?? '?'}g protein | ${macros.carbs ?? '?'}g carbs`;
 }
 
-async function showDayDetails(mealPlan: MealPlan, selectedDay: string): Promise<void> {
-    const dayData = mealPlan.days.find(d => d.day.toLowerCase() === selectedDay.toLowerCase());
+/**
+ * Each person's share of a meal or day; the plan's macros are the main user's single portion
+ */
+function describePortions(
+    household: NonNullable<MealPlan['household']>,
+    macros: { calories?: number; fat?: number; protein?: number; carbs?: number },
+    showTargets: boolean
+): string[] {
+    return household.map(person => {
+        const target = showTargets ? ` (target ${person.calories} cal, ${person.protein}g protein)` : '';
+        return `${person.name}, ${person.portion} portion: ${formatPortionMacros(scalePortionMacros(macros, person.portion))}${target}`;
+    });
+}
 
-    if (!dayData) {
-        console.log(chalk.red('Day not found in meal plan.'));
+function printDayDetails(dayData: MealPlanDay, targets?: MealPlan['targets'], household?: MealPlan['household']): void {
+    // Costs cover every portion cooked
+    const sharedBy = household && household.length > 1 ? ' for the household' : '';
+    console.log(chalk.green(`\n📅 ${dayData.day} Meal Plan${dayData.date ? ` (${dayData.date})` : ''}`));
+    console.log(chalk.gray('─'.repeat(50)));
+
+    if (dayData.dayType === 'fasting') {
+        console.log(chalk.gray('\n🚫 Fasting day - no meals planned. Stay hydrated with water, black coffee, tea and electrolytes.\n'));
         return;
     }
 
-    console.log(chalk.green(`\n📅 ${dayData.day} Meal Plan`));
-    console.log(chalk.gray('─'.repeat(50)));
+    if (dayData.dayType === 'reduced') {
+        console.log(chalk.yellow('\n⚖️  Reduced-calorie fast day - keep intake to the small meal below.'));
+    }
 
     dayData.meals.forEach((meal, index) => {
         console.log(chalk.cyan(`\n${index + 1}. ${meal.name}`));
@@ -417,6 +1814,17 @@ async function showDayDetails(mealPlan: MealPlan, selectedDay: string): Promise<
             console.log(chalk.gray(`   Type: ${meal.type.charAt(0).toUpperCase() + meal.type.slice(1)}`));
         }
 
+        if (meal.cuisine) {
+            console.log(chalk.gray(`   Cuisine: ${formatCuisineTheme(meal.cuisine)}`));
+        }
+
+        if (meal.leftoverFrom) {
+            const source = describeLeftoverSource(meal.leftoverFrom);
+            console.log(chalk.green(`   🍱 ${source.charAt(0).toUpperCase() + source.slice(1)} - nothing to cook or buy`));
+        } else if (meal.batch) {
+            console.log(chalk.green(`   🍱 Batch: ${describeBatch(meal.batch)} (quantities below are for one portion)`));
+        }
+
         if (meal.prepTime) {
             console.log(chalk.gray(`   Prep Time: ${meal.prepTime}`));
         }
@@ -456,6 +1864,18 @@ async function showDayDetails(mealPlan: MealPlan, selectedDay: string): Promise<
             }
         }
 
+        if (household && household.length > 1 && meal.macros) {
+            console.log(chalk.gray('   Per person:'));
+            describePortions(household, meal.macros, false).forEach(line => console.log(chalk.gray(`     ${line}`)));
+        }
+
+        if (meal.cost) {
+            const unpriced = meal.cost.unpriced.length > 0 ? chalk.gray(` (no price for: ${meal.cost.unpriced.join('; ')})`) : '';
+            console.log(chalk.yellow(`   Cost: ${formatMoney(meal.cost.amount, meal.cost.currency)}${sharedBy}`) + unpriced);
+        }
+
+        meal.dietIssues?.forEach(issue => console.log(chalk.red(`   ❌ ${issue}`)));
+
         // Show ingredients if available
         if (meal.ingredients && meal.ingredients.length > 0) {
             console.log(chalk.blue('\n   Ingredients:'));
@@ -481,22 +1901,186 @@ async function showDayDetails(mealPlan: MealPlan, selectedDay: string): Promise<
         console.log(chalk.green('📊 Daily Totals:'));
         console.log(chalk.gray(`   Calories: ${dailyTotals.calories} | Fat: ${dailyTotals.fat}g | Protein: ${dailyTotals.protein}g | Carbs: ${dailyTotals.carbs}g`));
     }
+
+
+    const dayTarget = getDayTarget(targets, dayData.dayType);
+    if (dayTarget) {
+        console.log(chalk.gray(`   Target: ${dayTarget.calories} cal | Fat: ${dayTarget.fat}g | Protein: ${dayTarget.protein}g | Net carbs: ≤${dayTarget.carbs}g`));
+
+        const compliance = checkDayCompliance(dayData.meals, dayTarget);
+        if (compliance.status === 'on-target') {
+            console.log(chalk.green('   🎯 On target'));
+        } else if (compliance.status !== 'no-data') {
+            console.log(chalk.yellow(`   ${formatComplianceFlag(compliance)}`));
+        }
+    }
+
+    if (household && household.length > 1 && dailyTotals.hasData) {
+        console.log(chalk.green('👪 Per person:'));
+        describePortions(household, dailyTotals, dayData.dayType !== 'reduced').forEach(line => console.log(chalk.gray(`   ${line}`)));
+    }
+
+    const currency = dayData.meals.find(meal => meal.cost)?.cost?.currency;
+    if (currency) {
+        console.log(chalk.green(`💰 Day cost: ${formatMoney(getDayCost(dayData), currency)}${sharedBy}`));
+    }
+
+    dayData.dietIssues?.forEach(issue => console.log(chalk.red(`   ❌ ${issue}`)));
+}
+
+/**
+ * One-line summary of how a day misses its targets, for the table and detail view
+ */
+function formatComplianceFlag(compliance: DayCompliance): string {
+    const icon = compliance.status === 'over' ? '⬆️ ' : '⬇️ ';
+    return `${icon} Off target: ${compliance.deviations.map(describeDeviation).join(', ')}`;
+}
+
+function describeDietCheck(rules: DietRules): string {
+    return `${rules.diet} check (≤${rules.dayNetCarbLimit}g net carbs a day, ≤${rules.mealNetCarbLimit}g a meal)`;
+}
+
+/**
+ * Run the diet check over every eating day and record the result on the plan
+ */
+function checkPlanDiet(mealPlan: MealPlan, rules: DietRules): NonNullable<MealPlan['dietCheck']> {
+    const failedDays = mealPlan.days
+        .filter(day => day.dayType !== 'fasting' && day.meals.length > 0)
+        .filter(day => !applyDietCheck(day, rules).passed)
+        .map(day => day.day);
+
+    mealPlan.dietCheck = {
+        diet: rules.diet,
+        dayNetCarbLimit: rules.dayNetCarbLimit,
+        mealNetCarbLimit: rules.mealNetCarbLimit,
+        passed: failedDays.length === 0,
+        failedDays
+    };
+    return mealPlan.dietCheck;
+}
+
+/**
+ * Audit the plan's variety and store the score and repeats on the plan
+ */
+function checkPlanVariety(mealPlan: MealPlan, patterns: RecipePatterns): VarietyAudit {
+    // Leftovers repeat yesterday's dinner on purpose
+    const cookedDays = mealPlan.days.map(day => ({ ...day, meals: day.meals.filter(meal => !meal.leftoverFrom) }));
+    const audit = auditPlanVariety(cookedDays, patterns);
+    mealPlan.variety = { score: audit.score, repeats: audit.repeats };
+    return audit;
 }
 
-function calculateDailyTotals(meals: any[]): { hasData: boolean; calories: number; fat: number; protein: number; carbs: number } {
-    const totals = { hasData: false, calories: 0, fat: 0, protein: 0, carbs: 0 };
+/**
+ * Tag every meal with its day's cuisine theme, including meals replaced after generation
+ */
+function tagMealCuisines(mealPlan: MealPlan): void {
+    if (!mealPlan.cuisine) return;
 
+    for (const day of mealPlan.days) {
+        const theme = mealPlan.cuisine.days.find(d => d.day === day.day)?.theme;
+        day.meals.forEach(meal => {
+            meal.cuisine = theme;
+        });
+    }
+}
+
+/**
+ * Price meals from their ingredients; meals without an ingredient list have no cost to show.
+ * A batch is priced in full on the day it is cooked, so its leftovers cost nothing more.
+ */
+function priceMeals(meals: Meal[], pricing: PlanPricing): void {
     meals.forEach(meal => {
-        if (meal.macros) {
-            totals.hasData = true;
-            totals.calories += meal.macros.calories || 0;
-            totals.fat += meal.macros.fat || 0;
-            totals.protein += meal.macros.protein || 0;
-            totals.carbs += meal.macros.carbs || 0;
-        }
+        meal.cost = meal.ingredients && meal.ingredients.length > 0 && !meal.leftoverFrom
+            ? priceMeal(meal.ingredients, pricing.table, pricing.parser, (pricing.portions || 1) * getBatchServings(meal))
+            : undefined;
     });
+}
+
+/**
+ * Price every meal and store the plan's total and weekly costs, checked against the budget
+ */
+function priceMealPlan(mealPlan: MealPlan, pricing: PlanPricing): NonNullable<MealPlan['costs']> {
+    mealPlan.days.forEach(day => priceMeals(day.meals, pricing));
+    mealPlan.costs = { ...summarizePlanCost(mealPlan.days, pricing.table.currency, pricing.budget), budget: pricing.budget };
+    return mealPlan.costs;
+}
+
+function describeWeekRange(week: { days: string[] }): string {
+    return week.days.length > 1 ? `${week.days[0]} - ${week.days[week.days.length - 1]}` : week.days[0];
+}
+
+function printPlanCost(costs: NonNullable<MealPlan['costs']>): void {
+    const money = (amount: number) => formatMoney(amount, costs.currency);
+    const dayCount = costs.weeks.reduce((sum, week) => sum + week.days.length, 0);
+    // From the unrounded total, so a 7-day plan's week matches its total
+    const perWeek = dayCount > 0 ? costs.total / dayCount * 7 : 0;
+    console.log(chalk.green(`💰 Estimated cost: ${money(costs.total)} for ${dayCount} day${dayCount === 1 ? '' : 's'} - ${money(costs.averagePerDay)} a day, about ${money(perWeek)} a week`));
+
+    if (costs.weeks.length > 1 || costs.budget) {
+        costs.weeks.forEach((week, index) => {
+            const limit = week.limit !== undefined ? ` of ${money(week.limit)} budget${week.overBudget ? ' - over budget' : ''}` : '';
+            const line = `   Week ${index + 1} (${describeWeekRange(week)}): ${money(week.total)}${limit}`;
+            console.log(week.overBudget ? chalk.yellow(line) : chalk.gray(line));
+        });
+    }
+    if (costs.unpricedIngredients > 0) {
+        console.log(chalk.gray(`   ${costs.unpricedIngredients} ingredient${costs.unpricedIngredients === 1 ? ' has' : 's have'} no price and ${costs.unpricedIngredients === 1 ? 'is' : 'are'} not counted (add prices with "fast-plan prices set")`));
+    }
+}
+
+/**
+ * Bring an off-target day back to its targets, either by scaling every portion
+ * or by asking the model for an adjusted version of the meal that moves the totals most
+ */
+async function rebalanceDay(mealPlan: MealPlan, dayData: MealPlanDay, editing: PlanEditingContext): Promise<boolean> {
+    const target = getDayTarget(mealPlan.targets, dayData.dayType);
+    if (!target) return false;
+
+    const compliance = checkDayCompliance(dayData.meals, target);
+    if (compliance.status === 'on-target' || compliance.status === 'no-data') {
+        console.log(chalk.green(`🎯 ${dayData.day} is already on target.`));
+        return false;
+    }
+
+    const scaleFactor = suggestScaleFactor(compliance);
+    const mealIndex = pickMealToAdjust(dayData.meals, compliance);
+    const { method } = await inquirer.prompt([{
+        type: 'list',
+        name: 'method',
+        message: `${dayData.day}: ${compliance.deviations.map(describeDeviation).join(', ')}. How should it be fixed?`,
+        choices: [
+            ...(scaleFactor ? [{ name: `📏 Scale all portions x${scaleFactor}`, value: 'scale' }] : []),
+            { name: `🔄 Ask the AI for an adjusted ${dayData.meals[mealIndex].name}`, value: 'adjust' },
+            { name: 'Leave as is', value: 'skip' }
+        ]
+    }]);
 
-    return totals;
+    if (method === 'skip') {
+        return false;
+    }
+
+    if (method === 'scale' && scaleFactor) {
+        // Leftovers are the other half of an earlier batch and keep its size
+        const cooked = dayData.meals.filter(meal => !meal.leftoverFrom);
+        cooked.forEach(meal => scaleMeal(meal, scaleFactor));
+        // Scaled ingredients get a fresh USDA calculation; without USDA the scaled estimates stand
+        if (editing.nutritionCalculator) {
+            await refreshNutrition(cooked, editing.nutritionCalculator);
+        }
+        syncLeftovers(mealPlan.days);
+        console.log(chalk.green(`✅ Portions on ${dayData.day} scaled x${scaleFactor}`));
+    } else {
+        const changed = await replaceMeal(mealPlan, dayData, mealIndex, 1, editing, describeAdjustment(compliance, dayData.meals[mealIndex]));
+        if (!changed) return false;
+    }
+
+    const updated = checkDayCompliance(dayData.meals, target);
+    if (updated.status === 'on-target') {
+        console.log(chalk.green(`🎯 ${dayData.day} is now on target.`));
+    } else {
+        console.log(chalk.yellow(`   ${dayData.day} is still off target: ${updated.deviations.map(describeDeviation).join(', ')}`));
+    }
+    return true;
 }
 
 async function exportMealPlan(mealPlan: MealPlan): Promise<void> {
@@ -508,6 +2092,7 @@ async function exportMealPlan(mealPlan: MealPlan): Promise<void> {
             { name: '📄 Detailed Text Format', value: 'text' },
             { name: '📋 JSON Format', value: 'json' },
             { name: '🛒 Shopping List', value: 'shopping' },
+            { name: '🔪 Meal-Prep Schedule', value: 'prep' },
             { name: '❌ Cancel', value: 'cancel' }
         ]
     }]);
@@ -529,9 +2114,18 @@ async function exportMealPlan(mealPlan: MealPlan): Promise<void> {
             baseFilename = `meal-plan-${timestamp}.json`;
             content = JSON.stringify(mealPlan, null, 2);
             break;
-        case 'shopping':
+        case 'shopping': {
             baseFilename = `shopping-list-${timestamp}.txt`;
-            content = generateShoppingList(mealPlan);
+            const pantry = readPantry();
+            content = generateShoppingList(mealPlan, pantry);
+            if (pantry.length > 0) {
+                console.log(chalk.gray(`🥫 Checked against ${pantry.length} pantry item${pantry.length === 1 ? '' : 's'} - covered items are listed separately`));
+            }
+            break;
+        }
+        case 'prep':
+            baseFilename = `meal-prep-${timestamp}.txt`;
+            content = generatePrepExport(mealPlan);
             break;
     }
 
@@ -555,22 +2149,101 @@ async function exportMealPlan(mealPlan: MealPlan): Promise<void> {
 }
 
 function generateTextExport(mealPlan: MealPlan): string {
-    let output = `KETO MEAL PLAN\n`;
+    let output = `${(mealPlan.dietCheck?.diet || 'Keto').toUpperCase()} MEAL PLAN\n`;
+    const dateRange = getPlanDateRange(mealPlan);
+    if (dateRange) {
+        output += `Plan Dates: ${dateRange.start} to ${dateRange.end}\n`;
+    }
     if (mealPlan.fastingPeriod) {
-        output += `Fasting Period: ${mealPlan.fastingPeriod.start} - ${mealPlan.fastingPeriod.end}\n`;
-        output += `Skipped Day: ${mealPlan.fastingPeriod.skippedDay}\n`;
+        const protocol = findFastingProtocol(mealPlan.fastingPeriod.protocol);
+        if (protocol) output += `Fasting Protocol: ${protocol.name}\n`;
+        output += `Fasting Period: ${mealPlan.fastingPeriod.start} - ${mealPlan.fastingPeriod.end}`;
+        output += mealPlan.fastingPeriod.durationHours ? ` (${mealPlan.fastingPeriod.durationHours} hours)\n` : '\n';
+        if (mealPlan.fastingPeriod.startDate && mealPlan.fastingPeriod.endDate) {
+            output += `Fast Dates: ${mealPlan.fastingPeriod.startDate.replace('T', ' ')} to ${mealPlan.fastingPeriod.endDate.replace('T', ' ')}\n`;
+        }
+        if (mealPlan.fastingPeriod.skippedDay) output += `Skipped Day: ${mealPlan.fastingPeriod.skippedDay}\n`;
+        if (mealPlan.fastingPeriod.fastingDays && mealPlan.fastingPeriod.fastingDays.length > 0) {
+            output += `Fasting Days: ${mealPlan.fastingPeriod.fastingDays.join(', ')}\n`;
+        }
+        if (mealPlan.fastingPeriod.reducedDays && mealPlan.fastingPeriod.reducedDays.length > 0) {
+            output += `Reduced-Calorie Days: ${mealPlan.fastingPeriod.reducedDays.join(', ')}\n`;
+        }
+        if (mealPlan.fastingPeriod.eatingWindow) {
+            output += `Eating Window: ${mealPlan.fastingPeriod.eatingWindow.start}-${mealPlan.fastingPeriod.eatingWindow.end}\n`;
+        }
+    }
+    if (mealPlan.targets) {
+        const t = mealPlan.targets;
+        output += `Daily Targets: ${t.calories} kcal, ${t.protein}g protein, ${t.fat}g fat, ${t.carbs}g net carbs (BMR ${t.bmr}, TDEE ${t.tdee})\n`;
+        if (t.reducedDay) {
+            output += `Reduced-Day Targets: ${t.reducedDay.calories} kcal, ${t.reducedDay.protein}g protein, ${t.reducedDay.fat}g fat, ${t.reducedDay.carbs}g net carbs\n`;
+        }
+    }
+    if (mealPlan.household) {
+        output += `Household: ${mealPlan.household.map(person => `${person.name} (${person.portion} portion, ${person.calories} kcal)`).join(', ')}\n`;
+    }
+    if (mealPlan.exclusions && mealPlan.exclusions.length > 0) {
+        output += `Excluded Foods: ${mealPlan.exclusions.join(', ')}\n`;
+    }
+    if (mealPlan.mealSlots) {
+        output += `Meals Per Day: ${describeMealStructure(mealPlan.mealSlots)}\n`;
+    }
+    if (mealPlan.variety) {
+        output += `Variety Score: ${mealPlan.variety.score}/100`;
+        output += mealPlan.variety.repeats.length > 0 ? ` (repeats ${summarizeRepeats(mealPlan.variety.repeats).join('; ')})\n` : '\n';
+    }
+    if (mealPlan.cuisine) {
+        output += mealPlan.cuisine.selection === ROTATE_CUISINES
+            ? `Cuisine: rotating daily (${[...new Set(mealPlan.cuisine.days.map(d => d.theme))].map(formatCuisineTheme).join(', ')})\n`
+            : `Cuisine: ${formatCuisineTheme(mealPlan.cuisine.selection)}\n`;
+    }
+    if (mealPlan.recipePlan) {
+        output += `Recipe Seed: ${mealPlan.recipePlan.seed} (fast-plan generate --seed ${mealPlan.recipePlan.seed} repeats the recipe plan)\n`;
+    }
+    if (mealPlan.dietCheck) {
+        const check = mealPlan.dietCheck;
+        output += `Diet Check: ${check.diet}, max ${check.dayNetCarbLimit}g net carbs/day and ${check.mealNetCarbLimit}g/meal - `;
+        output += check.passed ? 'PASSED\n' : `FAILED on ${check.failedDays.join(', ')}\n`;
+    }
+    if (mealPlan.costs) {
+        const costs = mealPlan.costs;
+        output += `Estimated Cost: ${formatMoney(costs.total, costs.currency)} (${formatMoney(costs.averagePerDay, costs.currency)} a day on average)\n`;
+        if (costs.budget) {
+            const overWeeks = costs.weeks.filter(week => week.overBudget).map(describeWeekRange);
+            output += `Budget: ${describeBudget(costs.budget, costs.currency)} - `;
+            output += overWeeks.length === 0 ? 'WITHIN BUDGET\n' : `OVER BUDGET for ${overWeeks.join(', ')}\n`;
+        }
     }
     output += `Generated: ${new Date().toLocaleDateString()}\n\n`;
     output += '='.repeat(50) + '\n\n';
 
     mealPlan.days.forEach(day => {
-        output += `${day.day.toUpperCase()}\n`;
-        output += '-'.repeat(day.day.length) + '\n\n';
+        const heading = day.date ? `${day.day.toUpperCase()} - ${day.date}` : day.day.toUpperCase();
+        output += `${heading}\n`;
+        output += '-'.repeat(heading.length) + '\n\n';
+
+        if (day.dayType === 'fasting') {
+            output += 'Fasting day - no meals (water, black coffee, tea, electrolytes)\n\n\n';
+            return;
+        }
+
+        if (day.dayType === 'reduced') {
+            output += 'Reduced-calorie fast day\n\n';
+        }
+
+        const assignment = mealPlan.recipePlan?.days.find(a => a.day === day.day);
+        if (assignment) {
+            output += `Recipe Plan: ${describeAssignment(assignment)}\n\n`;
+        }
 
         day.meals.forEach((meal, index) => {
             output += `${index + 1}. ${meal.name}\n`;
 
             if (meal.type) output += `   Type: ${meal.type}\n`;
+            if (meal.cuisine) output += `   Cuisine: ${formatCuisineTheme(meal.cuisine)}\n`;
+            if (meal.leftoverFrom) output += `   Leftovers: from ${meal.leftoverFrom.day} ${meal.leftoverFrom.type}, nothing to cook or buy\n`;
+            if (meal.batch) output += `   Batch: ${describeBatch(meal.batch)} (quantities are for one portion)\n`;
             if (meal.prepTime) output += `   Prep Time: ${meal.prepTime}\n`;
 
             if (meal.macros) {
@@ -597,6 +2270,21 @@ function generateTextExport(mealPlan: MealPlan): string {
                 }
             }
 
+            if (mealPlan.household && meal.macros) {
+                describePortions(mealPlan.household, meal.macros, false).forEach(line => {
+                    output += `   ${line}\n`;
+                });
+            }
+
+            if (meal.cost) {
+                output += `   Cost: ${formatMoney(meal.cost.amount, meal.cost.currency)}`;
+                output += meal.cost.unpriced.length > 0 ? ` (no price for: ${meal.cost.unpriced.join('; ')})\n` : '\n';
+            }
+
+            meal.dietIssues?.forEach(issue => {
+                output += `   DIET CHECK FAILED: ${issue}\n`;
+            });
+
             if (meal.ingredients && meal.ingredients.length > 0) {
                 output += '\n   Ingredients:\n';
                 meal.ingredients.forEach(ingredient => {
@@ -614,40 +2302,135 @@ function generateTextExport(mealPlan: MealPlan): string {
             output += '\n';
         });
 
+        if (mealPlan.costs && day.meals.length > 0) {
+            output += `Day Cost: ${formatMoney(getDayCost(day), mealPlan.costs.currency)}\n`;
+        }
+
+        day.dietIssues?.forEach(issue => {
+            output += `DIET CHECK FAILED: ${issue}\n`;
+        });
+
         output += '\n';
     });
 
     return output;
 }
 
-function generateShoppingList(mealPlan: MealPlan): string {
-    const ingredients = new Set<string>();
+const NO_PREP_STEPS = 'No make-ahead steps (marinating, chopping, roasting vegetables, boiling eggs, sauces) were found in the instructions.';
+const PREP_STORAGE_NOTE = 'Keep prepped food covered in the fridge and use it within 3-4 days; marinating meat is best cooked within 2 days.';
 
-    mealPlan.days.forEach(day => {
-        day.meals.forEach(meal => {
-            if (meal.ingredients) {
-                meal.ingredients.forEach(ingredient => {
-                    // Clean up ingredient text (remove quantities for grouping similar items)
-                    const cleanIngredient = ingredient.toLowerCase().trim();
-                    ingredients.add(cleanIngredient);
-                });
-            }
+function describePrepSession(session: PrepSession): string {
+    const stepCount = session.groups.reduce((sum, group) => sum + group.steps.length, 0);
+    return `${stepCount} make-ahead step${stepCount === 1 ? '' : 's'} from ${session.mealCount} meal${session.mealCount === 1 ? '' : 's'} | ${formatPrepDuration(session.activeMinutes)} active, ${formatPrepDuration(session.totalMinutes)} in total`;
+}
+
+/**
+ * The prep-day plan in the detailed view: one timed session per week, grouped by equipment
+ */
+function printPrepSchedule(mealPlan: MealPlan): void {
+    const sessions = buildPrepSchedule(mealPlan.days);
+    if (sessions.length === 0) {
+        console.log(chalk.yellow(`\n⚠️  ${NO_PREP_STEPS}\n`));
+        return;
+    }
+
+    sessions.forEach(session => {
+        console.log(chalk.green(`\n🔪 Prep day for ${describeWeekRange(session)}`));
+        console.log(chalk.gray('─'.repeat(50)));
+        console.log(chalk.yellow(`   ${describePrepSession(session)}`));
+
+        session.groups.forEach(group => {
+            console.log(chalk.blue(`\n   ${group.label}`));
+            group.steps.forEach(step => {
+                console.log(`   ${chalk.cyan(formatPrepClock(step.start).padStart(5))}  ${step.instruction}`);
+                console.log(chalk.gray(`          ${describePrepStepMeal(step)} - ${describePrepStepTiming(step)}`));
+            });
+        });
+    });
+    console.log(chalk.gray(`\n   ${PREP_STORAGE_NOTE}\n`));
+}
+
+function generatePrepExport(mealPlan: MealPlan): string {
+    let output = `MEAL-PREP SCHEDULE\n`;
+    const dateRange = getPlanDateRange(mealPlan);
+    if (dateRange) {
+        output += `For meal plan: ${dateRange.start} to ${dateRange.end}\n`;
+    }
+    if (mealPlan.household) {
+        output += `For ${mealPlan.household.length} people (${getTotalPortions(mealPlan.household)} portions of each meal)\n`;
+    }
+    output += `Generated: ${new Date().toLocaleDateString()}\n\n`;
+    output += '='.repeat(50) + '\n\n';
+
+    const sessions = buildPrepSchedule(mealPlan.days);
+    if (sessions.length === 0) {
+        return output + `${NO_PREP_STEPS}\n`;
+    }
+
+    sessions.forEach(session => {
+        const heading = `PREP DAY FOR ${describeWeekRange(session).toUpperCase()}`;
+        output += `${heading}\n`;
+        output += '-'.repeat(heading.length) + '\n';
+        output += `${describePrepSession(session)}\n\n`;
+
+        session.groups.forEach(group => {
+            output += `${group.label}\n`;
+            group.steps.forEach(step => {
+                output += `${formatPrepClock(step.start).padStart(5)}  ☐ ${step.instruction}\n`;
+                output += `        ${describePrepStepMeal(step)} - ${describePrepStepTiming(step)}\n`;
+            });
+            output += '\n';
         });
+        output += '\n';
     });
 
+    output += `Note: Times are from the start of the session; hands-off jobs run while you carry on with the next steps. ${PREP_STORAGE_NOTE}\n`;
+    return output;
+}
+
+function generateShoppingList(mealPlan: MealPlan, pantry: PantryItem[] = []): string {
+    // Batches are bought once at their full size; their leftovers need nothing more
+    const ingredients = mealPlan.days.flatMap(day => getShoppingIngredients(day.meals));
+    const portions = mealPlan.household ? getTotalPortions(mealPlan.household) : 1;
+
     let output = `SHOPPING LIST\n`;
-    if (mealPlan.fastingPeriod) {
+    const dateRange = getPlanDateRange(mealPlan);
+    if (dateRange) {
+        output += `For meal plan: ${dateRange.start} to ${dateRange.end}\n`;
+    } else if (mealPlan.fastingPeriod) {
         output += `For meal plan: ${mealPlan.fastingPeriod.start} - ${mealPlan.fastingPeriod.end}\n`;
     }
+    if (mealPlan.household) {
+        output += `For ${mealPlan.household.length} people: ${mealPlan.household.map(person => person.name).join(', ')} (${portions} portions of each meal)\n`;
+    }
     output += `Generated: ${new Date().toLocaleDateString()}\n\n`;
     output += '='.repeat(30) + '\n\n';
 
-    const sortedIngredients = Array.from(ingredients).sort();
-    sortedIngredients.forEach(ingredient => {
+    // The same item across meals is added up, so each line is the amount to buy
+    const sortedIngredients = totalShoppingQuantities(ingredients, portions).sort();
+    const { needed, covered } = splitShoppingList(sortedIngredients, pantry);
+
+    if (covered.length > 0) {
+        output += `STILL TO BUY (${needed.length})\n`;
+    }
+    needed.forEach(ingredient => {
         output += `☐ ${ingredient}\n`;
     });
 
-    output += '\n\nNote: Check quantities in the detailed meal plan and adjust as needed.\n';
+    if (covered.length > 0) {
+        output += `\nALREADY IN YOUR PANTRY (${covered.length})\n`;
+        covered.forEach(({ ingredient, item }) => {
+            output += `☑ ${ingredient}${item.quantity ? ` (you have ${item.quantity})` : ''}\n`;
+        });
+    }
+
+    output += '\n\nNote: Amounts are added up across the plan where the ingredients match; check them against the detailed meal plan.\n';
+    if (mealPlan.days.some(day => day.meals.some(meal => meal.batch))) {
+        output += 'Batch-cooked dinners are counted at their full size; their leftover lunches need nothing extra.\n';
+    }
+    if (covered.length > 0) {
+        output += 'Pantry items are matched by name only - check you have enough of each.\n';
+    }
 
     return output;
 }
@@ -657,7 +2440,7 @@ const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '../package.
 
 program
     .name('fast-plan')
-    .description('AI-powered keto meal planner with 36-hour fasting support')
+    .description('AI-powered keto, carnivore, paleo and low-carb meal planner with intermittent fasting support')
     .version(packageJson.version);
 
 // Setup command for initial configuration
@@ -670,20 +2453,95 @@ program
 
         const globalConfig = loadGlobalConfig();
 
-        // API Key setup
-        const { apiKey } = await inquirer.prompt([{
-            type: 'password',
-            name: 'apiKey',
-            message: 'Enter your OpenRouter API Key:',
-            default: globalConfig.apiKey,
-            validate: (input: string) => {
-                if (!input || input.trim().length === 0) {
-                    return 'API key is required. Get one from https://openrouter.ai/keys';
-                }
-                return true;
-            }
+        // LLM provider selection
+        const { provider } = await inquirer.prompt([{
+            type: 'list',
+            name: 'provider',
+            message: 'Which AI provider do you want to use?',
+            choices: LLM_PROVIDERS.map(p => ({
+                name: `${p.name} - ${p.description}`,
+                value: p.id
+            })),
+            default: globalConfig.provider || DEFAULT_LLM_PROVIDER
         }]);
 
+        let apiKey = globalConfig.apiKey;
+        let defaultModel = globalConfig.defaultModel;
+        let openaiCompatible = globalConfig.openaiCompatible;
+
+        if (provider === 'openrouter') {
+            // API Key setup
+            const apiKeyAnswer = await inquirer.prompt([{
+                type: 'password',
+                name: 'apiKey',
+                message: 'Enter your OpenRouter API Key:',
+                default: globalConfig.apiKey,
+                validate: (input: string) => {
+                    if (!input || input.trim().length === 0) {
+                        return 'API key is required. Get one from https://openrouter.ai/keys';
+                    }
+                    return true;
+                }
+            }]);
+            apiKey = apiKeyAnswer.apiKey;
+        } else {
+            // Self-hosted OpenAI-compatible endpoint setup
+            const local = await inquirer.prompt([
+                {
+                    type: 'input',
+                    name: 'baseUrl',
+                    message: 'Base URL of your OpenAI-compatible API (e.g. http://localhost:11434/v1):',
+                    default: globalConfig.openaiCompatible?.baseUrl || 'http://localhost:11434/v1',
+                    validate: (input: string) => {
+                        if (!/^https?:\/\/\S+$/.test(input.trim())) {
+                            return 'Please enter a full http:// or https:// URL';
+                        }
+                        return true;
+                    }
+                },
+                {
+                    type: 'input',
+                    name: 'defaultModel',
+                    message: 'Model name as the server knows it (e.g. llama3.1:8b):',
+                    default: globalConfig.openaiCompatible?.defaultModel,
+                    validate: (input: string) => {
+                        if (!input || /\s/.test(input.trim())) {
+                            return 'Please enter the model name without spaces';
+                        }
+                        return true;
+                    }
+                },
+                {
+                    type: 'password',
+                    name: 'apiKey',
+                    message: 'API key sent as a Bearer token (leave empty if none):',
+                    default: globalConfig.openaiCompatible?.apiKey
+                },
+                {
+                    type: 'input',
+                    name: 'authHeader',
+                    message: 'Custom auth header as "Header-Name: value" (leave empty if none):',
+                    default: globalConfig.openaiCompatible?.authHeader,
+                    validate: (input: string) => {
+                        if (!input) return true;
+                        try {
+                            parseAuthHeader(input);
+                            return true;
+                        } catch (error) {
+                            return error instanceof Error ? error.message : 'Invalid header';
+                        }
+                    }
+                }
+            ]);
+
+            openaiCompatible = {
+                baseUrl: local.baseUrl.trim(),
+                defaultModel: local.defaultModel.trim(),
+                apiKey: local.apiKey || undefined,
+                authHeader: local.authHeader || undefined
+            };
+        }
+
         // USDA API Key setup
         const { setupUSDA } = await inquirer.prompt([{
             type: 'confirm',
@@ -710,46 +2568,49 @@ program
             usdaApiKey = usdaKey;
         }
 
-        // Model selection
-        const { defaultModel } = await inquirer.prompt([{
-            type: 'list',
-            name: 'defaultModel',
-            message: 'Choose your default AI model:',
-            choices: OPENROUTER_MODELS.map(model => ({
-                name: `${model.name} - ${model.description}`,
-                value: model.name
-            })),
-            default: globalConfig.defaultModel || 'x-ai/grok-4-fast'
-        }]);
-
-        // App attribution setup
-        const { setupAttribution } = await inquirer.prompt([{
-            type: 'confirm',
-            name: 'setupAttribution',
-            message: 'Set up app attribution for OpenRouter analytics? (helps track usage)',
-            default: true
-        }]);
-
         let appUrl = globalConfig.appUrl;
         let appTitle = globalConfig.appTitle;
 
-        if (setupAttribution) {
-            const attribution = await inquirer.prompt([
-                {
-                    type: 'input',
-                    name: 'appUrl',
-                    message: 'App URL (for analytics):',
-                    default: globalConfig.appUrl || 'https://github.com/your-username/ai-fasting-planner'
-                },
-                {
-                    type: 'input',
-                    name: 'appTitle',
-                    message: 'App Title:',
-                    default: globalConfig.appTitle || 'AI Fasting Planner'
-                }
-            ]);
-            appUrl = attribution.appUrl;
-            appTitle = attribution.appTitle;
+        if (provider === 'openrouter') {
+            // Model selection
+            const modelAnswer = await inquirer.prompt([{
+                type: 'list',
+                name: 'defaultModel',
+                message: 'Choose your default AI model:',
+                choices: OPENROUTER_MODELS.map(model => ({
+                    name: `${model.name} - ${model.description}`,
+                    value: model.name
+                })),
+                default: globalConfig.defaultModel || DEFAULT_OPENROUTER_MODEL
+            }]);
+            defaultModel = modelAnswer.defaultModel;
+
+            // App attribution setup
+            const { setupAttribution } = await inquirer.prompt([{
+                type: 'confirm',
+                name: 'setupAttribution',
+                message: 'Set up app attribution for OpenRouter analytics? (helps track usage)',
+                default: true
+            }]);
+
+            if (setupAttribution) {
+                const attribution = await inquirer.prompt([
+                    {
+                        type: 'input',
+                        name: 'appUrl',
+                        message: 'App URL (for analytics):',
+                        default: globalConfig.appUrl || 'https://github.com/your-username/ai-fasting-planner'
+                    },
+                    {
+                        type: 'input',
+                        name: 'appTitle',
+                        message: 'App Title:',
+                        default: globalConfig.appTitle || 'AI Fasting Planner'
+                    }
+                ]);
+                appUrl = attribution.appUrl;
+                appTitle = attribution.appTitle;
+            }
         }
 
         // Default preferences setup
@@ -761,29 +2622,124 @@ program
         }]);
 
         let defaults = globalConfig.defaults || {};
+        let customDiet = globalConfig.customDiet;
 
         if (setupDefaults) {
             console.log(chalk.cyan('\n📋 Setting up your default preferences:'));
+            const cuisineThemes = listCuisineThemes(loadRecipePatterns() || { proteins: {}, vegetables: {}, cooking_methods: {}, seasonings: {} });
 
             const defaultPrefs = await inquirer.prompt([
+                {
+                    type: 'list',
+                    name: 'fastingProtocol',
+                    message: 'Default fasting protocol:',
+                    choices: FASTING_PROTOCOLS.map(protocol => ({
+                        name: `${protocol.name} - ${protocol.description}`,
+                        value: protocol.id
+                    })),
+                    default: defaults.fastingProtocol || DEFAULT_FASTING_PROTOCOL
+                },
                 {
                     type: 'input',
                     name: 'fastingStart',
                     message: 'Default fasting start:',
-                    default: defaults.fastingStart || 'Friday 8pm'
+                    default: defaults.fastingStart || 'Friday 8pm',
+                    when: (prefs: Partial<Config>) => findFastingProtocol(prefs.fastingProtocol)?.usesExtendedFast,
+                    validate: validateWeekdayTimeInput
+                },
+                {
+                    type: 'input',
+                    name: 'fastingEnd',
+                    message: 'Default fasting end:',
+                    default: defaults.fastingEnd || 'Sunday 8am',
+                    when: (prefs: Partial<Config>) => findFastingProtocol(prefs.fastingProtocol)?.usesExtendedFast,
+                    validate: validateWeekdayTimeInput
+                },
+                {
+                    type: 'number',
+                    name: 'planDays',
+                    message: `Default plan length in days (1-${MAX_PLAN_DAYS}):`,
+                    default: defaults.planDays || DEFAULT_PLAN_DAYS,
+                    validate: (input: number | undefined) => {
+                        if (input === undefined || !Number.isInteger(input) || input < 1 || input > MAX_PLAN_DAYS) {
+                            return `Please enter a whole number of days (1-${MAX_PLAN_DAYS})`;
+                        }
+                        return true;
+                    }
+                },
+                {
+                    type: 'list',
+                    name: 'diet',
+                    message: 'Default diet:',
+                    choices: DIET_CHOICES,
+                    default: defaults.diet || 'Keto'
+                },
+                {
+                    type: 'input',
+                    name: 'netCarbLimit',
+                    message: "Daily net-carb limit in grams (blank for the diet's own, e.g. 20 for keto):",
+                    default: defaults.netCarbLimit !== undefined ? String(defaults.netCarbLimit) : '',
+                    validate: (input: string) => {
+                        if (input.trim() && parseNetCarbLimit(input) === null) {
+                            return 'Please enter a number of grams between 1 and 300, or leave it blank';
+                        }
+                        return true;
+                    }
+                },
+                {
+                    type: 'checkbox',
+                    name: 'excludedGroups',
+                    message: 'Allergies and dietary rules (space to select):',
+                    choices: COMMON_EXCLUSIONS,
+                    default: (defaults.exclusions || []).filter(e => COMMON_EXCLUSIONS.includes(e))
+                },
+                {
+                    type: 'input',
+                    name: 'dislikes',
+                    message: 'Other foods to avoid, comma separated (blank for none):',
+                    default: (defaults.exclusions || []).filter(e => !COMMON_EXCLUSIONS.includes(e)).join(', ')
+                },
+                {
+                    type: 'input',
+                    name: 'mealStructure',
+                    message: 'Meals per eating day, e.g. "3 meals", "2 meals + 1 snack", "dinner only" (blank for the protocol default):',
+                    default: defaults.mealStructure || '',
+                    validate: (input: string) => {
+                        if (input.trim() && !parseMealStructure(input)) {
+                            return 'Please enter something like "3 meals", "2 meals + 1 snack" or "dinner only", or leave it blank';
+                        }
+                        return true;
+                    }
+                },
+                {
+                    type: 'input',
+                    name: 'budget',
+                    message: 'Food budget, e.g. "80" a week or "12/day" (blank for none):',
+                    default: defaults.budget || '',
+                    validate: (input: string) => {
+                        if (input.trim() && !parseBudget(input)) {
+                            return 'Please enter an amount such as 80, 80/week or 12/day, or leave it blank';
+                        }
+                        return true;
+                    }
                 },
                 {
-                    type: 'input',
-                    name: 'fastingEnd',
-                    message: 'Default fasting end:',
-                    default: defaults.fastingEnd || 'Sunday 8am'
+                    type: 'confirm',
+                    name: 'batchCooking',
+                    message: "Batch-cook dinners and eat the leftovers for the next day's lunch?",
+                    default: defaults.batchCooking || false
                 },
                 {
                     type: 'list',
-                    name: 'diet',
-                    message: 'Default diet:',
-                    choices: ['Keto', 'Low-Carb', 'Custom'],
-                    default: defaults.diet || 'Keto'
+                    name: 'cuisine',
+                    message: 'Default cuisine theme:',
+                    choices: [
+                        { name: 'No theme', value: '' },
+                        ...cuisineThemes.map(theme => ({ name: formatCuisineTheme(theme), value: theme })),
+                        { name: 'Rotate - a different theme each day', value: ROTATE_CUISINES }
+                    ],
+                    default: defaults.cuisine || '',
+                    when: () => cuisineThemes.length > 0
                 },
                 {
                     type: 'list',
@@ -843,16 +2799,42 @@ program
                 }
             ]);
 
-            defaults = defaultPrefs;
+            // Check the start/end pair together now that both are known
+            const defaultProtocol = findFastingProtocol(defaultPrefs.fastingProtocol);
+            if (defaultProtocol?.usesExtendedFast) {
+                const validated = await promptForValidFastingWindow(defaultProtocol, defaultPrefs.fastingStart, defaultPrefs.fastingEnd);
+                defaultPrefs.fastingStart = validated.fastingStart;
+                defaultPrefs.fastingEnd = validated.fastingEnd;
+            }
+
+            if (isCustomDiet(defaultPrefs.diet)) {
+                customDiet = await askCustomDietProfile(customDiet);
+            }
+
+            // Blank keeps the diet's own limit
+            defaultPrefs.netCarbLimit = parseNetCarbLimit(defaultPrefs.netCarbLimit) ?? undefined;
+            defaultPrefs.cuisine = defaultPrefs.cuisine || undefined;
+            defaultPrefs.mealStructure = defaultPrefs.mealStructure.trim() || undefined;
+            const budget = parseBudget(defaultPrefs.budget);
+            defaultPrefs.budget = budget ? `${budget.amount}/${budget.per}` : undefined;
+            defaultPrefs.batchCooking = defaultPrefs.batchCooking || undefined;
+
+            // Checked groups and typed dislikes are saved as one list
+            const { excludedGroups, dislikes, ...prefs } = defaultPrefs;
+            defaults = { ...prefs, exclusions: [...excludedGroups, ...parseExclusionList(dislikes)] };
         }
 
         // Save configuration
         const newConfig: GlobalConfig = {
+            provider,
             apiKey,
             usdaApiKey,
             appUrl,
             appTitle,
             defaultModel,
+            openaiCompatible,
+            customDiet,
+            household: globalConfig.household,
             defaults
         };
 
@@ -908,11 +2890,33 @@ program
             console.log(chalk.cyan('📋 Current Configuration:'));
             console.log(chalk.gray(`Location: ${configPath}\n`));
 
+            // Show AI provider
+            const providerId = globalConfig.provider || DEFAULT_LLM_PROVIDER;
+            const providerInfo = LLM_PROVIDERS.find(p => p.id === providerId);
+            console.log(chalk.cyan(`🔌 AI Provider: ${providerInfo ? providerInfo.name : providerId}`));
+
+            if (providerId === 'openai-compatible') {
+                const local = globalConfig.openaiCompatible || {};
+                console.log(local.baseUrl
+                    ? chalk.green(`✅ Base URL: ${local.baseUrl}`)
+                    : chalk.red('❌ Base URL: Not set'));
+                console.log(local.defaultModel
+                    ? chalk.cyan(`🤖 Model: ${local.defaultModel}`)
+                    : chalk.yellow('⚠️  Model: Not set (pass --model when generating)'));
+                if (local.apiKey) {
+                    console.log(chalk.green(`✅ API Key: ${local.apiKey.substring(0, 4)}...${local.apiKey.slice(-4)}`));
+                }
+                if (local.authHeader) {
+                    // Only the header name is shown; its value is a secret
+                    console.log(chalk.green(`✅ Auth Header: ${local.authHeader.split(':')[0].trim()}: ****`));
+                }
+            }
+
             // Show API key status (masked)
             if (globalConfig.apiKey) {
                 const maskedKey = globalConfig.apiKey.substring(0, 8) + '...' + globalConfig.apiKey.slice(-4);
                 console.log(chalk.green(`✅ OpenRouter API Key: ${maskedKey}`));
-            } else {
+            } else if (providerId === 'openrouter') {
                 console.log(chalk.red('❌ OpenRouter API Key: Not set'));
             }
 
@@ -924,15 +2928,17 @@ program
                 console.log(chalk.yellow('⚠️  USDA API Key: Not set (will use LLM estimates for nutrition)'));
             }
 
-            // Show default model
-            if (globalConfig.defaultModel) {
-                const modelInfo = OPENROUTER_MODELS.find(m => m.name === globalConfig.defaultModel);
-                const modelDisplay = modelInfo
-                    ? `${globalConfig.defaultModel} - ${modelInfo.description}`
-                    : globalConfig.defaultModel;
-                console.log(chalk.cyan(`🤖 Default Model: ${modelDisplay}`));
-            } else {
-                console.log(chalk.yellow('⚠️  Default Model: Not set (using x-ai/grok-4-fast)'));
+            // Show default model (a local model is shown with the provider details above)
+            if (providerId === 'openrouter') {
+                if (globalConfig.defaultModel) {
+                    const modelInfo = OPENROUTER_MODELS.find(m => m.name === globalConfig.defaultModel);
+                    const modelDisplay = modelInfo
+                        ? `${globalConfig.defaultModel} - ${modelInfo.description}`
+                        : globalConfig.defaultModel;
+                    console.log(chalk.cyan(`🤖 Default Model: ${modelDisplay}`));
+                } else {
+                    console.log(chalk.yellow(`⚠️  Default Model: Not set (using ${DEFAULT_OPENROUTER_MODEL})`));
+                }
             }
 
             // Show app attribution
@@ -947,9 +2953,28 @@ program
                 console.log(chalk.cyan('\n⚙️  Default Preferences:'));
                 const defaults = globalConfig.defaults;
 
+                if (defaults.fastingProtocol) {
+                    const protocol = findFastingProtocol(defaults.fastingProtocol);
+                    console.log(`   Fasting Protocol: ${protocol ? protocol.name : defaults.fastingProtocol}`);
+                }
+                if (defaults.planDays) console.log(`   Plan Length: ${defaults.planDays} days`);
+                if (defaults.planWeeks && !defaults.planDays) console.log(`   Plan Length: ${defaults.planWeeks} weeks`);
                 if (defaults.fastingStart) console.log(`   Fasting Start: ${defaults.fastingStart}`);
                 if (defaults.fastingEnd) console.log(`   Fasting End: ${defaults.fastingEnd}`);
                 if (defaults.diet) console.log(`   Diet: ${defaults.diet}`);
+                if (globalConfig.customDiet) {
+                    const custom = completeCustomProfile(globalConfig.customDiet);
+                    console.log(`   Custom Diet: ${custom.name} (${describeMacroRatios(custom.macroRatios)}, ${custom.netCarbLimit}g net carbs/day)`);
+                }
+                if (defaults.netCarbLimit !== undefined) console.log(`   Net-Carb Limit: ${defaults.netCarbLimit}g/day`);
+                if (defaults.exclusions && defaults.exclusions.length > 0) console.log(`   Excluded Foods: ${defaults.exclusions.join(', ')}`);
+                if (defaults.mealStructure) console.log(`   Meals Per Day: ${defaults.mealStructure}`);
+                if (defaults.budget) console.log(`   Budget: ${defaults.budget}`);
+                if (defaults.batchCooking) console.log('   Batch Cooking: dinners are doubled for the next day\'s lunch');
+                if (globalConfig.household && globalConfig.household.length > 0) {
+                    console.log(`   Household: ${globalConfig.household.map(describeHouseholdMember).join('; ')}`);
+                }
+                if (defaults.cuisine) console.log(`   Cuisine: ${defaults.cuisine === ROTATE_CUISINES ? 'Rotating daily' : formatCuisineTheme(defaults.cuisine)}`);
                 if (defaults.sex) console.log(`   Sex: ${defaults.sex}`);
                 if (defaults.age) console.log(`   Age: ${defaults.age}`);
                 if (defaults.height) console.log(`   Height: ${defaults.height}`);
@@ -1000,11 +3025,320 @@ program
         }
     });
 
+// Pantry command to manage what's already at home
+const pantryCommand = program
+    .command('pantry')
+    .description('Manage the foods you already have at home (used first, left off the shopping list)');
+
+// Editing must not overwrite a pantry file that failed to parse
+function loadPantryForEditing(): PantryItem[] {
+    try {
+        return loadPantry();
+    } catch (error) {
+        console.error(chalk.red(`Error: Could not read ${getPantryPath()}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+    }
+}
+
+pantryCommand
+    .command('add <items...>')
+    .description('Add items, optionally with an amount, e.g. fast-plan pantry add "6 eggs" "500g beef mince" butter')
+    .action((entries: string[]) => {
+        let items = loadPantryForEditing();
+        for (const entry of entries.flatMap(parseExclusionList)) {
+            const result = addPantryItem(items, entry);
+            items = result.items;
+            console.log(chalk.green(`${result.updated ? '🔄 Updated' : '➕ Added'}: ${formatPantryItem(result.item)}`));
+        }
+        savePantry(items);
+        console.log(chalk.gray(`Pantry saved to: ${getPantryPath()}`));
+    });
+
+pantryCommand
+    .command('remove <items...>')
+    .description('Remove items from the pantry')
+    .action((names: string[]) => {
+        let items = loadPantryForEditing();
+        for (const name of names.flatMap(parseExclusionList)) {
+            const result = removePantryItem(items, name);
+            items = result.items;
+            console.log(result.removed ? chalk.green(`➖ Removed: ${name}`) : chalk.yellow(`⚠️  Not in pantry: ${name}`));
+        }
+        savePantry(items);
+    });
+
+pantryCommand
+    .command('list')
+    .description('Show what is in the pantry')
+    .action(() => {
+        const items = readPantry();
+        if (items.length === 0) {
+            console.log(chalk.yellow('🥫 Your pantry is empty.'));
+            console.log(chalk.gray('Add items with: fast-plan pantry add "6 eggs" butter'));
+            return;
+        }
+
+        console.log(chalk.cyan(`🥫 Pantry (${items.length} item${items.length === 1 ? '' : 's'}):`));
+        items.forEach(item => console.log(`   ${formatPantryItem(item)}${chalk.gray(` - added ${item.addedAt}`)}`));
+    });
+
+// Household command to manage the other people the plans cook for
+const householdCommand = program
+    .command('household')
+    .description('Manage the other people you cook for (meals are shared, portions scaled to each person)');
+
+householdCommand
+    .command('add <name>')
+    .description('Add someone to the household, or update them, by answering a few questions')
+    .action(async (name: string) => {
+        const globalConfig = loadGlobalConfig();
+        const existing = findHouseholdMember(globalConfig.household || [], name);
+        const { age, fixedCalories } = await inquirer.prompt([
+            {
+                type: 'input',
+                name: 'age',
+                message: `${name}'s age?`,
+                default: existing?.age,
+                validate: (input: string) => /^\d+$/.test(input.trim()) || 'Please enter an age in years'
+            },
+            {
+                type: 'input',
+                name: 'fixedCalories',
+                message: 'Fixed daily calories (recommended for children; blank to calculate from their details)?',
+                default: existing?.calories !== undefined ? String(existing.calories) : '',
+                validate: (input: string) => !input.trim() || Number(input) >= 500 && Number(input) <= 5000 || 'Please enter calories between 500 and 5000, or leave it blank'
+            }
+        ]);
+
+        const calories = fixedCalories.trim() ? Number(fixedCalories) : undefined;
+        const details = calories ? {} : await inquirer.prompt([
+            { type: 'list', name: 'sex', message: 'Sex?', choices: ['Male', 'Female', 'Other'], default: existing?.sex },
+            { type: 'input', name: 'height', message: 'Height (e.g., 5\'6" or 168 cm)?', default: existing?.height },
+            { type: 'input', name: 'currentWeight', message: 'Current weight (e.g., 150 lbs)?', default: existing?.currentWeight },
+            { type: 'input', name: 'targetWeight', message: 'Target weight (same as current to maintain)?', default: existing?.targetWeight },
+            { type: 'input', name: 'timeframe', message: 'Timeframe to reach it (e.g., 6 months)?', default: existing?.timeframe || '6 months' },
+            {
+                type: 'list',
+                name: 'activityLevel',
+                message: 'Activity level?',
+                choices: [
+                    'Sedentary (little to no exercise, <2k steps/day)',
+                    'Lightly Active (light exercise, 1-3 days/week, 3-5k steps)',
+                    'Moderately Active (moderate exercise, 3-5 days/week, 5-10k steps)',
+                    'Very Active (intense exercise, 6-7 days/week, >10k steps)',
+                ],
+                default: existing?.activityLevel
+            }
+        ]);
+        const { exclusions } = await inquirer.prompt([{
+            type: 'input',
+            name: 'exclusions',
+            message: `Foods ${name} can't or won't eat, comma separated (blank for none)?`,
+            default: (existing?.exclusions || []).join(', '),
+            filter: parseExclusionList
+        }]);
+
+        const member: HouseholdMember = {
+            name: existing?.name || name.trim(),
+            age: age.trim(),
+            ...details,
+            calories,
+            exclusions: exclusions.length > 0 ? exclusions : undefined
+        };
+        const result = setHouseholdMember(globalConfig.household || [], member);
+        saveGlobalConfig({ ...globalConfig, household: result.members });
+        console.log(chalk.green(`${result.updated ? '🔄 Updated' : '➕ Added'}: ${describeHouseholdMember(member)}`));
+    });
+
+householdCommand
+    .command('remove <names...>')
+    .description('Remove people from the household')
+    .action((names: string[]) => {
+        const globalConfig = loadGlobalConfig();
+        let members = globalConfig.household || [];
+        for (const name of names) {
+            const result = removeHouseholdMember(members, name);
+            members = result.members;
+            console.log(result.removed ? chalk.green(`➖ Removed: ${name}`) : chalk.yellow(`⚠️  Not in the household: ${name}`));
+        }
+        saveGlobalConfig({ ...globalConfig, household: members.length > 0 ? members : undefined });
+    });
+
+householdCommand
+    .command('list')
+    .description('Show who the plans cook for')
+    .action(() => {
+        const members = loadGlobalConfig().household || [];
+        if (members.length === 0) {
+            console.log(chalk.yellow('👪 Plans are for you only.'));
+            console.log(chalk.gray('Add someone with: fast-plan household add Sam'));
+            return;
+        }
+
+        console.log(chalk.cyan(`👪 Household (${MAIN_MEMBER} and ${members.length} other${members.length === 1 ? '' : 's'}):`));
+        members.forEach(member => console.log(`   ${describeHouseholdMember(member)}`));
+        console.log(chalk.gray('\nPortions are sized from each person\'s targets when you generate a plan.'));
+    });
+
+// Prices command to manage the ingredient prices behind cost estimates and --budget
+const pricesCommand = program
+    .command('prices')
+    .description('Manage the ingredient prices used for cost estimates and --budget');
+
+// Edits start from a copy of the bundled table, and must not overwrite a price file that failed to parse
+function loadPricesForEditing(): PriceTable {
+    try {
+        return loadPriceTable()?.table || { currency: 'USD', items: [] };
+    } catch (error) {
+        console.error(chalk.red(`Error: Could not read the price table: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+    }
+}
+
+pricesCommand
+    .command('list')
+    .description('Show the price table in use')
+    .action(() => {
+        let prices: LoadedPriceTable | undefined;
+        try {
+            prices = loadPriceTable();
+        } catch (error) {
+            console.error(chalk.red(`Error: Could not read the price table: ${error instanceof Error ? error.message : 'Unknown error'}`));
+            process.exit(1);
+        }
+        if (!prices || prices.table.items.length === 0) {
+            console.log(chalk.yellow('💰 No ingredient prices yet.'));
+            console.log(chalk.gray('Add some with: fast-plan prices set "chicken breast" 9.50/kg'));
+            return;
+        }
+
+        const { table } = prices;
+        console.log(chalk.cyan(`💰 Ingredient prices in ${table.currency} (${table.items.length} item${table.items.length === 1 ? '' : 's'}):`));
+        [...table.items]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .forEach(entry => console.log(`   ${formatPriceEntry(entry, table.currency)}`));
+        console.log(chalk.gray(prices.source === 'user'
+            ? `\nYour prices: ${prices.path}`
+            : `\nBundled prices - the first change saves your own copy to ${getPricesPath()}`));
+    });
+
+pricesCommand
+    .command('set <name> <price>')
+    .description('Set the price of an ingredient, e.g. fast-plan prices set "chicken breast" 9.50/kg --piece-grams 200')
+    .option('--piece-grams <grams>', 'What one piece weighs, so "2 chicken breasts" can be priced by weight (or "300g eggs" per egg)')
+    .action((name: string, priceText: string, options: { pieceGrams?: string }) => {
+        const price = parsePrice(priceText);
+        if (!price) {
+            console.error(chalk.red(`❌ Invalid price: ${priceText} (use an amount per ${PRICE_UNIT_NAMES.join(', ')}, e.g. 9.50/kg or 0.35 each)`));
+            process.exit(1);
+        }
+        const itemGrams = options.pieceGrams !== undefined ? Number(options.pieceGrams) : undefined;
+        if (itemGrams !== undefined && !(itemGrams > 0)) {
+            console.error(chalk.red(`❌ Invalid piece weight: ${options.pieceGrams} (use grams, e.g. 200)`));
+            process.exit(1);
+        }
+
+        const result = setPrice(loadPricesForEditing(), { name, ...price, itemGrams });
+        savePriceTable(result.table);
+        console.log(chalk.green(`${result.updated ? '🔄 Updated' : '➕ Added'}: ${formatPriceEntry(result.entry, result.table.currency)}`));
+        console.log(chalk.gray(`Prices saved to: ${getPricesPath()}`));
+    });
+
+pricesCommand
+    .command('remove <names...>')
+    .description('Remove ingredient prices')
+    .action((names: string[]) => {
+        let table = loadPricesForEditing();
+        for (const name of names) {
+            const result = removePrice(table, name);
+            table = result.table;
+            console.log(result.removed ? chalk.green(`➖ Removed: ${name}`) : chalk.yellow(`⚠️  No price for: ${name}`));
+        }
+        savePriceTable(table);
+    });
+
+pricesCommand
+    .command('currency <code>')
+    .description('Set the currency the prices are in, e.g. EUR (prices are not converted)')
+    .action((code: string) => {
+        const table = { ...loadPricesForEditing(), currency: code.trim().toUpperCase() };
+        savePriceTable(table);
+        console.log(chalk.green(`💱 Prices are now in ${table.currency} - update them to match with "fast-plan prices set"`));
+    });
+
+// Templates command to browse the named prompt templates
+const templatesCommand = program
+    .command('templates')
+    .description(`Browse the named prompt templates (add your own in ${getUserTemplatesDir()})`);
+
+templatesCommand
+    .command('list')
+    .description('Show the built-in templates and your own')
+    .action(() => {
+        const templates = listTemplates(message => console.warn(chalk.yellow(`⚠️  ${message}`)));
+        if (templates.length === 0) {
+            console.log(chalk.yellow('📝 No templates found.'));
+            return;
+        }
+
+        console.log(chalk.cyan(`📝 Prompt templates (${templates.length}):`));
+        const width = Math.max(...templates.map(t => t.name.length));
+        templates.forEach(template => {
+            const source = template.source === 'built-in' ? 'built-in' : template.overridesBuiltIn ? 'yours, overrides built-in' : 'yours';
+            console.log(`   ${template.name.padEnd(width)}  ${chalk.gray(`[${source}]`)} ${template.description || ''}`);
+        });
+        console.log(chalk.gray(`\nUse one with: fast-plan generate --template <name>`));
+        console.log(chalk.gray(`Your templates folder: ${getUserTemplatesDir()}`));
+    });
+
+templatesCommand
+    .command('show <name>')
+    .description('Print a template and its fragments')
+    .action((name: string) => {
+        const template = findTemplate(name, message => console.warn(chalk.yellow(`⚠️  ${message}`)));
+        if (!template) {
+            console.error(chalk.red(`❌ Unknown template: ${name}`));
+            console.log(chalk.yellow(`Available templates: ${listTemplates(() => {}).map(t => t.name).join(', ')}`));
+            process.exit(1);
+        }
+
+        console.log(chalk.cyan(`📝 ${template.name}`) + chalk.gray(` [${template.source === 'built-in' ? 'built-in' : 'yours'}]`));
+        if (template.description) console.log(template.description);
+        console.log(chalk.gray(`File: ${template.path}\n`));
+        console.log(template.promptTemplate);
+        for (const [fragment, text] of Object.entries(template.fragments || {})) {
+            console.log(chalk.cyan(`\n--- fragment: ${fragment} ---`));
+            console.log(text);
+        }
+    });
+
 program
     .command('generate')
-    .description('Generate keto meal plan for 36-hour fasting')
+    .description('Generate a meal plan for your fasting protocol and diet')
     .option('-c, --config <path>', 'Path to meal plan configuration JSON file')
+    .option('-p, --protocol <protocol>', `Fasting protocol (${FASTING_PROTOCOLS.map(p => p.id).join(', ')})`)
+    .option('-d, --days <n>', `Number of days to plan (1-${MAX_PLAN_DAYS}, default ${DEFAULT_PLAN_DAYS})`)
+    .option('-w, --weeks <n>', 'Number of weeks to plan (overridden by --days)')
+    .option('-s, --start-date <date>', 'First day of the plan as YYYY-MM-DD (default: next Sunday)')
     .option('-m, --model <model>', 'Override the default AI model (e.g., openai/gpt-4o)')
+    .option('--provider <provider>', `AI provider (${LLM_PROVIDERS.map(p => p.id).join(', ')})`)
+    .option('--base-url <url>', 'Base URL for an OpenAI-compatible provider (e.g. http://localhost:11434/v1)')
+    .option('--auth-header <header>', 'Auth header for an OpenAI-compatible provider, as "Header-Name: value"')
+    .option('--fixture <path>', 'Replay a recorded response file or directory instead of calling a model (offline)')
+    .option('--record <dir>', 'Save every model response to a directory for later replay with --fixture')
+    .option('-x, --exclude <foods>', 'Extra foods to exclude for this plan, comma separated (added to your saved exclusions)')
+    .option('--diet <name>', `Diet profile (${[...DIET_PROFILES.map(p => p.name), CUSTOM_DIET].join(', ')})`)
+    .option('-t, --template <name>', 'Named prompt template to use (see fast-plan templates list)')
+    .option('--meals <structure>', 'Meals on each normal eating day, e.g. "3 meals", "2 meals + 1 snack" or "dinner only" (default: set by the protocol)')
+    .option('--cuisine <theme>', 'Cuisine theme from keto-recipe-patterns.json (mediterranean, asian, american_classic, fusion_modern), "rotate" for a different one each day, or "none"')
+    .option('--seed <n>', 'Seed for the recipe planner; the same seed gives the same proteins, vegetables, methods and seasonings')
+    .option('--no-pantry', "Don't steer the plan towards the foods in your pantry")
+    .option('--no-household', 'Plan for yourself only, without the household members in your settings')
+    .option('--net-carbs <grams>', "Daily net-carb limit for the diet check (default: the diet's own, e.g. 20 for keto)")
+    .option('--budget <amount>', 'Food budget, e.g. 80 (a week), 80/week or 12/day; the priciest meals are replaced until each week fits')
+    .option('--batch-cook', "Cook dinners in double quantity and eat the leftovers for the next day's lunch")
+    .option('--no-batch-cook', 'Cook every meal fresh, even if batch cooking is in your settings')
+    .option('--max-repairs <n>', `Extra AI calls allowed per plan part to repair incomplete responses (default ${DEFAULT_REPAIR_ATTEMPTS})`)
     .option('--debug-nutrition', 'Enable detailed nutrition calculation logging')
     .action(async (options) => {
         // Load global configuration
@@ -1017,34 +3351,78 @@ program
             testConfig = loadTestConfig(options.config);
         }
 
+        // Resolved up front so an unknown template or cuisine name, or a bad budget, fails before any questions
+        const selectedTemplate = resolvePromptTemplate(options.template, testConfig, options.config);
+        const patterns = loadRecipePatterns();
+        const cuisineSelection = resolveCuisine(options.cuisine, testConfig, defaults, patterns);
+        const budget = resolveBudget(options.budget, testConfig, defaults);
+
+        if (options.protocol && !findFastingProtocol(options.protocol)) {
+            console.error(chalk.red(`❌ Unknown fasting protocol: ${options.protocol}`));
+            console.log(chalk.yellow('Available protocols:'));
+            FASTING_PROTOCOLS.forEach(protocol => {
+                console.log(chalk.gray(`  ${protocol.id} - ${protocol.description}`));
+            });
+            process.exit(1);
+        }
+
+        // A fixture replaces whichever provider is configured, so replays never need a key or network
+        const providerId: LLMProviderId = options.fixture ? 'fixture' : getSelectedProviderId(globalConfig, options.provider);
+
+        const presetProtocol = options.protocol || testConfig.fastingProtocol || defaults.fastingProtocol;
+
+        // Extended fast times only matter for protocols built around a weekly fast
+        const needsFastTimes = (answers: Partial<Config>) =>
+            !!findFastingProtocol(presetProtocol || answers.fastingProtocol)?.usesExtendedFast;
+
         const answers: Config = await inquirer.prompt([
+            {
+                type: 'list',
+                name: 'fastingProtocol',
+                message: 'Fasting protocol?',
+                choices: FASTING_PROTOCOLS.map(protocol => ({
+                    name: `${protocol.name} - ${protocol.description}`,
+                    value: protocol.id
+                })),
+                default: DEFAULT_FASTING_PROTOCOL,
+                when: () => !presetProtocol
+            },
             {
                 type: 'input',
                 name: 'fastingStart',
                 message: 'Fasting start?',
                 default: testConfig.fastingStart || defaults.fastingStart || 'Friday 8pm',
-                when: () => !testConfig.fastingStart && !defaults.fastingStart
+                when: (answers: Partial<Config>) => needsFastTimes(answers) && !testConfig.fastingStart && !defaults.fastingStart,
+                validate: validateWeekdayTimeInput
             },
             {
                 type: 'input',
                 name: 'fastingEnd',
                 message: 'Fasting end?',
                 default: testConfig.fastingEnd || defaults.fastingEnd || 'Sunday 8am',
-                when: () => !testConfig.fastingEnd && !defaults.fastingEnd
+                when: (answers: Partial<Config>) => needsFastTimes(answers) && !testConfig.fastingEnd && !defaults.fastingEnd,
+                validate: validateWeekdayTimeInput
             },
             {
                 type: 'list',
                 name: 'diet',
                 message: 'Diet?',
-                choices: ['Keto', 'Low-Carb', 'Custom'],
-                default: testConfig.diet || defaults.diet || 'Keto',
-                when: () => !testConfig.diet && !defaults.diet
+                choices: DIET_CHOICES,
+                default: 'Keto',
+                when: () => !options.diet && !testConfig.diet && !defaults.diet
+            },
+            {
+                type: 'input',
+                name: 'exclusions',
+                message: 'Allergies, dietary rules or dislikes to exclude (e.g. shellfish, halal, mushrooms; blank for none)?',
+                filter: parseExclusionList,
+                when: () => !testConfig.exclusions && !defaults.exclusions
             },
             {
                 type: 'password',
                 name: 'apiKey',
                 message: 'OpenRouter API Key?',
-                when: () => !globalConfig.apiKey && !process.env.OPENROUTER_API_KEY
+                when: () => providerId === 'openrouter' && !globalConfig.apiKey && !process.env.OPENROUTER_API_KEY
             },
             {
                 type: 'input',
@@ -1106,9 +3484,20 @@ program
 
         // Merge test config values with answers and global defaults
         const finalAnswers: Config = {
+            fastingProtocol: presetProtocol || answers.fastingProtocol || DEFAULT_FASTING_PROTOCOL,
             fastingStart: testConfig.fastingStart || answers.fastingStart || defaults.fastingStart || 'Friday 8pm',
             fastingEnd: testConfig.fastingEnd || answers.fastingEnd || defaults.fastingEnd || 'Sunday 8am',
-            diet: testConfig.diet || answers.diet || defaults.diet || 'Keto',
+            diet: options.diet || testConfig.diet || answers.diet || defaults.diet || 'Keto',
+            netCarbLimit: resolveNetCarbLimit(options.netCarbs, testConfig, defaults),
+            // One-off exclusions from the command line add to the saved ones rather than replace them
+            exclusions: [
+                ...(testConfig.exclusions || answers.exclusions || defaults.exclusions || []),
+                ...(options.exclude ? parseExclusionList(options.exclude) : [])
+            ],
+            cuisine: cuisineSelection,
+            mealStructure: options.meals || testConfig.mealStructure || defaults.mealStructure,
+            budget: budget && `${budget.amount}/${budget.per}`,
+            batchCooking: options.batchCook ?? testConfig.batchCooking ?? defaults.batchCooking,
             apiKey: answers.apiKey,
             currentWeight: testConfig.currentWeight || answers.currentWeight || defaults.currentWeight || '',
             targetWeight: testConfig.targetWeight || answers.targetWeight || defaults.targetWeight || '',
@@ -1119,26 +3508,40 @@ program
             activityLevel: testConfig.activityLevel || answers.activityLevel || defaults.activityLevel || '',
         };
 
+        // Resolve the fasting protocol and, for extended fasts, a validated fasting window
+        const protocol: FastingProtocol = findFastingProtocol(finalAnswers.fastingProtocol) || findFastingProtocol(DEFAULT_FASTING_PROTOCOL)!;
+        if (protocol.id !== finalAnswers.fastingProtocol) {
+            console.warn(chalk.yellow(`⚠️  Unknown fasting protocol "${finalAnswers.fastingProtocol}", using ${protocol.name}`));
+            finalAnswers.fastingProtocol = protocol.id;
+        }
+
+        const mealSlots = resolveMealSlots(finalAnswers.mealStructure, protocol);
+
+        let fastingWindow: FastingWindow | undefined;
+        if (protocol.usesExtendedFast) {
+            const validated = await promptForValidFastingWindow(protocol, finalAnswers.fastingStart, finalAnswers.fastingEnd);
+            finalAnswers.fastingStart = validated.fastingStart;
+            finalAnswers.fastingEnd = validated.fastingEnd;
+            fastingWindow = validated.window;
+        }
+
         // Get API key from multiple sources (priority order)
         const apiKey = globalConfig.apiKey || finalAnswers.apiKey || process.env.OPENROUTER_API_KEY;
 
         // Get USDA API key from multiple sources
         const usdaApiKey = globalConfig.usdaApiKey || process.env.USDA_API_KEY;
 
-        // Get selected model
-        const selectedModel = getSelectedModel(globalConfig, options.model);
-
         // Debug API key loading
-        if (process.env.DEBUG_PROMPT || testConfig.promptTemplate) {
+        if (process.env.DEBUG_PROMPT) {
+            console.log(chalk.gray('🔌 AI provider:'), providerId);
             console.log(chalk.gray('🔑 API Key sources:'));
             console.log(chalk.gray('   globalConfig.apiKey:'), globalConfig.apiKey ? 'SET' : 'NOT SET');
             console.log(chalk.gray('   finalAnswers.apiKey:'), finalAnswers.apiKey ? 'SET' : 'NOT SET');
             console.log(chalk.gray('   process.env.OPENROUTER_API_KEY:'), process.env.OPENROUTER_API_KEY ? 'SET' : 'NOT SET');
             console.log(chalk.gray('   Final apiKey:'), apiKey ? 'SET' : 'NOT SET');
-            console.log(chalk.gray('🤖 Selected model:'), selectedModel);
         }
 
-        if (!apiKey) {
+        if (providerId === 'openrouter' && !apiKey) {
             console.error(chalk.red('❌ No API key found!'));
             console.log(chalk.yellow('Please run "fast-plan setup" to configure your API key.'));
             console.log(chalk.gray('Or set the OPENROUTER_API_KEY environment variable.'));
@@ -1161,9 +3564,16 @@ program
                     appUrl: globalConfig.appUrl,
                     appTitle: globalConfig.appTitle,
                     defaults: {
+                        fastingProtocol: finalAnswers.fastingProtocol,
                         fastingStart: finalAnswers.fastingStart,
                         fastingEnd: finalAnswers.fastingEnd,
                         diet: finalAnswers.diet,
+                        netCarbLimit: finalAnswers.netCarbLimit,
+                        exclusions: finalAnswers.exclusions,
+                        cuisine: finalAnswers.cuisine,
+                        mealStructure: finalAnswers.mealStructure,
+                        budget: finalAnswers.budget,
+                        batchCooking: finalAnswers.batchCooking,
                         currentWeight: finalAnswers.currentWeight,
                         targetWeight: finalAnswers.targetWeight,
                         timeframe: finalAnswers.timeframe,
@@ -1188,9 +3598,16 @@ program
                 const updatedConfig = {
                     ...globalConfig,
                     defaults: {
+                        fastingProtocol: finalAnswers.fastingProtocol,
                         fastingStart: finalAnswers.fastingStart,
                         fastingEnd: finalAnswers.fastingEnd,
                         diet: finalAnswers.diet,
+                        netCarbLimit: finalAnswers.netCarbLimit,
+                        exclusions: finalAnswers.exclusions,
+                        cuisine: finalAnswers.cuisine,
+                        mealStructure: finalAnswers.mealStructure,
+                        budget: finalAnswers.budget,
+                        batchCooking: finalAnswers.batchCooking,
                         currentWeight: finalAnswers.currentWeight,
                         targetWeight: finalAnswers.targetWeight,
                         timeframe: finalAnswers.timeframe,
@@ -1202,66 +3619,293 @@ program
                 };
                 saveGlobalConfig(updatedConfig);
             }
+        } else if (answers.exclusions && !defaults.exclusions) {
+            // Saved defaults from before exclusions existed: keep the answer so it is only asked once
+            saveGlobalConfig({ ...globalConfig, defaults: { ...defaults, exclusions: answers.exclusions } });
+            console.log(chalk.gray('Exclusions saved to your defaults (change them with "fast-plan setup").'));
+        }
+
+        const planLength = resolvePlanLength(options, testConfig, defaults);
+        const maxRepairs = options.maxRepairs !== undefined ? Number(options.maxRepairs) : DEFAULT_REPAIR_ATTEMPTS;
+        if (!Number.isInteger(maxRepairs) || maxRepairs < 0) {
+            console.error(chalk.red('❌ --max-repairs must be a whole number (0 disables repairs)'));
+            process.exit(1);
+        }
+        const startDate = resolveStartDate(options.startDate, testConfig);
+        const schedule = buildSchedule(protocol, planLength, fastingWindow, startDate);
+        const chunks = chunkSchedule(schedule);
+
+        // Every meal is validated against the diet after generation; the prompt states the same rules
+        const dietProfile = await resolveDietProfile(finalAnswers.diet, globalConfig);
+        const dietRules = getDietRules(dietProfile, finalAnswers.netCarbLimit);
+        const dietPrompt = describeDietRulesForPrompt(dietRules);
+        console.log(chalk.green(`🥗 Diet: ${dietProfile.name} (${describeMacroRatios(dietProfile.macroRatios)}, up to ${dietRules.dayNetCarbLimit}g net carbs a day)`));
+
+        // Personal targets, balanced over the week so fasting days count towards the deficit;
+        // the diet profile sets the macro split and the carb ceiling
+        // A plan shorter than a week counts its own fasting days rather than scaling them up to a week
+        const weeks = Math.max(schedule.length / 7, 1);
+        const targetProfile = { ...finalAnswers, macroRatios: dietProfile.macroRatios, netCarbLimit: dietRules.dayNetCarbLimit };
+        const weekPattern = {
+            fastingDays: schedule.filter(d => d.type === 'fasting').length / weeks,
+            reducedDays: schedule.filter(d => d.type === 'reduced').length / weeks,
+            reducedCalories: protocol.reducedCalories
+        };
+        const { targets: nutritionTargets, error: targetsError } = computeNutritionTargets(targetProfile, weekPattern);
+        if (nutritionTargets) {
+            printNutritionTargets(nutritionTargets);
+        } else {
+            console.warn(chalk.yellow(`⚠️  Could not calculate personal calorie targets: ${targetsError}`));
+            console.log(chalk.gray('   The plan will be generated without hard calorie and macro targets.'));
+        }
+        const targetsPrompt = nutritionTargets ? describeTargetsForPrompt(nutritionTargets) : '';
+
+        // Everyone in the household shares the meals; portions are sized from their own targets
+        // against the user's, so without the user's targets the plan is for the user alone
+        const householdMembers: HouseholdMember[] = options.household ? (testConfig.household || globalConfig.household || []) : [];
+        let household: HouseholdPortion[] = [];
+        if (householdMembers.length > 0 && !nutritionTargets) {
+            console.warn(chalk.yellow('⚠️  Household portions are sized against your calorie target, so this plan is for you only'));
+        } else if (householdMembers.length > 0 && nutritionTargets) {
+            const memberTargets = householdMembers.flatMap(member => {
+                const { targets, error } = computeMemberTargets(member, nutritionTargets, targetProfile, weekPattern);
+                if (!targets) {
+                    console.warn(chalk.yellow(`⚠️  Leaving ${member.name} out of the portions: ${error} (or give them fixed calories with "fast-plan household add")`));
+                }
+                return targets ? [{ name: member.name, targets }] : [];
+            });
+            household = buildHouseholdPortions(nutritionTargets, memberTargets);
+            console.log(chalk.green(`👪 Household: ${household.length} people, ${getTotalPortions(household)} portions of every meal`));
+            household.forEach(person => console.log(chalk.gray(`   ${person.name}: ${person.calories} kcal | ${person.protein}g protein | ${person.fat}g fat | ${person.carbs}g net carbs (${person.portion} portion)`)));
+        }
+        const householdPrompt = describeHouseholdForPrompt(householdMembers.filter(member => household.some(person => person.name === member.name)));
+
+        // Exclusions are enforced after generation too: offending days are regenerated or the meal dropped.
+        // Shared meals leave out what any member of the household avoids.
+        const planExclusions = [...new Set([...(finalAnswers.exclusions || []), ...householdMembers.flatMap(member => member.exclusions || [])])];
+        const exclusions = resolveExclusions(planExclusions);
+        const exclusionsPrompt = describeExclusionsForPrompt(exclusions);
+        if (exclusions.length > 0) {
+            console.log(chalk.green(`🚫 Excluding: ${exclusions.map(rule => rule.name).join(', ')}`));
+        }
+        const wordMatches = exclusions.filter(rule => rule.wordMatch);
+        if (wordMatches.length > 0) {
+            console.log(chalk.yellow(`⚠️  Not a known allergen or food group, so only the word itself is excluded: ${wordMatches.map(rule => rule.name).join(', ')}`));
+        }
+
+        // Normal eating days must fill exactly these slots; days that don't are regenerated
+        const mealStructurePrompt = mealSlots ? describeMealStructureForPrompt(mealSlots, nutritionTargets?.calories) : '';
+        if (mealSlots) {
+            console.log(chalk.green(`🍽️  Meals per day: ${describeMealStructure(mealSlots)}`));
+        }
+
+        // Batch dinners are paired with the next day's lunch within each plan part, so the model sees both days
+        const leftoverPairs: LeftoverPair[] = finalAnswers.batchCooking && mealSlots ? chunks.flatMap(chunk => planLeftovers(chunk, mealSlots)) : [];
+        const leftoversPromptFor = (chunk: ScheduledDay[]): string => describeLeftoversForPrompt(
+            leftoverPairs.filter(pair => chunk.some(d => d.day === pair.sourceDay) && chunk.some(d => d.day === pair.targetDay)));
+        if (leftoverPairs.length > 0) {
+            console.log(chalk.green(`🍱 Batch cooking: ${leftoverPairs.map(pair => `${pair.sourceDay} dinner -> ${pair.targetDay} lunch`).join(', ')}`));
+        } else if (finalAnswers.batchCooking) {
+            console.warn(chalk.yellow('⚠️  Batch cooking needs a lunch and a dinner on back-to-back eating days (e.g. --meals "2 meals"), so every meal is cooked fresh'));
+        }
+
+        // Pantry foods are a preference only; the shopping list export leaves them out
+        const pantry = options.pantry ? readPantry() : [];
+        const pantryPrompt = describePantryForPrompt(pantry);
+        if (pantry.length > 0) {
+            console.log(chalk.green(`🥫 Using up pantry items where they fit: ${pantry.map(item => item.name).join(', ')}`));
+        }
+
+        // Meals are priced from the user's price table (the bundled one until they make their own);
+        // amounts are read by the nutrition calculator's parser, which needs no USDA key
+        let pricing: PlanPricing | undefined;
+        try {
+            const prices = loadPriceTable();
+            if (prices) {
+                pricing = { table: prices.table, parser: new NutritionCalculator(), budget, portions: household.length > 0 ? getTotalPortions(household) : undefined };
+            }
+        } catch (error) {
+            console.warn(chalk.yellow(`⚠️  Could not read the price table, so costs are not estimated: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+        const budgetPrompt = pricing?.budget ? describeBudgetForPrompt(pricing.budget, pricing.table.currency) : '';
+        if (pricing?.budget) {
+            console.log(chalk.green(`💰 Budget: ${describeBudget(pricing.budget, pricing.table.currency)}`));
+        } else if (budget) {
+            console.warn(chalk.yellow(`⚠️  No price table to check the budget against - add prices with "fast-plan prices set"`));
         }
 
-        // Use custom prompt template if provided, otherwise use default
-        let prompt: string;
+        // A template replaces the built-in prompt
+        const promptTemplate = selectedTemplate?.source;
+        const resolveInclude = selectedTemplate ? createIncludeResolver(selectedTemplate) : () => undefined;
+        let recipePlan: RecipePlan | undefined;
+
+        // Everything a template can refer to, for one chunk of the plan
+        const buildTemplateContext = (chunk: ScheduledDay[]): TemplateContext => {
+            const mealDays = getMealDays(chunk);
+            const { apiKey: _apiKey, ...profile } = { ...EMPTY_PROFILE, ...finalAnswers };
+            const t = nutritionTargets;
+            return {
+                profile,
+                // Older templates use ${finalAnswers.age}
+                finalAnswers: profile,
+                // Same fields with or without a full profile, so a template checks the same either way
+                targets: {
+                    calories: t?.calories,
+                    protein: t?.protein,
+                    fat: t?.fat,
+                    carbs: t?.carbs,
+                    bmr: t?.bmr,
+                    tdee: t?.tdee,
+                    dailyDeficit: t?.dailyDeficit,
+                    weeklyChangeKg: t?.weeklyChangeKg,
+                    reducedDay: t?.reducedDay
+                },
+                dietRules: {
+                    diet: dietRules.diet,
+                    wording: dietProfile.wording,
+                    strictKeto: dietRules.strictKeto,
+                    dayNetCarbLimit: dietRules.dayNetCarbLimit,
+                    mealNetCarbLimit: dietRules.mealNetCarbLimit,
+                    macroRatios: dietProfile.macroRatios
+                },
+                plan: {
+                    protocol: protocol.name,
+                    protocolText: describeProtocolForPrompt(protocol, chunk, finalAnswers.fastingStart, finalAnswers.fastingEnd, fastingWindow),
+                    days: mealDays.map(d => d.day),
+                    dates: mealDays.map(d => d.date).filter(Boolean),
+                    dayCount: mealDays.length,
+                    fastingDays: chunk.filter(d => d.type === 'fasting').map(d => d.day),
+                    mealSlots: mealSlots || [],
+                    startDate: chunk[0]?.date,
+                    endDate: chunk[chunk.length - 1]?.date
+                },
+                exclusions: exclusions.map(rule => rule.name),
+                excludedFoods: planExclusions,
+                pantry: pantry.map(formatPantryItem),
+                budget: pricing?.budget ? describeBudget(pricing.budget, pricing.table.currency) : '',
+                patterns: { proteins: {}, vegetables: {}, cooking_methods: {}, seasonings: {}, ...patterns },
+                recipePlan: recipePromptFor(chunk),
+                today: formatIsoDate(new Date())
+            };
+        };
+
+        // Templates are checked before any API call, so a typo fails here instead of reaching the model
+        let templateVariables = new Set<string>();
+        if (promptTemplate) {
+            const check = checkTemplate(promptTemplate, buildTemplateContext(chunks[0]), resolveInclude);
+            if (check.problems.length > 0) {
+                console.error(chalk.red('❌ The prompt template has problems:'));
+                check.problems.forEach(problem => console.error(chalk.red(`   ${problem}`)));
+                console.log(chalk.yellow(`Available variables: ${listTemplateVariables(buildTemplateContext(chunks[0])).join(', ')}`));
+                console.log(chalk.yellow(`Built-in fragments: ${Object.keys(BUILT_IN_FRAGMENTS).join(', ')}`));
+                process.exit(1);
+            }
+            templateVariables = check.variables;
+        }
 
-        if (testConfig.promptTemplate) {
-            // Check if this is a special dynamic variety prompt request
-            if (testConfig.promptTemplate.includes('DYNAMIC_VARIETY')) {
-                const patterns = loadRecipePatterns();
-                prompt = generateDynamicVarietyPrompt(patterns, finalAnswers);
-                if (!prompt) {
-                    console.warn(chalk.yellow('⚠️  Dynamic variety prompt failed, falling back to template'));
-                    prompt = evaluatePromptTemplate(testConfig.promptTemplate, finalAnswers);
+        // The recipe planner gives each meal day its own protein, vegetable, method and seasoning.
+        // Templates decide for themselves whether to use it, through ${recipePlan}.
+        // A rotating cuisine draws its order from the same seed.
+        const usesRecipePlan = !promptTemplate || templateVariables.has('recipePlan');
+        const rotatesCuisines = cuisineSelection === ROTATE_CUISINES;
+        const isAllowed = (item: string) =>
+            findExcludedItems(item, exclusions).length === 0 && findForbiddenIngredients(item, dietRules).length === 0;
+        let seed: number | undefined;
+        if (patterns && (usesRecipePlan || rotatesCuisines)) {
+            seed = resolveSeed(options.seed, testConfig);
+            if (usesRecipePlan) {
+                try {
+                    recipePlan = planRecipeAssignments(patterns, getMealDays(schedule), seed, isAllowed);
+                } catch (error) {
+                    console.warn(chalk.yellow(`⚠️  Could not build a recipe plan: ${error instanceof Error ? error.message : 'Unknown error'}`));
                 }
-            } else {
-                prompt = evaluatePromptTemplate(testConfig.promptTemplate, finalAnswers);
             }
-        } else {
-            const defaultPrompt = `Create a comprehensive 6-day keto meal plan with detailed cooking instructions and nutritional information. Skip Saturday for 36-hour fast (${finalAnswers.fastingStart} to ${finalAnswers.fastingEnd}). Each meal should be home-cooked, under 30 minutes prep time, and strictly avoid processed foods, sugary drinks, and high-carb items. Include specific ingredients, cooking steps, and estimated macros (fat/protein/carbs). Tailor the portions and ingredients for: ${finalAnswers.sex}, age ${finalAnswers.age}, height ${finalAnswers.height}, current weight ${finalAnswers.currentWeight}, target weight ${finalAnswers.targetWeight} in ${finalAnswers.timeframe}, activity level: ${finalAnswers.activityLevel}. Format as: 1. Sunday: [Meal Name] - Ingredients: [...] - Instructions: [...] - Macros: [...], 2. Monday: [continue pattern]`;
-            prompt = defaultPrompt;
+            const repeated = [recipePlan && 'recipe plan', rotatesCuisines && 'cuisine rotation'].filter(Boolean).join(' and ');
+            if (repeated) {
+                console.log(chalk.green(`🎲 Recipe seed: ${seed} (use --seed ${seed} to get the same ${repeated} again)`));
+            }
+        } else if (options.seed !== undefined && !usesRecipePlan) {
+            console.warn(chalk.yellow('⚠️  --seed has no effect: the prompt template does not use ${recipePlan}'));
+        }
+        const cuisinePlan: CuisinePlan | undefined = patterns && cuisineSelection
+            ? assignCuisineThemes(cuisineSelection, patterns, getMealDays(schedule), seed)
+            : undefined;
+        if (cuisinePlan) {
+            const themes = [...new Set(cuisinePlan.days.map(d => d.theme))].map(formatCuisineTheme);
+            console.log(chalk.green(`🍽️  Cuisine: ${rotatesCuisines ? `rotating daily (${themes.join(', ')})` : themes.join(', ')}`));
+        }
+        function recipePromptFor(chunk: ScheduledDay[]): string {
+            return recipePlan
+                ? describeRecipePlanForPrompt(recipePlan.days.filter(assignment => chunk.some(d => d.day === assignment.day)))
+                : '';
         }
+        const cuisinePromptFor = (chunk: ScheduledDay[]): string =>
+            cuisinePlan && patterns
+                ? describeCuisineForPrompt(cuisinePlan.days.filter(d => chunk.some(c => c.day === d.day)), patterns, isAllowed)
+                : '';
+
+        // Build the prompt for one chunk of the plan (a whole plan when it fits in one chunk)
+        const buildPlanPrompt = (chunk: ScheduledDay[]): string => {
+            if (promptTemplate) {
+                return renderTemplate(promptTemplate, buildTemplateContext(chunk), resolveInclude);
+            }
+
+            const mealDays = getMealDays(chunk);
+            const protocolText = describeProtocolForPrompt(protocol, chunk, finalAnswers.fastingStart, finalAnswers.fastingEnd, fastingWindow);
+            return `Create a comprehensive ${mealDays.length}-day ${dietProfile.wording} meal plan with detailed cooking instructions and nutritional information. ${protocolText} Each meal should be home-cooked, under 30 minutes prep time, and strictly avoid processed foods, sugary drinks, and anything the diet rules below leave out. Include specific ingredients, cooking steps, and estimated macros (fat/protein/carbs). Tailor the portions and ingredients for: ${finalAnswers.sex}, age ${finalAnswers.age}, height ${finalAnswers.height}, current weight ${finalAnswers.currentWeight}, target weight ${finalAnswers.targetWeight} in ${finalAnswers.timeframe}, activity level: ${finalAnswers.activityLevel}. Format as: 1. ${mealDays[0]?.day}: [Meal Name] - Ingredients: [...] - Instructions: [...] - Macros: [...], 2. ${mealDays[1]?.day || mealDays[0]?.day}: [continue pattern]`;
+        };
+
+        // The cuisine, meal structure, batch cooking, targets, household, diet rules, exclusions, pantry and budget go on every prompt,
+        // templates included; the recipe plan only goes on the built-in prompt, templates place it with ${recipePlan}
+        const buildPrompt = (chunk: ScheduledDay[]): string =>
+            [buildPlanPrompt(chunk), promptTemplate ? '' : recipePromptFor(chunk), cuisinePromptFor(chunk), mealStructurePrompt, leftoversPromptFor(chunk), targetsPrompt, householdPrompt, dietPrompt, exclusionsPrompt, pantryPrompt, budgetPrompt].filter(Boolean).join('\n\n');
 
         // Debug logging for development
-        if (testConfig.promptTemplate) {
-            console.log(chalk.yellow('🧪 Using custom prompt template from config'));
-            console.log(chalk.gray('📋 Final answers:'), finalAnswers);
-            console.log(chalk.gray('📝 Raw template:'), testConfig.promptTemplate);
-            console.log(chalk.gray('🔄 Evaluated prompt:'), prompt);
+        if (selectedTemplate) {
+            console.log(chalk.yellow(`🧪 Using ${selectedTemplate.label}`));
+            if (process.env.NODE_ENV === 'development' || process.env.DEBUG_PROMPT) {
+                console.log(chalk.gray('📋 Final answers:'), finalAnswers);
+                console.log(chalk.gray('📝 Raw template:'), promptTemplate);
+                console.log(chalk.gray('🔄 Evaluated prompt:'), buildPrompt(chunks[0]));
+            }
         } else {
             console.log(chalk.blue('📝 Using default prompt'));
             if (process.env.NODE_ENV === 'development' || process.env.DEBUG_PROMPT) {
-                console.log(chalk.gray('🔄 Prompt:'), prompt);
+                console.log(chalk.gray('🔄 Prompt:'), buildPrompt(chunks[0]));
             }
         }
 
-        // Create OpenRouter provider instance with API key and attribution headers
-        const openrouterProvider = createOpenRouter({
-            apiKey: apiKey,
-            headers: {
-                'HTTP-Referer': globalConfig.appUrl || process.env.APP_URL || 'https://github.com/your-username/ai-fasting-planner',
-                'X-Title': globalConfig.appTitle || process.env.APP_TITLE || 'AI Fasting Planner',
-            },
+        // Create the LLM provider (OpenRouter with attribution headers, or a self-hosted endpoint)
+        const llmProvider = createSelectedProvider(providerId, globalConfig, {
+            apiKey,
+            baseUrl: options.baseUrl,
+            authHeader: options.authHeader,
+            fixture: options.fixture
         });
+        const selectedModel = getSelectedModel(llmProvider, globalConfig, options.model);
+
+        // Recording wraps the live model so the exact responses can be replayed with --fixture
+        const createModel = () => {
+            const model = llmProvider.createModel(selectedModel);
+            return options.record && providerId !== 'fixture'
+                ? wrapLanguageModel({ model, middleware: createRecordingMiddleware(options.record) })
+                : model;
+        };
 
         // Show which model is being used
-        const modelInfo = OPENROUTER_MODELS.find(m => m.name === selectedModel);
+        const modelInfo = llmProvider.models.find(m => m.name === selectedModel);
         const modelDisplay = modelInfo
             ? `${selectedModel} - ${modelInfo.description}`
             : selectedModel;
-        console.log(chalk.blue(`🤖 Using AI model: ${modelDisplay}`));
-
-        // Temporarily disable waiting experience for testing
-        console.log(chalk.blue('🤖 Generating your meal plan...'));
-
-        // Generate meal plan directly without waiting experience
-        const { object: mealPlan } = await generateObject({
-            model: openrouterProvider(selectedModel),
-            prompt,
-            schema: mealPlanSchema,
-        });
+        console.log(chalk.blue(`🤖 Using AI model: ${modelDisplay} (${llmProvider.name})`));
+        if (providerId === 'fixture') {
+            console.log(chalk.gray(`📼 Replaying recorded responses from ${options.fixture}`));
+            if (options.record) {
+                console.log(chalk.yellow('⚠️  --record is ignored when replaying a fixture'));
+            }
+        } else if (options.record) {
+            console.log(chalk.gray(`📼 Recording model responses to ${options.record}`));
+        }
 
         // Enable nutrition debug logging if requested
         if (options.debugNutrition) {
@@ -1269,113 +3913,299 @@ program
             console.log('🐛 Nutrition debug logging enabled');
         }
 
-        // Calculate accurate nutrition using USDA API if available
-        let nutritionCalculated = false;
-        if (usdaApiKey) {
+        // Accurate nutrition comes from USDA when a key is configured, otherwise the LLM estimates are kept.
+        // A fixture replay keeps the recorded estimates so it stays offline and gives the same plan every time.
+        let nutritionCalculator: NutritionCalculator | undefined;
+        if (providerId === 'fixture') {
+            console.log(chalk.gray('ℹ️  Replaying a fixture - using the recorded nutrition estimates, not USDA'));
+        } else if (usdaApiKey) {
             try {
-                console.log(chalk.blue('🥗 Calculating accurate nutrition data...'));
-
-                const usdaApi = new USDAAPIService(usdaApiKey);
-                const nutritionCalculator = new NutritionCalculator(usdaApi);
-
-                // Process all meals in the plan
-                for (const day of mealPlan.days) {
-                    for (const meal of day.meals) {
-                        if (meal.ingredients && meal.ingredients.length > 0) {
-                            try {
-                                const mealNutrition = await nutritionCalculator.calculateMealNutrition(meal.ingredients);
-
-                                // Check if LLM claimed USDA verification but provided inaccurate data
-                                const llmClaimedUSDA = meal.nutritionSource === 'usda';
-                                const hasLLMMacros = meal.macros && (
-                                    meal.macros.calories || meal.macros.fat || meal.macros.protein || meal.macros.carbs
-                                );
-
-                                let nutritionSource: 'usda' | 'llm' | 'mixed' = 'usda';
-                                let nutritionConfidence = mealNutrition.confidence;
-
-                                if (llmClaimedUSDA && hasLLMMacros && meal.macros) {
-                                    // LLM claimed USDA, check if its macros are reasonably close to our calculation
-                                    const llmCalories = meal.macros.calories || 0;
-                                    const ourCalories = mealNutrition.total.calories;
-                                    const percentDiff = Math.abs(ourCalories - llmCalories) / Math.max(llmCalories, ourCalories);
-
-                                    if (percentDiff > 0.2) { // More than 20% difference
-                                        // LLM's USDA claim was incorrect
-                                        nutritionSource = 'usda'; // Still usda, but corrected
-                                        nutritionConfidence = 'low'; // Low confidence in LLM's calculation
-                                        if (process.env.DEBUG_NUTRITION) {
-                                            console.log(`⚠️  LLM claimed USDA (${llmCalories} cal) but calculation shows ${Math.round(ourCalories)} cal (${Math.round(percentDiff * 100)}% difference)`);
-                                        }
-                                    } else {
-                                        // LLM's calculation was reasonably accurate
-                                        nutritionConfidence = 'medium'; // Trust but verify
-                                    }
-                                }
-
-                                // Update meal with accurate nutrition data
-                                meal.macros = {
-                                    calories: Math.round(mealNutrition.total.calories),
-                                    fat: Math.round(mealNutrition.total.fat * 10) / 10, // Round to 1 decimal
-                                    protein: Math.round(mealNutrition.total.protein * 10) / 10,
-                                    carbs: Math.round(mealNutrition.total.carbs * 10) / 10,
-                                };
-
-                                // Set nutrition source and confidence
-                                meal.nutritionSource = nutritionSource;
-                                meal.nutritionConfidence = nutritionConfidence;
-
-                                nutritionCalculated = true;
-                            } catch (error) {
-                                console.warn(chalk.yellow(`⚠️  Failed to calculate nutrition for "${meal.name}": ${error instanceof Error ? error.message : 'Unknown error'}`));
-                                // Keep LLM-provided macros as fallback
-                                meal.nutritionSource = 'llm';
-                                meal.nutritionConfidence = 'low';
-                            }
-                        } else {
-                            // No ingredients provided, keep LLM macros
-                            meal.nutritionSource = 'llm';
-                            meal.nutritionConfidence = 'low';
+                nutritionCalculator = new NutritionCalculator(new USDAAPIService(usdaApiKey));
+                console.log(chalk.blue('🥗 Calculating accurate nutrition data as each day arrives...'));
+            } catch (error) {
+                console.warn(chalk.yellow(`⚠️  Failed to initialize USDA nutrition service: ${error instanceof Error ? error.message : 'Unknown error'}`));
+                console.log(chalk.gray('Falling back to LLM-provided nutrition estimates'));
+            }
+        } else {
+            console.log(chalk.gray('ℹ️  USDA API key not configured - using LLM nutrition estimates'));
+        }
+
+        console.log(chalk.blue(`🤖 Generating your ${planLength}-day meal plan starting ${schedule[0].weekday} ${formatIsoDate(startDate)}...`));
+        console.log(chalk.green(`Your ${dietProfile.name} Meal Plan (${describeProtocolSummary(protocol, finalAnswers.fastingStart, finalAnswers.fastingEnd)})`));
+
+        // The table is printed row by row while the plan streams in, so size the day column from the schedule
+        const dayColumnWidth = Math.max(12, ...schedule.map(d => Math.max(d.day.length, d.date?.length || 0) + 2));
+        const planTable = new StreamingTable([chalk.cyan('Day'), chalk.cyan('Meal')], [dayColumnWidth, 80]);
+
+        // Nutrition for a finished day starts straight away, in parallel with the days still streaming.
+        // Rows are printed in schedule order once their nutrition is in.
+        const finishedDays = new Map<string, { day: MealPlanDay; nutrition: Promise<void> }>();
+        let nutritionCalculated = false;
+        let nextRow = 0;
+        let printing = Promise.resolve();
+
+        const finishDay = (day: MealPlanDay) => {
+            if (finishedDays.has(day.day)) return;
+
+            // A leftover lunch is copied from its batch once the batch has its nutrition, rather than worked out again.
+            // Linking it is what marks the dinner as a batch, so a lunch that can't be linked leaves a single portion.
+            const pair = leftoverPairs.find(p => p.targetDay === day.day);
+            const source = pair && finishedDays.get(pair.sourceDay);
+            const nutrition = (source?.nutrition || Promise.resolve())
+                .then(() => {
+                    if (source) linkLeftover(source.day, day);
+                    return refreshNutrition(day.meals.filter(meal => !meal.leftoverFrom), nutritionCalculator, message => planTable.log(message));
+                })
+                .then(calculated => { nutritionCalculated = nutritionCalculated || calculated; });
+            finishedDays.set(day.day, { day, nutrition });
+        };
+
+        const printReadyRows = () => {
+            printing = printing.then(async () => {
+                while (nextRow < schedule.length) {
+                    const scheduled = schedule[nextRow];
+                    const finished = finishedDays.get(scheduled.day);
+                    if (scheduled.type !== 'fasting' && !finished) break;
+
+                    await finished?.nutrition;
+                    // A batch dinner waits for its leftover day, which decides whether it is cooked once or twice
+                    const batchPair = leftoverPairs.find(p => p.sourceDay === scheduled.day);
+                    const leftoverDay = batchPair && finishedDays.get(batchPair.targetDay);
+                    if (batchPair && !leftoverDay) break;
+                    await leftoverDay?.nutrition;
+                    const dayData: MealPlanDay = { ...(finished?.day || { meals: [] }), day: scheduled.day, date: scheduled.date, dayType: scheduled.type };
+
+                    // Flag days whose (now final) nutrition misses the personal targets
+                    const dayTarget = getDayTarget(nutritionTargets, scheduled.type);
+                    const compliance = dayTarget && dayData.meals.length > 0 ? checkDayCompliance(dayData.meals, dayTarget) : undefined;
+                    let flag = compliance && (compliance.status === 'over' || compliance.status === 'under')
+                        ? `\n${chalk.yellow(formatComplianceFlag(compliance))}`
+                        : '';
+
+                    if (dayData.meals.length > 0) {
+                        const dietCheck = applyDietCheck(dayData, dietRules);
+                        if (!dietCheck.passed) {
+                            flag += `\n${chalk.red(`❌ ${summarizeDayDietCheck(dietCheck, dietRules)}`)}`;
                         }
                     }
+
+                    if (pricing && dayData.meals.length > 0) {
+                        priceMeals(dayData.meals, pricing);
+                        flag += `\n${chalk.gray(`💰 Day: ${formatMoney(getDayCost(dayData), pricing.table.currency)}`)}`;
+                    }
+
+                    // The day's flags go under its last meal row
+                    const rows = formatMealPlanForTable({ days: [dayData] });
+                    rows.forEach(({ day, date, meal }, index) =>
+                        planTable.printRow([date ? `${day}\n${chalk.gray(date)}` : day, meal + (index === rows.length - 1 ? flag : '')]));
+                    nextRow++;
                 }
+            });
+        };
+
+        // Generate the plan chunk by chunk, feeding earlier dishes forward to keep variety
+        const mealPlan: MealPlan = { days: [] };
+        const planRepairs: RepairRecord[] = [];
+        for (const [chunkIndex, chunk] of chunks.entries()) {
+            if (getMealDays(chunk).length === 0) {
+                mealPlan.days.push(...chunk.map(d => ({ day: d.day, date: d.date, dayType: d.type, meals: [] })));
+                printReadyRows();
+                continue;
+            }
+
+            if (chunks.length > 1) {
+                // Queued behind the rows still waiting to print so the table stays in order
+                const progress = chalk.gray(`   Planning ${chunk[0].day} - ${chunk[chunk.length - 1].day} (part ${chunkIndex + 1} of ${chunks.length})...`);
+                printing = printing.then(() => planTable.log(progress));
+            }
+
+            const { plan: chunkPlan, repairs } = await generateChunkWithRepair({
+                chunk,
+                previousDays: mealPlan.days,
+                buildPrompt,
+                createModel,
+                maxRepairs,
+                exclusions,
+                dietRules,
+                mealSlots,
+                onDayComplete: day => {
+                    finishDay(day);
+                    printReadyRows();
+                },
+                log: message => planTable.log(message)
+            });
+            planRepairs.push(...repairs);
 
-                if (nutritionCalculated) {
-                    console.log(chalk.green('✅ Nutrition data calculated using USDA database'));
+            // The protocol, not the model, decides which days are fasting days
+            alignMealPlanToSchedule(chunkPlan, chunk);
+            mealPlan.days.push(...chunkPlan.days);
+
+            // Repaired (or still incomplete) days were held back until now
+            chunkPlan.days.filter(d => d.dayType !== 'fasting').forEach(finishDay);
+            printReadyRows();
+        }
+
+        await printing;
+        planTable.end();
+
+        // Links for days repaired after their partner was printed are made here
+        linkLeftovers(mealPlan.days, leftoverPairs);
+
+        if (planRepairs.length > 0) {
+            const repaired = planRepairs.filter(r => r.repaired);
+            const unresolved = planRepairs.filter(r => !r.repaired);
+            if (repaired.length > 0) {
+                console.log(chalk.green(`🔧 Repaired ${repaired.length} problem${repaired.length === 1 ? '' : 's'} in the AI response:`));
+                repaired.forEach(r => console.log(chalk.gray(`   ✅ ${describeIssue(r)}`)));
+            }
+            if (unresolved.length > 0) {
+                console.log(chalk.yellow(`⚠️  ${unresolved.length} problem${unresolved.length === 1 ? '' : 's'} could not be repaired within the retry budget:`));
+                unresolved.forEach(r => console.log(chalk.gray(`   ❌ ${describeIssue(r)}`)));
+                if (unresolved.some(r => r.kind === 'excluded-ingredient')) {
+                    console.log(chalk.yellow('   Meals with excluded foods were removed. Regenerate those days from the detailed view.'));
                 }
-            } catch (error) {
-                console.warn(chalk.yellow(`⚠️  Failed to initialize USDA nutrition service: ${error instanceof Error ? error.message : 'Unknown error'}`));
-                console.log(chalk.gray('Falling back to LLM-provided nutrition estimates'));
             }
+        }
+
+        if (nutritionCalculated) {
+            console.log(chalk.green('✅ Nutrition data calculated using USDA database'));
+        }
+
+        const dietCheck = checkPlanDiet(mealPlan, dietRules);
+        if (dietCheck.passed) {
+            console.log(chalk.green(`✅ Every meal passes the ${describeDietCheck(dietRules)}`));
         } else {
-            console.log(chalk.gray('ℹ️  USDA API key not configured - using LLM nutrition estimates'));
-            // Mark all meals as using LLM nutrition
-            for (const day of mealPlan.days) {
-                for (const meal of day.meals) {
-                    meal.nutritionSource = 'llm';
-                    meal.nutritionConfidence = 'low';
+            console.log(chalk.red(`❌ ${dietCheck.failedDays.length} day${dietCheck.failedDays.length === 1 ? '' : 's'} fail${dietCheck.failedDays.length === 1 ? 's' : ''} the ${describeDietCheck(dietRules)}: ${dietCheck.failedDays.join(', ')}`));
+            console.log(chalk.gray('   Regenerate the flagged meals from the detailed view; the AI is told what to avoid.'));
+        }
+
+        mealPlan.fastingPeriod = buildFastingPeriod(protocol, schedule, finalAnswers.fastingStart, finalAnswers.fastingEnd, fastingWindow, startDate);
+        if (nutritionTargets) {
+            const { warnings, ...storedTargets } = nutritionTargets;
+            mealPlan.targets = storedTargets;
+        }
+        if (planExclusions.length > 0) {
+            mealPlan.exclusions = planExclusions;
+        }
+        if (household.length > 0) {
+            mealPlan.household = household;
+        }
+        if (mealSlots) {
+            mealPlan.mealSlots = mealSlots;
+        }
+        if (recipePlan) {
+            mealPlan.recipePlan = recipePlan;
+        }
+        if (cuisinePlan) {
+            mealPlan.cuisine = cuisinePlan;
+            tagMealCuisines(mealPlan);
+        }
+
+        const editing: PlanEditingContext = { schedule, buildPrompt, createModel, maxRepairs, exclusions, dietRules, mealSlots, nutritionCalculator, patterns: patterns || undefined, pricing };
+
+        // The prompt asks for variety; check it was delivered and offer to redo the days that repeat
+        if (patterns) {
+            const audit = checkPlanVariety(mealPlan, patterns);
+            const repeatingDays = getDaysBreakingVariety(audit);
+            if (repeatingDays.length === 0) {
+                console.log(chalk.green(`🔀 Variety score: ${audit.score}/100 - no repeats between consecutive days`));
+            } else {
+                console.log(chalk.yellow(`\n🔀 Variety score: ${audit.score}/100`));
+                summarizeRepeats(audit.repeats).forEach(repeat => console.log(chalk.yellow(`   Repeats ${repeat}`)));
+                const { regenerateRepeats } = await inquirer.prompt([{
+                    type: 'confirm',
+                    name: 'regenerateRepeats',
+                    message: `Regenerate ${repeatingDays.join(', ')} for more variety?`,
+                    default: true
+                }]);
+                if (regenerateRepeats) {
+                    for (const day of repeatingDays) {
+                        const dayData = mealPlan.days.find(d => d.day === day);
+                        if (!dayData) continue;
+                        try {
+                            await regenerateDay(mealPlan, dayData, editing, describeVarietyFixForPrompt(audit, day));
+                        } catch (error) {
+                            console.error(chalk.red(`❌ Could not regenerate ${day}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+                        }
+                    }
+                    checkPlanDiet(mealPlan, dietRules);
+                    const updated = checkPlanVariety(mealPlan, patterns);
+                    console.log(chalk.cyan(`🔀 Variety score is now ${updated.score}/100${updated.repeats.length > 0 ? ` (${updated.repeats.length} repeat${updated.repeats.length === 1 ? '' : 's'} left)` : ''}`));
+                }
+            }
+        }
+
+        // Offer to fix days whose totals miss the targets before moving on
+        const offTargetDays = mealPlan.days.filter(day => {
+            const target = getDayTarget(mealPlan.targets, day.dayType);
+            const status = target && day.meals.length > 0 ? checkDayCompliance(day.meals, target).status : undefined;
+            return status === 'over' || status === 'under';
+        });
+        if (offTargetDays.length > 0) {
+            console.log(chalk.yellow(`\n⚠️  ${offTargetDays.length} day${offTargetDays.length === 1 ? '' : 's'} miss${offTargetDays.length === 1 ? 'es' : ''} your daily targets: ${offTargetDays.map(d => d.day).join(', ')}`));
+            const { rebalanceNow } = await inquirer.prompt([{
+                type: 'confirm',
+                name: 'rebalanceNow',
+                message: 'Rebalance these days now?',
+                default: true
+            }]);
+            if (rebalanceNow) {
+                for (const day of offTargetDays) {
+                    await rebalanceDay(mealPlan, day, editing);
+                }
+            }
+        }
+
+        // Costs are totalled once the plan is settled; a week over budget has its priciest meals
+        // swapped for cheaper ones until it fits or the swaps run out
+        if (pricing) {
+            let costs = priceMealPlan(mealPlan, pricing);
+            printPlanCost(costs);
+
+            const overBudgetWeeks = costs.weeks.filter(week => week.overBudget);
+            if (overBudgetWeeks.length > 0) {
+                console.log(chalk.yellow(`\n💸 ${overBudgetWeeks.length === 1 ? 'One week is' : `${overBudgetWeeks.length} weeks are`} over your ${describeBudget(pricing.budget!, costs.currency)} budget - replacing the most expensive meals...`));
+                for (const overWeek of overBudgetWeeks) {
+                    let week = overWeek;
+                    const tried = new Set<Meal>();
+                    for (let swap = 0; swap < MAX_BUDGET_SWAPS_PER_WEEK && week.overBudget; swap++) {
+                        const weekDays = mealPlan.days.filter(day => week.days.includes(day.day));
+                        const priciest = findMostExpensiveMeals(weekDays)
+                            .find(candidate => !tried.has(weekDays.find(day => day.day === candidate.day)!.meals[candidate.mealIndex]));
+                        if (!priciest) break;
+
+                        const dayData = weekDays.find(day => day.day === priciest.day)!;
+                        tried.add(dayData.meals[priciest.mealIndex]);
+                        try {
+                            await replaceMeal(mealPlan, dayData, priciest.mealIndex, 1, editing, describeBudgetFixForPrompt(priciest.amount, week, costs.currency));
+                        } catch (error) {
+                            console.error(chalk.red(`❌ Could not replace a meal on ${dayData.day}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+                        }
+                        costs = priceMealPlan(mealPlan, pricing);
+                        week = costs.weeks.find(w => w.days[0] === overWeek.days[0])!;
+                    }
+                }
+
+                checkPlanDiet(mealPlan, dietRules);
+                if (patterns) {
+                    checkPlanVariety(mealPlan, patterns);
+                }
+                const stillOver = costs.weeks.filter(week => week.overBudget);
+                if (stillOver.length === 0) {
+                    console.log(chalk.green(`✅ The plan now fits your budget: ${formatMoney(costs.total, costs.currency)} in total`));
+                } else {
+                    console.log(chalk.yellow(`⚠️  Still over budget for ${stillOver.map(describeWeekRange).join(', ')} - swap more meals from the detailed view or raise the budget`));
                 }
+                printPlanCost(costs);
             }
         }
 
         // Debug: Log AI response for troubleshooting
-        if (process.env.DEBUG_PROMPT || testConfig.promptTemplate) {
+        if (process.env.DEBUG_PROMPT) {
             console.log(chalk.gray('🤖 AI Response:'), JSON.stringify(mealPlan, null, 2));
             console.log(chalk.gray('📊 Days generated:'), mealPlan.days.length);
         }
 
-        // Format structured data for table display
-        const mealPlanForTable = formatMealPlanForTable(mealPlan);
-
-        const table = new Table({
-            head: [chalk.cyan('Day'), chalk.cyan('Meal')],
-            colWidths: [12, 80], // Set fixed column widths
-            wordWrap: true // Enable word wrapping
-        });
-        mealPlanForTable.forEach(({ day, meal }) => table.push([day, meal]));
-        console.log(chalk.green(`Your Keto Meal Plan (Fasting: ${finalAnswers.fastingStart} - ${finalAnswers.fastingEnd})`));
-        console.log(table.toString());
-
         const tips = [
             'Ditched pies & sugary drinks—home-cooked meals were my win.',
             'Coffee kept me going during 36-hour fasts.',
@@ -1385,7 +4215,7 @@ program
         tips.forEach(tip => console.log(`- ${tip}`));
 
         // Interactive detailed view
-        await showDetailedMealPlan(mealPlan);
+        await showDetailedMealPlan(mealPlan, editing);
     });
 
 // Make generate the default command if no command is specified
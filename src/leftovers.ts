@@ -0,0 +1,181 @@
+import { MealSlot } from './mealSlots';
+import { scaleIngredient } from './compliance';
+
+// Batch cooking: a dinner is cooked in double quantity and its second portion is the next
+// day's lunch. The lunch is a copy of the dinner linked back to it, so nutrition is worked out
+// once for the batch and the shopping list buys the batch once, at twice the quantities.
+// Works on the plain day/meal shape so it stays independent of the zod schema in index.ts.
+
+// Where a leftover meal was cooked
+export interface LeftoverLink {
+    day: string;
+    type: string;
+    name: string;
+}
+
+// A meal cooked for more than one sitting, and the later meals eaten from it
+export interface BatchInfo {
+    servings: number;
+    leftovers: Array<{ day: string; type: string }>;
+}
+
+// A dinner on sourceDay cooked twice over for lunch on targetDay
+export interface LeftoverPair {
+    sourceDay: string;
+    targetDay: string;
+}
+
+interface BatchMeal {
+    name: string;
+    type?: string;
+    prepTime?: string;
+    ingredients?: string[];
+    instructions?: string[];
+    batch?: BatchInfo;
+    leftoverFrom?: LeftoverLink;
+}
+
+interface BatchDay<M extends BatchMeal> {
+    day: string;
+    meals: M[];
+}
+
+const BATCH_SLOT: MealSlot = 'dinner';
+const LEFTOVER_SLOT: MealSlot = 'lunch';
+const REHEAT_TIME = '5 minutes';
+
+// A dinner and one leftover lunch
+function plannedBatch(targetDay: string): BatchInfo {
+    return { servings: 2, leftovers: [{ day: targetDay, type: LEFTOVER_SLOT }] };
+}
+
+/**
+ * Pair each batch dinner with the next day's lunch: Sunday feeds Monday, Tuesday feeds Wednesday and so on.
+ * Only back-to-back normal eating days pair up, and only when the day has both a lunch and a dinner.
+ */
+export function planLeftovers(chunk: Array<{ day: string; type: string }>, slots: MealSlot[]): LeftoverPair[] {
+    if (!slots.includes(BATCH_SLOT) || !slots.includes(LEFTOVER_SLOT)) return [];
+
+    const pairs: LeftoverPair[] = [];
+    for (let i = 0; i < chunk.length - 1; i++) {
+        if (chunk[i].type === 'eating' && chunk[i + 1].type === 'eating') {
+            pairs.push({ sourceDay: chunk[i].day, targetDay: chunk[i + 1].day });
+            i++;
+        }
+    }
+    return pairs;
+}
+
+export function describeLeftoversForPrompt(pairs: LeftoverPair[]): string {
+    if (pairs.length === 0) return '';
+    const links = pairs.map(pair => `${pair.sourceDay} dinner -> ${pair.targetDay} lunch`).join('; ');
+    return `BATCH COOKING: these dinners are cooked in double quantity and the second portion is eaten as the next day's lunch: ${links}. Choose dishes for them that keep and reheat well (stews, curries, braises, roasts, casseroles, meatballs). Still write each dinner's ingredient quantities and macros for ONE portion; the planner doubles the shopping. For each of those lunches, repeat the dinner exactly (same name, ingredients and macros); the planner marks it as leftovers.`;
+}
+
+export function describeLeftoverSource(link: LeftoverLink): string {
+    return `leftover from ${link.day} ${link.type}`;
+}
+
+export function describeBatch(batch: BatchInfo): string {
+    return `cooked x${batch.servings}, the rest is ${batch.leftovers.map(l => `${l.day} ${l.type}`).join(' and ')}`;
+}
+
+/**
+ * How many portions of the meal are cooked at once
+ */
+export function getBatchServings(meal: BatchMeal): number {
+    return meal.batch?.servings || 1;
+}
+
+function isMealType(meal: BatchMeal, type: string): boolean {
+    return (meal.type || '').toLowerCase() === type;
+}
+
+// A copy rather than the same object, so scaling or repricing one meal leaves the other alone
+function makeLeftover<M extends BatchMeal>(source: M, sourceDay: string): M {
+    const copy: M = JSON.parse(JSON.stringify(source));
+    return {
+        ...copy,
+        type: LEFTOVER_SLOT,
+        prepTime: REHEAT_TIME,
+        instructions: [`Reheat the second portion of ${source.name} saved from ${sourceDay}'s dinner`],
+        batch: undefined,
+        leftoverFrom: { day: sourceDay, type: source.type || BATCH_SLOT, name: source.name }
+    };
+}
+
+/**
+ * Turn the target day's lunch into the leftovers of the source day's dinner.
+ * Returns false when either day is missing that meal.
+ */
+export function linkLeftover<M extends BatchMeal>(sourceDay: BatchDay<M>, targetDay: BatchDay<M>): boolean {
+    const dinner = sourceDay.meals.find(meal => isMealType(meal, BATCH_SLOT));
+    const lunchIndex = targetDay.meals.findIndex(meal => isMealType(meal, LEFTOVER_SLOT));
+    if (!dinner || lunchIndex === -1) return false;
+
+    targetDay.meals[lunchIndex] = makeLeftover(dinner, sourceDay.day);
+    dinner.batch = plannedBatch(targetDay.day);
+    return true;
+}
+
+/**
+ * Link every planned pair, then bring the batches in line with the links that were made
+ */
+export function linkLeftovers<M extends BatchMeal>(days: Array<BatchDay<M>>, pairs: LeftoverPair[]): void {
+    // Links made while the plan streamed are redone from the planned pairs
+    days.forEach(day => day.meals.forEach(meal => {
+        meal.leftoverFrom = undefined;
+    }));
+
+    for (const pair of pairs) {
+        const sourceDay = days.find(d => d.day === pair.sourceDay);
+        const targetDay = days.find(d => d.day === pair.targetDay);
+        if (sourceDay && targetDay) {
+            linkLeftover(sourceDay, targetDay);
+        }
+    }
+    syncLeftovers(days);
+}
+
+/**
+ * Keep leftovers matching their batch after meals are replaced or days regenerated.
+ * A replaced dinner passes its batch on to the new dish; a replaced leftover is cooked fresh,
+ * so its dinner goes back to a single portion.
+ */
+export function syncLeftovers<M extends BatchMeal>(days: Array<BatchDay<M>>): void {
+    const batches = new Map<M, BatchInfo>();
+
+    for (const day of days) {
+        day.meals.forEach((meal, index) => {
+            if (!meal.leftoverFrom) return;
+
+            const link = meal.leftoverFrom;
+            const source = days.find(d => d.day === link.day)?.meals.find(m => !m.leftoverFrom && isMealType(m, link.type));
+            if (!source) {
+                day.meals[index] = { ...meal, leftoverFrom: undefined };
+                return;
+            }
+
+            day.meals[index] = makeLeftover(source, link.day);
+            const batch = batches.get(source) || { servings: 1, leftovers: [] };
+            batches.set(source, { servings: batch.servings + 1, leftovers: [...batch.leftovers, { day: day.day, type: meal.type || LEFTOVER_SLOT }] });
+        });
+    }
+
+    for (const day of days) {
+        day.meals.forEach(meal => {
+            meal.batch = batches.get(meal);
+        });
+    }
+}
+
+/**
+ * Ingredient lines to buy for the meals: each batch once at its full size, leftovers not again
+ */
+export function getShoppingIngredients(meals: BatchMeal[]): string[] {
+    return meals.flatMap(meal => {
+        if (meal.leftoverFrom) return [];
+        const servings = getBatchServings(meal);
+        return (meal.ingredients || []).map(ingredient => servings > 1 ? scaleIngredient(ingredient, servings) : ingredient);
+    });
+}
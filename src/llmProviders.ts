@@ -0,0 +1,146 @@
+import { LanguageModel } from 'ai';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+
+// 'fixture' replays recorded responses (see fixtureProvider.ts) and is only selectable via --fixture
+export type LLMProviderId = 'openrouter' | 'openai-compatible' | 'fixture';
+
+// Concrete model instances; providers never hand back bare model id strings
+export type ProviderLanguageModel = Exclude<LanguageModel, string>;
+
+export interface LLMModelInfo {
+    name: string;
+    description: string;
+}
+
+export interface LLMProvider {
+    readonly id: LLMProviderId;
+    readonly name: string;
+    readonly models: LLMModelInfo[];
+    readonly defaultModel?: string;
+    validateModel(model: string): boolean;
+    createModel(model: string): ProviderLanguageModel;
+}
+
+export interface OpenRouterSettings {
+    apiKey: string;
+    appUrl?: string;
+    appTitle?: string;
+}
+
+export interface OpenAICompatibleSettings {
+    baseUrl: string;
+    apiKey?: string;
+    authHeader?: string; // Raw "Header-Name: value" for servers that don't use bearer tokens
+}
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderId = 'openrouter';
+
+export const LLM_PROVIDERS: Array<{ id: LLMProviderId; name: string; description: string }> = [
+    { id: 'openrouter', name: 'OpenRouter', description: 'Hosted models via openrouter.ai (API key required)' },
+    { id: 'openai-compatible', name: 'OpenAI-compatible', description: 'Self-hosted endpoint such as llama.cpp server, Ollama or vLLM' }
+];
+
+// OpenRouter models that support structured output well
+export const OPENROUTER_MODELS: LLMModelInfo[] = [
+    { name: 'x-ai/grok-4-fast', description: 'Grok-4 Fast (Fast, good quality, structured output)' }
+];
+
+export const DEFAULT_OPENROUTER_MODEL = 'x-ai/grok-4-fast';
+
+export class LLMProviderError extends Error {
+    constructor(message: string, public providerId?: LLMProviderId) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+}
+
+export function isLLMProviderId(value: string | undefined): value is LLMProviderId {
+    return LLM_PROVIDERS.some(p => p.id === value);
+}
+
+/**
+ * Parse a raw "Header-Name: value" string into a headers object
+ */
+export function parseAuthHeader(authHeader: string): Record<string, string> {
+    const separator = authHeader.indexOf(':');
+    if (separator <= 0) {
+        throw new LLMProviderError(`Invalid auth header "${authHeader}". Use the form "Header-Name: value".`, 'openai-compatible');
+    }
+
+    const name = authHeader.slice(0, separator).trim();
+    const value = authHeader.slice(separator + 1).trim();
+    if (!name || !value) {
+        throw new LLMProviderError(`Invalid auth header "${authHeader}". Use the form "Header-Name: value".`, 'openai-compatible');
+    }
+
+    return { [name]: value };
+}
+
+export class OpenRouterProvider implements LLMProvider {
+    readonly id = 'openrouter' as const;
+    readonly name = 'OpenRouter';
+    readonly models = OPENROUTER_MODELS;
+    readonly defaultModel = DEFAULT_OPENROUTER_MODEL;
+    private readonly openrouter: ReturnType<typeof createOpenRouter>;
+
+    constructor(settings: OpenRouterSettings) {
+        if (!settings.apiKey) {
+            throw new LLMProviderError('OpenRouter API key is required', this.id);
+        }
+
+        // Attribution headers let the app show up in OpenRouter analytics
+        this.openrouter = createOpenRouter({
+            apiKey: settings.apiKey,
+            headers: {
+                'HTTP-Referer': settings.appUrl || 'https://github.com/your-username/ai-fasting-planner',
+                'X-Title': settings.appTitle || 'AI Fasting Planner',
+            },
+        });
+    }
+
+    validateModel(model: string): boolean {
+        // Check if model is in our predefined list
+        if (this.models.some(m => m.name === model)) {
+            return true;
+        }
+
+        // Allow custom models that follow OpenRouter naming pattern (provider/model)
+        return /^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_.:-]+$/.test(model);
+    }
+
+    createModel(model: string): ProviderLanguageModel {
+        return this.openrouter(model);
+    }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly id = 'openai-compatible' as const;
+    readonly name = 'OpenAI-compatible';
+    readonly models: LLMModelInfo[] = [];
+    private readonly provider: ReturnType<typeof createOpenAICompatible>;
+
+    constructor(settings: OpenAICompatibleSettings) {
+        if (!settings.baseUrl) {
+            throw new LLMProviderError('A base URL is required for an OpenAI-compatible provider (e.g. http://localhost:11434/v1)', this.id);
+        }
+
+        this.provider = createOpenAICompatible({
+            name: 'openai-compatible',
+            baseURL: settings.baseUrl.replace(/\/+$/, ''),
+            apiKey: settings.apiKey || undefined,
+            headers: settings.authHeader ? parseAuthHeader(settings.authHeader) : undefined,
+            // llama.cpp server, Ollama and vLLM all accept json_schema response formats
+            supportsStructuredOutputs: true,
+        });
+    }
+
+    validateModel(model: string): boolean {
+        // Local servers use arbitrary names like "llama3.1:8b" or "Qwen/Qwen2.5-7B-Instruct"
+        return model.trim().length > 0 && !/\s/.test(model);
+    }
+
+    createModel(model: string): ProviderLanguageModel {
+        return this.provider.chatModel(model);
+    }
+}
@@ -0,0 +1,286 @@
+// The prep-day plan: the make-ahead steps (marinating, chopping, roasting vegetables, boiling eggs,
+// making sauces) picked out of every meal's instructions and merged into one timed session a week.
+// Steps that use the same equipment are done together, and the hands-off jobs start first so
+// they run while the knife work is done.
+// Works on the plain day/meal shape so it stays independent of the zod schema in index.ts.
+
+export type PrepEquipment = 'stovetop' | 'oven' | 'knife' | 'bowl' | 'blender';
+
+export interface PrepStep {
+    day: string;
+    meal: string;
+    mealType?: string;
+    instruction: string;
+    equipment: PrepEquipment;
+    activeMinutes: number;
+    // Time in the oven or pot once the step is started
+    handsOffMinutes: number;
+    // More than 1 for a batch cooked for later meals too
+    servings: number;
+}
+
+export interface TimedPrepStep extends PrepStep {
+    // Minutes from the start of the session
+    start: number;
+}
+
+export interface PrepGroup {
+    equipment: PrepEquipment;
+    label: string;
+    steps: TimedPrepStep[];
+}
+
+export interface PrepSession {
+    // The plan days the session preps for
+    days: string[];
+    groups: PrepGroup[];
+    mealCount: number;
+    activeMinutes: number;
+    totalMinutes: number;
+}
+
+interface PrepMeal {
+    name: string;
+    type?: string;
+    instructions?: string[];
+    batch?: { servings: number };
+    leftoverFrom?: unknown;
+}
+
+interface PrepDay {
+    day: string;
+    dayType?: string;
+    meals: PrepMeal[];
+}
+
+interface EquipmentGroup {
+    equipment: PrepEquipment;
+    temperature?: string;
+    steps: PrepStep[];
+}
+
+interface PrepRule {
+    equipment: PrepEquipment;
+    matches: (step: string) => boolean;
+    activeMinutes: number;
+    // Hands-off minutes when the step doesn't say; the stated time counts as hands-off for these
+    handsOffMinutes?: number;
+}
+
+// The session runs through the equipment in this order
+const EQUIPMENT_ORDER: PrepEquipment[] = ['stovetop', 'oven', 'knife', 'bowl', 'blender'];
+
+const EQUIPMENT_LABELS: Record<PrepEquipment, string> = {
+    stovetop: 'Stovetop',
+    oven: 'Oven',
+    knife: 'Knife & board',
+    bowl: 'Mixing bowl',
+    blender: 'Blender'
+};
+
+const VEGETABLES = /\b(?:vegetables?|veggies|broccoli|cauliflower|peppers?|zucchini|courgettes?|asparagus|brussels sprouts|squash|eggplant|aubergine|tomato(?:es)?|onions?|mushrooms?|green beans|cabbage|radish(?:es)?|fennel|kale)\b/i;
+const SAUCES = /\b(?:marinade|sauce|dressing|vinaigrette|pesto|salsa|aioli|mayo(?:nnaise)?|dip|rub|spice mix|seasoning mix|chimichurri|tzatziki|guacamole)\b/i;
+const AROMATICS = /\b(?:garlic|ginger|shallots?|herbs|parsley|cilantro|coriander|basil|mint|dill|chives|chil(?:l)?i(?:es|s)?|lemongrass|scallions?|spring onions?|green onions?|leeks?|celery)\b/i;
+const PROTEINS = /\b(?:chicken|beef|steaks?|pork|lamb|salmon|fish|tuna|cod|shrimp|prawns?|turkey|duck|sausages?|bacon|meatballs?|fillets?|thighs?|breasts?|tofu|eggs?)\b/i;
+const BLENDING = /\b(?:blend|pur[eé]e|food processor|blender)\b/i;
+// Finishing touches belong on the day the meal is eaten
+const SERVING = /\b(?:serve|serving|garnish|plate|reheat)\b/i;
+// So does anything done to food that is already cooked, or that goes straight into the pan
+const DAY_OF_COOKING = /\b(?:cooked|boiled|roasted|grilled|seared|baked|fried|rest|rested|resting)\b|\b(?:into|to) the (?:pan|skillet|wok|pot)\b/i;
+
+const PREP_RULES: PrepRule[] = [
+    {
+        equipment: 'stovetop',
+        matches: step => /\bboil\b/i.test(step) && /\beggs?\b/i.test(step),
+        activeMinutes: 2,
+        handsOffMinutes: 10
+    },
+    {
+        equipment: 'stovetop',
+        matches: step => /\b(?:cook|simmer|make|prepare)\b/i.test(step) && /\b(?:cauliflower rice|bone broth|broth|stock)\b/i.test(step),
+        activeMinutes: 5,
+        handsOffMinutes: 15
+    },
+    {
+        equipment: 'oven',
+        // A tray with the meat or fish on it is the meal itself, cooked on the day
+        matches: step => /\b(?:roast|bake)\b/i.test(step) && VEGETABLES.test(step) && !PROTEINS.test(step),
+        activeMinutes: 5,
+        handsOffMinutes: 25
+    },
+    {
+        equipment: 'bowl',
+        // Marinating carries on in the fridge until the meal is cooked
+        matches: step => /\bmarinat(?:e|ing)\b/i.test(step),
+        activeMinutes: 5
+    },
+    {
+        equipment: 'blender',
+        matches: step => BLENDING.test(step) && SAUCES.test(step),
+        activeMinutes: 5
+    },
+    {
+        equipment: 'bowl',
+        matches: step => /\b(?:whisk|mix|stir|combine|make|prepare)\b/i.test(step) && SAUCES.test(step),
+        activeMinutes: 5
+    },
+    {
+        equipment: 'knife',
+        // Raw vegetables and aromatics keep once cut; meat and fish are cut when they are cooked
+        matches: step => /\b(?:chop|dice|slice|mince|cube|julienne|shred|grate|trim|spiralize|peel|cut)\b/i.test(step)
+            && (VEGETABLES.test(step) || AROMATICS.test(step)) && !PROTEINS.test(step),
+        activeMinutes: 5
+    }
+];
+
+/**
+ * The minutes a step states ("for 20 minutes", "15-20 min", "1 hour"), taking the top of a range
+ */
+function parseStepMinutes(step: string): number | null {
+    const match = step.match(/(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(minutes?|mins?|hours?|hrs?)\b/i);
+    if (!match) return null;
+    const amount = Number(match[2] || match[1]);
+    return /^h/i.test(match[3]) ? amount * 60 : amount;
+}
+
+function classifyStep(instruction: string): Omit<PrepStep, 'day' | 'meal' | 'mealType' | 'servings'> | null {
+    if (SERVING.test(instruction) || DAY_OF_COOKING.test(instruction)) return null;
+
+    const rule = PREP_RULES.find(r => r.matches(instruction));
+    if (!rule) return null;
+
+    return {
+        instruction,
+        equipment: rule.equipment,
+        activeMinutes: rule.activeMinutes,
+        handsOffMinutes: rule.handsOffMinutes !== undefined ? parseStepMinutes(instruction) ?? rule.handsOffMinutes : 0
+    };
+}
+
+/**
+ * Every make-ahead step in the days' meals. Leftovers are skipped: their batch is prepped once.
+ */
+export function findPrepSteps(days: PrepDay[]): PrepStep[] {
+    return days.flatMap(day => day.meals
+        .filter(meal => !meal.leftoverFrom)
+        .flatMap(meal => (meal.instructions || []).flatMap(instruction => {
+            const step = classifyStep(instruction);
+            return step
+                ? [{ ...step, day: day.day, meal: meal.name, mealType: meal.type, servings: meal.batch?.servings || 1 }]
+                : [];
+        })));
+}
+
+function getOvenTemperature(step: PrepStep): string | undefined {
+    const match = step.instruction.match(/(\d{3})\s*°?\s*([CF])\b/i);
+    return match ? `${match[1]}°${match[2].toUpperCase()}` : undefined;
+}
+
+/**
+ * The steps split into equipment groups in session order. The oven holds one temperature at a time:
+ * the temperature most steps use goes in with the other hands-off jobs, any others after the prep work.
+ */
+function groupPrepSteps(steps: PrepStep[]): EquipmentGroup[] {
+    const ovenSteps = steps.filter(step => step.equipment === 'oven');
+    const temperatures = ovenSteps.map(getOvenTemperature).filter((t): t is string => t !== undefined);
+    const byUse = [...new Set(temperatures)].sort((a, b) =>
+        temperatures.filter(t => t === b).length - temperatures.filter(t => t === a).length);
+    // Steps that don't say go in with the main temperature
+    const ovenGroups: EquipmentGroup[] = byUse.length > 0
+        ? byUse.map(temperature => ({
+            equipment: 'oven',
+            temperature,
+            steps: ovenSteps.filter(step => (getOvenTemperature(step) || byUse[0]) === temperature)
+        }))
+        : [{ equipment: 'oven', steps: ovenSteps }];
+
+    const groups = EQUIPMENT_ORDER.flatMap<EquipmentGroup>(equipment => equipment === 'oven'
+        ? ovenGroups.slice(0, 1)
+        : [{ equipment, steps: steps.filter(step => step.equipment === equipment) }]);
+    return [...groups, ...ovenGroups.slice(1)].filter(group => group.steps.length > 0);
+}
+
+/**
+ * Put the steps in one session: grouped by equipment, each started once the work before it is done
+ * (and, for the oven, once it is free). The session lasts until the last hands-off job is finished.
+ */
+export function buildPrepSession(days: string[], steps: PrepStep[]): PrepSession {
+    let clock = 0;
+    let active = 0;
+    let finish = 0;
+    let ovenFree = 0;
+    const groups: PrepGroup[] = [];
+
+    for (const group of groupPrepSteps(steps)) {
+        if (group.equipment === 'oven') {
+            clock = Math.max(clock, ovenFree);
+        }
+
+        const timed = group.steps.map(step => {
+            const start = clock;
+            clock += step.activeMinutes;
+            active += step.activeMinutes;
+            const done = start + step.activeMinutes + step.handsOffMinutes;
+            finish = Math.max(finish, clock, done);
+            if (group.equipment === 'oven') {
+                ovenFree = Math.max(ovenFree, done);
+            }
+            return { ...step, start };
+        });
+        groups.push({
+            equipment: group.equipment,
+            label: group.temperature ? `${EQUIPMENT_LABELS[group.equipment]} (${group.temperature})` : EQUIPMENT_LABELS[group.equipment],
+            steps: timed
+        });
+    }
+
+    return {
+        days,
+        groups,
+        mealCount: new Set(steps.map(step => `${step.day}|${step.meal}`)).size,
+        activeMinutes: active,
+        totalMinutes: finish
+    };
+}
+
+/**
+ * One prep session for each week of the plan (a short plan is one part week), leaving out weeks with nothing to prep
+ */
+export function buildPrepSchedule(days: PrepDay[]): PrepSession[] {
+    const sessions: PrepSession[] = [];
+    for (let start = 0; start < days.length; start += 7) {
+        const weekDays = days.slice(start, start + 7);
+        const steps = findPrepSteps(weekDays.filter(day => day.dayType !== 'fasting'));
+        if (steps.length > 0) {
+            sessions.push(buildPrepSession(weekDays.map(day => day.day), steps));
+        }
+    }
+    return sessions;
+}
+
+/**
+ * Minutes from the start of the session as a clock reading: 0:05, 1:20
+ */
+export function formatPrepClock(minutes: number): string {
+    return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function formatPrepDuration(minutes: number): string {
+    if (minutes < 60) return `${minutes} min`;
+    const rest = minutes % 60;
+    return rest > 0 ? `${Math.floor(minutes / 60)} h ${rest} min` : `${minutes / 60} h`;
+}
+
+/**
+ * Which meal a step is for: "Beef Chili, Sunday dinner (x2 batch)"
+ */
+export function describePrepStepMeal(step: PrepStep): string {
+    const batch = step.servings > 1 ? ` (x${step.servings} batch)` : '';
+    return `${step.meal}, ${step.day}${step.mealType ? ` ${step.mealType}` : ''}${batch}`;
+}
+
+export function describePrepStepTiming(step: PrepStep): string {
+    return step.handsOffMinutes > 0
+        ? `${step.activeMinutes} min active, then ${step.handsOffMinutes} min hands-off`
+        : `${step.activeMinutes} min`;
+}
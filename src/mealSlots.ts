@@ -0,0 +1,138 @@
+// The daily meal structure: which slots (breakfast, lunch, dinner, snacks) every normal eating
+// day has, parsed from phrases like "2 meals + 1 snack" or "dinner only".
+// Works on the plain meal shape so it stays independent of the zod schema in index.ts.
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// Slots are always kept in the order they are eaten
+const SLOT_ORDER: MealSlot[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+
+// Which main meals "N meals" means
+const MAIN_MEALS_BY_COUNT: Record<number, MealSlot[]> = {
+    1: ['dinner'],
+    2: ['lunch', 'dinner'],
+    3: ['breakfast', 'lunch', 'dinner']
+};
+
+const MAX_SNACKS = 3;
+
+// Share of the day's calories for each snack; main meals split the rest evenly
+const SNACK_CALORIE_SHARE = 0.1;
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3 };
+
+function parseCount(word: string | undefined): number | null {
+    if (word === undefined) return 1;
+    if (NUMBER_WORDS[word] !== undefined) return NUMBER_WORDS[word];
+    return /^\d+$/.test(word) ? parseInt(word, 10) : null;
+}
+
+function sortSlots(slots: MealSlot[]): MealSlot[] {
+    return [...slots].sort((a, b) => SLOT_ORDER.indexOf(a) - SLOT_ORDER.indexOf(b));
+}
+
+/**
+ * Parse a meal structure: "3 meals", "2 meals + 1 snack", "dinner only", "omad",
+ * or a list of slots such as "breakfast, dinner, 2 snacks". Returns null when it can't be read.
+ */
+export function parseMealStructure(input: string): MealSlot[] | null {
+    const text = input.trim().toLowerCase().replace(/\s+only$/, '');
+    if (!text) return null;
+    if (text === 'omad' || text === 'one meal a day') return ['dinner'];
+
+    const slots: MealSlot[] = [];
+    for (const part of text.split(/\s*(?:,|\+|&|\band\b|\bplus\b)\s*/).filter(Boolean)) {
+        const match = part.match(/^(?:(\w+)\s+)?(meals?|snacks?|breakfasts?|lunch(?:es)?|dinners?)$/);
+        if (!match) return null;
+
+        const count = parseCount(match[1]);
+        if (count === null || count < 1) return null;
+
+        const word = match[2];
+        if (word.startsWith('meal')) {
+            const mains = MAIN_MEALS_BY_COUNT[count];
+            if (!mains) return null;
+            slots.push(...mains);
+        } else if (word.startsWith('snack')) {
+            slots.push(...Array<MealSlot>(count).fill('snack'));
+        } else {
+            if (count !== 1) return null;
+            slots.push(word.startsWith('breakfast') ? 'breakfast' : word.startsWith('lunch') ? 'lunch' : 'dinner');
+        }
+    }
+
+    // Each main meal once, and a handful of snacks at most
+    const mains = slots.filter(slot => slot !== 'snack');
+    if (new Set(mains).size !== mains.length || slots.length - mains.length > MAX_SNACKS) return null;
+    return sortSlots(slots);
+}
+
+/**
+ * The structure implied by a protocol's meal count (two meals for 16:8, dinner for OMAD)
+ */
+export function getDefaultMealStructure(mealsPerDay?: number): MealSlot[] | undefined {
+    return mealsPerDay ? MAIN_MEALS_BY_COUNT[mealsPerDay] : undefined;
+}
+
+/**
+ * Short description such as "2 meals + 1 snack (lunch, snack, dinner)"
+ */
+export function describeMealStructure(slots: MealSlot[]): string {
+    const mains = slots.filter(slot => slot !== 'snack').length;
+    const snacks = slots.length - mains;
+    const counts = [
+        mains > 0 ? `${mains} meal${mains === 1 ? '' : 's'}` : '',
+        snacks > 0 ? `${snacks} snack${snacks === 1 ? '' : 's'}` : ''
+    ].filter(Boolean).join(' + ');
+    return `${counts} (${slots.join(', ')})`;
+}
+
+/**
+ * Put a day's meals into the slots, in slot order. Meals the model typed go to their own
+ * slot; untyped ones fill whatever is left, in the order given. Returns null when the meals
+ * can't fill the slots exactly (too many, too few, or a type with no slot left).
+ */
+export function fitMealsToSlots<M extends { type?: string }>(meals: M[], slots: MealSlot[]): Array<M & { type: MealSlot }> | null {
+    if (meals.length !== slots.length) return null;
+
+    const filled: Array<M | undefined> = slots.map(() => undefined);
+    const untyped: M[] = [];
+    for (const meal of meals) {
+        const index = slots.findIndex((slot, i) => slot === meal.type && !filled[i]);
+        if (index !== -1) {
+            filled[index] = meal;
+        } else if (!meal.type) {
+            untyped.push(meal);
+        } else {
+            return null;
+        }
+    }
+
+    return slots.map((slot, i) => ({ ...(filled[i] || untyped.shift()!), type: slot }));
+}
+
+/**
+ * Why a day doesn't fit the slots, for repair messages
+ */
+export function describeSlotMismatch(meals: Array<{ type?: string }>, slots: MealSlot[]): string {
+    const got = meals.map(meal => meal.type || 'untyped').join(', ') || 'nothing';
+    return `expected ${slots.join(', ')}, got ${got}`;
+}
+
+/**
+ * Calories per slot for a day target: each snack gets a small share and the main meals split the rest
+ */
+export function splitCaloriesAcrossSlots(slots: MealSlot[], calories: number): number[] {
+    const snacks = slots.filter(slot => slot === 'snack').length;
+    const mains = slots.length - snacks;
+    const snackCalories = mains > 0 ? calories * SNACK_CALORIE_SHARE : calories / slots.length;
+    const mainCalories = mains > 0 ? (calories - snackCalories * snacks) / mains : 0;
+    return slots.map(slot => Math.round((slot === 'snack' ? snackCalories : mainCalories) / 10) * 10);
+}
+
+export function describeMealStructureForPrompt(slots: MealSlot[], dayCalories?: number): string {
+    const calories = dayCalories ? splitCaloriesAcrossSlots(slots, dayCalories) : [];
+    const list = slots.map((slot, i) => calories[i] ? `${slot} (about ${calories[i]} kcal)` : slot).join(', ');
+    const snackNote = slots.includes('snack') ? ' Snacks are small and need little or no cooking.' : '';
+    return `MEAL STRUCTURE: plan exactly ${slots.length} meal${slots.length === 1 ? '' : 's'} on each normal eating day, one per slot, in this order, with "type" set to the slot: ${list}.${snackNote}`;
+}
@@ -71,7 +71,8 @@ export class NutritionCalculator {
         'liters': { toGrams: 1000, type: 'volume' },
     };
 
-    constructor(private usdaApi: USDAAPIInterface) { }
+    // Without a USDA client the calculator still parses ingredients and converts amounts (used for cost estimates)
+    constructor(private usdaApi?: USDAAPIInterface) { }
 
     /**
      * Parse an ingredient string into quantity, unit, and ingredient name
@@ -319,6 +320,10 @@ export class NutritionCalculator {
                 console.log(`   Quantity to grams: ${parsedIngredient.quantity} ${parsedIngredient.unit} = ${grams}g`);
             }
 
+            if (!this.usdaApi) {
+                return this.createFallbackNutrition(parsedIngredient);
+            }
+
             // Search for the ingredient in USDA database
             const foodItem = await this.usdaApi.findBestMatch(parsedIngredient.ingredient);
 
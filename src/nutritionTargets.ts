@@ -0,0 +1,261 @@
+// Personal calorie and macro targets derived from the user profile.
+// BMR uses the Mifflin-St Jeor equation; TDEE applies the activity multiplier
+// for the activity choices offered in setup/generate.
+
+const KG_PER_LB = 0.45359237;
+const LB_PER_STONE = 14;
+const CM_PER_INCH = 2.54;
+const KCAL_PER_KG_FAT = 7700;
+const DAYS_PER_MONTH = 30.44;
+
+// Never plan a deficit steeper than this, whatever the target and timeframe ask for
+const MAX_DAILY_DEFICIT = 1000;
+const MAX_DEFICIT_FRACTION = 0.25;
+const MAX_DAILY_SURPLUS = 500;
+
+// Grams of protein per kg of target body weight when the diet sets no macro ratios;
+// enough to protect lean mass while cutting
+const PROTEIN_G_PER_KG = 1.6;
+
+export interface NutritionProfile {
+    sex: string;
+    age: string;
+    height: string;
+    currentWeight: string;
+    targetWeight: string;
+    timeframe: string;
+    activityLevel: string;
+    diet: string;
+    netCarbLimit?: number; // Overrides the diet's default allowance
+    macroRatios?: MacroRatios; // The diet profile's split of calories
+}
+
+// Shares of daily calories in percent
+export interface MacroRatios {
+    protein: number;
+    fat: number;
+    carbs: number;
+}
+
+export interface MacroTargets {
+    calories: number;
+    protein: number;
+    fat: number;
+    carbs: number;
+}
+
+// How a fasting protocol spreads the week's food
+export interface WeeklyPattern {
+    fastingDays: number;
+    reducedDays: number;
+    reducedCalories?: number;
+}
+
+export interface NutritionTargets extends MacroTargets {
+    method: 'mifflin-st-jeor';
+    bmr: number;
+    tdee: number;
+    activityMultiplier: number;
+    dailyDeficit: number; // Average over the week including fasting days; negative for a surplus
+    weeklyChangeKg: number; // Negative when losing weight
+    reducedDay?: MacroTargets;
+    warnings: string[];
+}
+
+const ACTIVITY_MULTIPLIERS: Array<{ prefix: string; multiplier: number }> = [
+    { prefix: 'sedentary', multiplier: 1.2 },
+    { prefix: 'lightly', multiplier: 1.375 },
+    { prefix: 'moderately', multiplier: 1.55 },
+    { prefix: 'very', multiplier: 1.725 },
+    { prefix: 'extra', multiplier: 1.9 }
+];
+
+/**
+ * Net carb allowance per day for the chosen diet
+ */
+export function getCarbLimit(diet: string): number {
+    return /keto/i.test(diet) ? 20 : 50;
+}
+
+/**
+ * Parse "200 lbs", "90 kg", "14 st 2 lb" and similar into kilograms
+ */
+export function parseWeightKg(input: string): number | null {
+    const text = input.trim().toLowerCase();
+
+    const stone = text.match(/^(\d+(?:\.\d+)?)\s*(?:st|stone)s?(?:\s*(\d+(?:\.\d+)?)\s*(?:lb|lbs|pounds?)?)?$/);
+    if (stone) {
+        const pounds = Number(stone[1]) * LB_PER_STONE + Number(stone[2] || 0);
+        return pounds * KG_PER_LB;
+    }
+
+    const match = text.match(/^(\d+(?:\.\d+)?)\s*(kg|kgs|kilos?|kilograms?|lb|lbs|pounds?)$/);
+    if (!match) return null;
+
+    const value = Number(match[1]);
+    return match[2].startsWith('k') ? value : value * KG_PER_LB;
+}
+
+/**
+ * Parse 5'10", 5 ft 10 in, 70 in, 178 cm or 1.78 m into centimetres
+ */
+export function parseHeightCm(input: string): number | null {
+    const text = input.trim().toLowerCase();
+
+    const feet = text.match(/^(\d+)\s*(?:'|ft|feet|foot)\s*(?:(\d+(?:\.\d+)?)\s*(?:"|''|in|inches?)?)?$/);
+    if (feet) {
+        return (Number(feet[1]) * 12 + Number(feet[2] || 0)) * CM_PER_INCH;
+    }
+
+    const match = text.match(/^(\d+(?:\.\d+)?)\s*(cm|m|in|inches|")$/);
+    if (!match) return null;
+
+    const value = Number(match[1]);
+    switch (match[2]) {
+        case 'cm': return value;
+        case 'm': return value * 100;
+        default: return value * CM_PER_INCH;
+    }
+}
+
+/**
+ * Parse "6 months", "12 weeks", "90 days" or "1 year" into days
+ */
+export function parseTimeframeDays(input: string): number | null {
+    const match = input.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(days?|weeks?|months?|years?)$/);
+    if (!match) return null;
+
+    const value = Number(match[1]);
+    const unit = match[2];
+    if (unit.startsWith('day')) return value;
+    if (unit.startsWith('week')) return value * 7;
+    if (unit.startsWith('month')) return value * DAYS_PER_MONTH;
+    return value * 365;
+}
+
+export function getActivityMultiplier(activityLevel: string): number | null {
+    const level = activityLevel.trim().toLowerCase();
+    return ACTIVITY_MULTIPLIERS.find(a => level.startsWith(a.prefix))?.multiplier ?? null;
+}
+
+/**
+ * Split a calorie budget into protein, carbs and (the rest as) fat
+ */
+function splitMacros(calories: number, protein: number, carbs: number): MacroTargets {
+    const fat = Math.max(0, (calories - protein * 4 - carbs * 4) / 9);
+    return {
+        calories: Math.round(calories),
+        protein: Math.round(protein),
+        fat: Math.round(fat),
+        carbs: Math.round(carbs)
+    };
+}
+
+/**
+ * Compute daily targets for an eating day, plus reduced-day targets when the protocol has them.
+ * The deficit is balanced over the week, so fasting and reduced days count towards it.
+ */
+export function computeNutritionTargets(
+    profile: NutritionProfile,
+    week: WeeklyPattern = { fastingDays: 0, reducedDays: 0 }
+): { targets?: NutritionTargets; error?: string } {
+    const weightKg = parseWeightKg(profile.currentWeight);
+    if (weightKg === null) return { error: `Could not read current weight "${profile.currentWeight}" (use e.g. "200 lbs" or "90 kg")` };
+
+    const targetKg = parseWeightKg(profile.targetWeight);
+    if (targetKg === null) return { error: `Could not read target weight "${profile.targetWeight}" (use e.g. "180 lbs" or "80 kg")` };
+
+    const heightCm = parseHeightCm(profile.height);
+    if (heightCm === null) return { error: `Could not read height "${profile.height}" (use e.g. 5'10" or 178 cm)` };
+
+    const age = parseInt(profile.age, 10);
+    if (isNaN(age) || age < 1 || age > 120) return { error: `Could not read age "${profile.age}"` };
+
+    const days = parseTimeframeDays(profile.timeframe);
+    if (!days) return { error: `Could not read timeframe "${profile.timeframe}" (use e.g. "6 months" or "12 weeks")` };
+
+    const activityMultiplier = getActivityMultiplier(profile.activityLevel);
+    if (activityMultiplier === null) return { error: `Unknown activity level "${profile.activityLevel}"` };
+
+    // Mifflin-St Jeor; "Other" uses the midpoint of the male and female constants
+    const sexConstant = /^m/i.test(profile.sex) ? 5 : /^f/i.test(profile.sex) ? -161 : -78;
+    const bmr = 10 * weightKg + 6.25 * heightCm - 5 * age + sexConstant;
+    const tdee = bmr * activityMultiplier;
+
+    const warnings: string[] = [];
+    const requestedDeficit = (weightKg - targetKg) * KCAL_PER_KG_FAT / days;
+    const maxDeficit = Math.min(MAX_DAILY_DEFICIT, tdee * MAX_DEFICIT_FRACTION);
+
+    let dailyDeficit = requestedDeficit;
+    if (requestedDeficit > maxDeficit) {
+        dailyDeficit = maxDeficit;
+        warnings.push(`Reaching ${profile.targetWeight} in ${profile.timeframe} needs a ${Math.round(requestedDeficit)} kcal/day deficit; capped at a safer ${Math.round(maxDeficit)} kcal/day.`);
+    } else if (-requestedDeficit > MAX_DAILY_SURPLUS) {
+        dailyDeficit = -MAX_DAILY_SURPLUS;
+        warnings.push(`Gaining to ${profile.targetWeight} in ${profile.timeframe} needs more than a ${MAX_DAILY_SURPLUS} kcal/day surplus; capped at ${MAX_DAILY_SURPLUS}.`);
+    }
+
+    // Spread the week's budget over the eating days
+    const reducedCalories = week.reducedCalories || 0;
+    const eatingDays = Math.max(1, 7 - week.fastingDays - week.reducedDays);
+    const weeklyBudget = 7 * (tdee - dailyDeficit);
+    let calories = (weeklyBudget - week.reducedDays * reducedCalories) / eatingDays;
+
+    if (calories > tdee && dailyDeficit >= 0) {
+        // Fasting days already create the deficit; don't plan eating days above maintenance
+        calories = tdee;
+    } else if (calories < bmr && dailyDeficit > 0) {
+        // Keep eating days at or above BMR so the deficit comes from fasting and activity, not starvation
+        warnings.push(`Eating-day calories raised to your BMR (${Math.round(bmr)} kcal); the target will take longer than ${profile.timeframe}.`);
+        calories = bmr;
+    }
+
+    const weeklyIntake = eatingDays * calories + week.reducedDays * reducedCalories;
+    dailyDeficit = (7 * tdee - weeklyIntake) / 7;
+
+    // With macro ratios, net carbs are the diet's share of calories up to the carb limit and fat takes the rest
+    const carbLimit = profile.netCarbLimit ?? getCarbLimit(profile.diet);
+    const ratios = profile.macroRatios;
+    const carbs = ratios ? Math.min(carbLimit, calories * ratios.carbs / 100 / 4) : carbLimit;
+    const protein = ratios ? calories * ratios.protein / 100 / 4 : targetKg * PROTEIN_G_PER_KG;
+    const macros = splitMacros(calories, protein, carbs);
+
+    // Reduced days keep the same carb ceiling and as much protein as the budget allows
+    let reducedDay: MacroTargets | undefined;
+    if (week.reducedDays > 0 && reducedCalories) {
+        const reducedProtein = Math.min(protein, reducedCalories * 0.4 / 4);
+        reducedDay = splitMacros(reducedCalories, reducedProtein, Math.min(carbs, reducedCalories * 0.05 / 4));
+    }
+
+    return {
+        targets: {
+            method: 'mifflin-st-jeor',
+            bmr: Math.round(bmr),
+            tdee: Math.round(tdee),
+            activityMultiplier,
+            dailyDeficit: Math.round(dailyDeficit),
+            weeklyChangeKg: Math.round(-dailyDeficit * 7 / KCAL_PER_KG_FAT * 100) / 100,
+            ...macros,
+            reducedDay,
+            warnings
+        }
+    };
+}
+
+/**
+ * Hard numbers for the prompt so the model sizes portions to the user, not to a generic adult
+ */
+export function describeTargetsForPrompt(targets: NutritionTargets): string {
+    let text = `NUTRITION TARGETS (hard limits, calculated from the user's profile): each eating day's meals must add up to about ${targets.calories} kcal (within 10%), with ${targets.protein}g protein, ${targets.fat}g fat and no more than ${targets.carbs}g net carbs. Size portions and ingredient quantities to hit these totals and make each meal's macros add up to them.`;
+    if (targets.reducedDay) {
+        text += ` Reduced-calorie days: about ${targets.reducedDay.calories} kcal total, ${targets.reducedDay.protein}g protein, ${targets.reducedDay.fat}g fat, at most ${targets.reducedDay.carbs}g net carbs.`;
+    }
+    return text;
+}
+
+export function formatWeeklyChange(targets: NutritionTargets): string {
+    const kg = Math.abs(targets.weeklyChangeKg);
+    const lbs = kg / KG_PER_LB;
+    const direction = targets.weeklyChangeKg < 0 ? 'loss' : targets.weeklyChangeKg > 0 ? 'gain' : 'change';
+    return `${kg.toFixed(2)} kg (${lbs.toFixed(1)} lbs) ${direction} per week`;
+}
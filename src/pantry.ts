@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// What the user already has at home, kept in ~/.ai-fasting-planner/pantry.json.
+// Generation prefers these items and the shopping list leaves them out.
+
+export interface PantryItem {
+    name: string;
+    quantity?: string;
+    addedAt: string;
+}
+
+export interface ShoppingSplit {
+    needed: string[];
+    covered: Array<{ ingredient: string; item: PantryItem }>;
+}
+
+export function getPantryPath(): string {
+    return path.join(os.homedir(), '.ai-fasting-planner', 'pantry.json');
+}
+
+/**
+ * Read the pantry; a missing file is an empty pantry, a broken one is an error
+ */
+export function loadPantry(pantryPath: string = getPantryPath()): PantryItem[] {
+    if (!fs.existsSync(pantryPath)) {
+        return [];
+    }
+
+    const data = JSON.parse(fs.readFileSync(pantryPath, 'utf8'));
+    if (!Array.isArray(data.items)) {
+        throw new Error(`${pantryPath} has no "items" list`);
+    }
+    return data.items.filter((item: PantryItem) => typeof item?.name === 'string' && item.name.trim());
+}
+
+export function savePantry(items: PantryItem[], pantryPath: string = getPantryPath()): void {
+    fs.mkdirSync(path.dirname(pantryPath), { recursive: true });
+    fs.writeFileSync(pantryPath, JSON.stringify({ items }, null, 2));
+}
+
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Split "6 eggs" or "500g beef mince" into an amount and the item; plain names have no amount
+ */
+export function parsePantryEntry(entry: string): { name: string; quantity?: string } {
+    const match = entry.trim().match(/^(\d+(?:[./]\d+)?\s*(?:g|kg|ml|l|oz|lb|lbs|cups?|tbsp|tsp|cans?|jars?|packs?)?)\s+(.+)$/i);
+    return match
+        ? { name: normalizeName(match[2]), quantity: match[1].replace(/\s+/g, '') }
+        : { name: normalizeName(entry) };
+}
+
+/**
+ * Add an item, or update its amount when it is already in the pantry
+ */
+export function addPantryItem(items: PantryItem[], entry: string): { items: PantryItem[]; item: PantryItem; updated: boolean } {
+    const { name, quantity } = parsePantryEntry(entry);
+    const addedAt = new Date().toISOString().slice(0, 10);
+    const existing = items.find(item => item.name === name);
+
+    if (existing) {
+        const item = { ...existing, quantity: quantity ?? existing.quantity, addedAt };
+        return { items: items.map(i => i === existing ? item : i), item, updated: true };
+    }
+    const item = { name, quantity, addedAt };
+    return { items: [...items, item], item, updated: false };
+}
+
+export function removePantryItem(items: PantryItem[], name: string): { items: PantryItem[]; removed: boolean } {
+    const target = parsePantryEntry(name).name;
+    const remaining = items.filter(item => item.name !== target);
+    return { items: remaining, removed: remaining.length < items.length };
+}
+
+export function formatPantryItem(item: PantryItem): string {
+    return item.quantity ? `${item.name} (${item.quantity})` : item.name;
+}
+
+// Words that can come before an item's name without making it a different food ("3 large eggs", "2 tbsp unsalted butter")
+const NAME_PREFIXES = new Set([
+    'a', 'an', 'of', 'about', 'g', 'kg', 'ml', 'l', 'oz', 'lb', 'lbs', 'cup', 'cups', 'tbsp', 'tsp', 'tablespoon', 'tablespoons',
+    'teaspoon', 'teaspoons', 'pinch', 'handful', 'bunch', 'can', 'cans', 'jar', 'jars', 'pack', 'packs', 'clove', 'cloves',
+    'slice', 'slices', 'piece', 'pieces', 'sprig', 'sprigs', 'stalk', 'stalks', 'head', 'heads', 'large', 'medium', 'small',
+    'fresh', 'frozen', 'ripe', 'raw', 'whole', 'boneless', 'skinless', 'bone-in', 'skin-on', 'lean', 'extra', 'virgin',
+    'extra-virgin', 'baby', 'ground', 'chopped', 'diced', 'sliced', 'minced', 'grated', 'shredded', 'crumbled', 'dried',
+    'canned', 'tinned', 'smoked', 'unsalted', 'salted', 'grass-fed', 'pasture-raised', 'free-range', 'wild', 'wild-caught',
+    'organic', 'full-fat', 'plain', 'softened', 'melted', 'cold', 'thick', 'thin'
+]);
+
+// Foods named after another food that comes first ("cream cheese" is not cream)
+const COMPOUND_NAMES = [
+    'cream cheese', 'butter lettuce', 'butter beans', 'chicken stock', 'chicken broth', 'beef stock', 'beef broth',
+    'bone broth', 'fish sauce', 'garlic powder', 'onion powder', 'tomato paste', 'egg noodles', 'almond flour',
+    'almond milk', 'almond butter', 'coconut milk', 'coconut cream', 'coconut oil', 'coconut flour', 'coconut aminos',
+    'peanut butter', 'sesame oil', 'soy sauce'
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Only an amount, a unit or a plain description comes before the name
+ */
+function isPlainPrefix(prefix: string): boolean {
+    return prefix.replace(/\([^)]*\)/g, ' ').split(/[\s,]+/).filter(Boolean)
+        .every(word => /^(?:\d+(?:[./]\d+)?|[½¼¾⅓⅔⅛])(?:-\d+)?[a-z]*$/.test(word) || NAME_PREFIXES.has(word));
+}
+
+/**
+ * The named item an ingredient line uses: its whole name with or without a plural, with no other
+ * food word in front ("eggs" covers "3 large eggs", "salmon fillet" covers "2 salmon fillets",
+ * but "butter" doesn't cover "peanut butter" and "cream" doesn't cover "cream cheese")
+ */
+export function findNamedItem<T extends { name: string }>(ingredient: string, items: T[]): T | undefined {
+    const text = ingredient.toLowerCase();
+    // Longer names first so "coconut milk" wins over "milk"
+    return [...items]
+        .sort((a, b) => b.name.length - a.name.length)
+        .find(item => {
+            const name = item.name.toLowerCase();
+            const base = name.replace(/(?<=[^s])s$/, '');
+            if (COMPOUND_NAMES.some(c => c !== name && c.startsWith(`${base} `) && text.includes(c))) return false;
+
+            return [...text.matchAll(new RegExp(`\\b${escapeRegExp(base)}(?:e?s)?\\b`, 'g'))]
+                .some(match => isPlainPrefix(text.slice(0, match.index)));
+        });
+}
+
+export function findPantryItem(ingredient: string, items: PantryItem[]): PantryItem | undefined {
+    return findNamedItem(ingredient, items);
+}
+
+/**
+ * Sort shopping list lines into what still has to be bought and what the pantry covers
+ */
+export function splitShoppingList(ingredients: string[], items: PantryItem[]): ShoppingSplit {
+    const split: ShoppingSplit = { needed: [], covered: [] };
+    for (const ingredient of ingredients) {
+        const item = findPantryItem(ingredient, items);
+        if (item) {
+            split.covered.push({ ingredient, item });
+        } else {
+            split.needed.push(ingredient);
+        }
+    }
+    return split;
+}
+
+export function describePantryForPrompt(items: PantryItem[]): string {
+    if (items.length === 0) return '';
+    return `PANTRY: the user already has ${items.map(formatPantryItem).join(', ')}. Build meals around these where they fit the plan and use them up before adding ingredients that have to be bought; never let them override the other rules.`;
+}
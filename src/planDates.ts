@@ -0,0 +1,55 @@
+// Calendar helpers for dated meal plans.
+// Dates are plain calendar days held as UTC-midnight Date objects so that
+// adding days never drifts across daylight-saving changes.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a strict YYYY-MM-DD string into a calendar date
+ */
+export function parseIsoDate(input: string): Date | null {
+    const match = input.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const date = new Date(Date.UTC(year, month - 1, day));
+
+    // Reject rollovers such as 2026-02-30
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+    return date;
+}
+
+export function formatIsoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Format a calendar date plus minutes after midnight as "YYYY-MM-DDTHH:MM"
+ */
+export function formatIsoDateTime(date: Date, minutes: number): string {
+    const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+    const mins = (minutes % 60).toString().padStart(2, '0');
+    return `${formatIsoDate(date)}T${hours}:${mins}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Today's local calendar date
+ */
+export function today(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+}
+
+/**
+ * The next date falling on the given weekday (0 = Sunday), counting today
+ */
+export function nextOccurrence(weekday: number, from: Date = today()): Date {
+    const offset = (weekday - from.getUTCDay() + 7) % 7;
+    return addDays(from, offset);
+}
@@ -0,0 +1,264 @@
+import { ScheduledDay, getMealDays } from './fastingProtocols';
+import { ExclusionRule, findExclusionViolations, describeViolation } from './exclusions';
+import { MealSlot, fitMealsToSlots, describeSlotMismatch } from './mealSlots';
+
+// Detection and bookkeeping for incomplete model responses.
+// Works on the plain day/meal shape so it stays independent of the zod schema in index.ts.
+
+export type PlanIssueKind =
+    | 'invalid-response'
+    | 'missing-day'
+    | 'empty-meals'
+    | 'wrong-meal-slots'
+    | 'missing-ingredients'
+    | 'missing-instructions'
+    | 'excluded-ingredient';
+
+export interface PlanIssue {
+    kind: PlanIssueKind;
+    day: string;
+    meal?: string;
+    detail?: string;
+}
+
+export interface RepairRecord extends PlanIssue {
+    repaired: boolean;
+}
+
+export interface RepairableMeal {
+    name: string;
+    type?: string;
+    ingredients?: string[];
+    instructions?: string[];
+}
+
+export interface RepairableDay {
+    day: string;
+    meals: RepairableMeal[];
+}
+
+export interface MealDetails {
+    day: string;
+    name: string;
+    ingredients: string[];
+    instructions: string[];
+}
+
+// Extra model calls allowed per plan chunk before giving up on a broken response
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Find the generated day for a scheduled day, matching the exact label first and
+ * falling back to the bare weekday, which is unique within a chunk of at most one week
+ */
+export function findScheduledDay<D extends { day: string }>(days: D[], scheduled: ScheduledDay): D | undefined {
+    return days.find(d => d.day.toLowerCase() === scheduled.day.toLowerCase())
+        || days.find(d => d.day.toLowerCase() === scheduled.weekday.toLowerCase());
+}
+
+function hasContent(items?: string[]): boolean {
+    return !!items && items.some(item => item.trim().length > 0);
+}
+
+/**
+ * List everything that keeps the generated days from being a usable plan for the schedule,
+ * including meals that use anything the user excluded and normal eating days that don't
+ * fill the configured meal slots
+ */
+export function findPlanIssues(
+    days: RepairableDay[],
+    schedule: ScheduledDay[],
+    exclusions: ExclusionRule[] = [],
+    mealSlots: MealSlot[] = []
+): PlanIssue[] {
+    const issues: PlanIssue[] = [];
+
+    for (const scheduled of getMealDays(schedule)) {
+        const dayData = findScheduledDay(days, scheduled);
+        if (!dayData) {
+            issues.push({ kind: 'missing-day', day: scheduled.day });
+            continue;
+        }
+        if (dayData.meals.length === 0) {
+            issues.push({ kind: 'empty-meals', day: scheduled.day });
+            continue;
+        }
+        if (mealSlots.length > 0 && scheduled.type === 'eating' && !fitMealsToSlots(dayData.meals, mealSlots)) {
+            issues.push({ kind: 'wrong-meal-slots', day: scheduled.day, detail: describeSlotMismatch(dayData.meals, mealSlots) });
+        }
+
+        for (const meal of dayData.meals) {
+            if (!hasContent(meal.ingredients)) {
+                issues.push({ kind: 'missing-ingredients', day: scheduled.day, meal: meal.name });
+            }
+            if (!hasContent(meal.instructions)) {
+                issues.push({ kind: 'missing-instructions', day: scheduled.day, meal: meal.name });
+            }
+
+            const violations = findExclusionViolations(meal, exclusions);
+            if (violations.length > 0) {
+                issues.push({ kind: 'excluded-ingredient', day: scheduled.day, meal: meal.name, detail: violations.map(describeViolation).join(', ') });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Scheduled days that have to be generated again from scratch; a day with an excluded
+ * ingredient or the wrong meals for its slots is regenerated whole so its other meals can
+ * be rebalanced around the change
+ */
+export function getDaysNeedingRegeneration(issues: PlanIssue[], schedule: ScheduledDay[]): ScheduledDay[] {
+    const labels = new Set(issues
+        .filter(issue => issue.kind === 'missing-day' || issue.kind === 'empty-meals' || issue.kind === 'wrong-meal-slots' || issue.kind === 'excluded-ingredient')
+        .map(issue => issue.day));
+    return schedule.filter(d => labels.has(d.day));
+}
+
+/**
+ * Tell the model which dishes were rejected and why, so the regenerated days avoid the same foods
+ */
+export function describeRejectedMeals(issues: PlanIssue[]): string {
+    const rejected = issues.filter(issue => issue.kind === 'excluded-ingredient');
+    if (rejected.length === 0) return '';
+
+    const list = rejected.map(issue => `${issue.day} "${issue.meal}": ${issue.detail}`).join('; ');
+    return `These dishes were rejected because they use excluded foods: ${list}. Do not use those foods in any form.`;
+}
+
+/**
+ * Remove meals that still use excluded foods once the repair budget is spent.
+ * Returns the issues for the meals that were removed.
+ */
+export function dropExcludedMeals(days: RepairableDay[], issues: PlanIssue[], schedule: ScheduledDay[]): PlanIssue[] {
+    const rejected = issues.filter(issue => issue.kind === 'excluded-ingredient');
+    for (const issue of rejected) {
+        const scheduled = schedule.find(d => d.day === issue.day);
+        const day = scheduled && findScheduledDay(days, scheduled);
+        if (day) {
+            day.meals = day.meals.filter(meal => meal.name !== issue.meal);
+        }
+    }
+    return rejected;
+}
+
+/**
+ * Meals that exist but lack ingredients or instructions, one entry per meal
+ */
+export function getMealsNeedingDetails(issues: PlanIssue[]): Array<{ day: string; meal: string }> {
+    const meals = new Map<string, { day: string; meal: string }>();
+    for (const issue of issues) {
+        if ((issue.kind === 'missing-ingredients' || issue.kind === 'missing-instructions') && issue.meal !== undefined) {
+            meals.set(`${issue.day}|${issue.meal}`, { day: issue.day, meal: issue.meal });
+        }
+    }
+    return [...meals.values()];
+}
+
+/**
+ * Ask for the missing recipes under the same diet rules and exclusions as the plan itself
+ */
+export function describeMealDetailRequest(meals: Array<{ day: string; meal: string }>, rules: string[] = []): string {
+    const list = meals.map((m, index) => `${index + 1}. ${m.day}: ${m.meal}`).join('\n');
+    const request = `The following dishes from a meal plan are missing their recipes. For each dish, return the exact day label and dish name as given, a complete ingredient list with quantities (e.g. "200g salmon fillet"), and numbered step-by-step cooking instructions. Keep each dish home-cooked and under 30 minutes prep time${rules.some(Boolean) ? ', and follow the rules below' : ''}.
+
+${list}`;
+    return [request, ...rules].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Order each normal eating day's meals by slot and set their types, for days that fit the slots
+ */
+export function arrangeMealSlots(days: RepairableDay[], schedule: ScheduledDay[], mealSlots: MealSlot[]): void {
+    if (mealSlots.length === 0) return;
+
+    for (const scheduled of schedule.filter(d => d.type === 'eating')) {
+        const day = findScheduledDay(days, scheduled);
+        const arranged = day && fitMealsToSlots(day.meals, mealSlots);
+        if (day && arranged) {
+            day.meals = arranged;
+        }
+    }
+}
+
+/**
+ * Replace (or add) regenerated days in the generated days, keyed by the schedule label
+ */
+export function mergeRegeneratedDays<D extends RepairableDay>(days: D[], regenerated: D[], scheduledDays: ScheduledDay[]): D[] {
+    const merged = [...days];
+    for (const scheduled of scheduledDays) {
+        const replacement = findScheduledDay(regenerated, scheduled);
+        if (!replacement || replacement.meals.length === 0) continue;
+
+        const existing = findScheduledDay(merged, scheduled);
+        const updated = { ...replacement, day: scheduled.day };
+        if (existing) {
+            merged[merged.indexOf(existing)] = updated;
+        } else {
+            merged.push(updated);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Fill in missing ingredients/instructions without touching anything the model already returned
+ */
+export function mergeMealDetails(days: RepairableDay[], details: MealDetails[], schedule: ScheduledDay[]): void {
+    for (const detail of details) {
+        // Details come back under the schedule label, which the generated day may only match by weekday
+        const scheduled = schedule.find(d => d.day.toLowerCase() === detail.day.toLowerCase());
+        const day = scheduled
+            ? findScheduledDay(days, scheduled)
+            : days.find(d => d.day.toLowerCase() === detail.day.toLowerCase());
+        const meal = day?.meals.find(m => m.name.toLowerCase() === detail.name.toLowerCase());
+        if (!meal) continue;
+
+        if (!hasContent(meal.ingredients) && hasContent(detail.ingredients)) {
+            meal.ingredients = detail.ingredients;
+        }
+        if (!hasContent(meal.instructions) && hasContent(detail.instructions)) {
+            meal.instructions = detail.instructions;
+        }
+    }
+}
+
+function issueKey(issue: PlanIssue): string {
+    return `${issue.kind}|${issue.day}|${issue.meal ?? ''}`;
+}
+
+/**
+ * Compare the issues found before and after repair. Anything new that appeared in
+ * regenerated days is reported as unrepaired too.
+ */
+export function buildRepairRecords(initial: PlanIssue[], remaining: PlanIssue[]): RepairRecord[] {
+    const remainingKeys = new Set(remaining.map(issueKey));
+    const initialKeys = new Set(initial.map(issueKey));
+
+    return [
+        ...initial.map(issue => ({ ...issue, repaired: !remainingKeys.has(issueKey(issue)) })),
+        ...remaining.filter(issue => !initialKeys.has(issueKey(issue))).map(issue => ({ ...issue, repaired: false }))
+    ];
+}
+
+export function describeIssue(issue: PlanIssue): string {
+    const subject = issue.meal ? `${issue.day} "${issue.meal}"` : issue.day;
+    switch (issue.kind) {
+        case 'invalid-response':
+            return `${subject}: response did not match the meal plan format`;
+        case 'missing-day':
+            return `${subject}: missing from the response`;
+        case 'empty-meals':
+            return `${subject}: no meals returned`;
+        case 'wrong-meal-slots':
+            return `${subject}: meals don't match the meal structure (${issue.detail})`;
+        case 'missing-ingredients':
+            return `${subject}: missing ingredients`;
+        case 'missing-instructions':
+            return `${subject}: missing instructions`;
+        case 'excluded-ingredient':
+            return `${subject}: contains ${issue.detail}`;
+    }
+}
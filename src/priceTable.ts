@@ -0,0 +1,307 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ParsedIngredient } from './nutritionCalculator';
+import { findNamedItem } from './pantry';
+
+// Ingredient prices for cost estimates: the user's own table in ~/.ai-fasting-planner/prices.json,
+// or the bundled ingredient-prices.json until they make one. A table has one currency, and each
+// price is per weight (g, 100g, kg, oz, lb), volume (ml, l) or piece (each, dozen).
+// Works on the plain day/meal shape so it stays independent of the zod schema in index.ts.
+
+export interface PriceEntry {
+    name: string;
+    price: number;
+    per: string;
+    // Weight of one piece, so "2 chicken breasts" can be priced per kg and "300g eggs" per egg
+    itemGrams?: number;
+}
+
+export interface PriceTable {
+    currency: string;
+    items: PriceEntry[];
+}
+
+export interface LoadedPriceTable {
+    table: PriceTable;
+    path: string;
+    source: 'user' | 'built-in';
+}
+
+// The parts of NutritionCalculator that turn an ingredient line into an amount
+export interface IngredientParser {
+    parseIngredient(ingredientText: string): ParsedIngredient;
+    quantityToGrams(quantity: number, unit: string, ingredient: string): number;
+}
+
+export interface MealCost {
+    amount: number;
+    currency: string;
+    // Ingredient lines with no price, or an amount that can't be converted to the price's unit
+    unpriced: string[];
+}
+
+export interface Budget {
+    amount: number;
+    per: 'day' | 'week';
+}
+
+export interface WeekCost {
+    days: string[];
+    total: number;
+    limit?: number;
+    overBudget: boolean;
+}
+
+export interface PlanCost {
+    currency: string;
+    total: number;
+    averagePerDay: number;
+    weeks: WeekCost[];
+    unpricedIngredients: number;
+}
+
+interface CostedDay {
+    day: string;
+    meals: Array<{ name: string; ingredients?: string[]; cost?: MealCost }>;
+}
+
+// What one price unit is in grams (ml count as grams) or pieces
+const PRICE_UNITS: Record<string, { grams?: number; pieces?: number }> = {
+    'g': { grams: 1 },
+    '100g': { grams: 100 },
+    'kg': { grams: 1000 },
+    'oz': { grams: 28.35 },
+    'lb': { grams: 453.59 },
+    'ml': { grams: 1 },
+    'l': { grams: 1000 },
+    'each': { pieces: 1 },
+    'dozen': { pieces: 12 }
+};
+
+export const PRICE_UNIT_NAMES = Object.keys(PRICE_UNITS);
+
+// Meals replaced per week over budget before the rest is left to the user
+export const MAX_BUDGET_SWAPS_PER_WEEK = 3;
+
+export function getPricesPath(): string {
+    return path.join(os.homedir(), '.ai-fasting-planner', 'prices.json');
+}
+
+/**
+ * The bundled table sits next to the sources in development and is copied into dist/ on build
+ */
+export function getBuiltInPricesPath(): string | undefined {
+    const possiblePaths = [
+        path.join(__dirname, '../ingredient-prices.json'), // From source (dev)
+        path.join(__dirname, 'ingredient-prices.json')     // From dist (installed)
+    ];
+    return possiblePaths.find(file => fs.existsSync(file));
+}
+
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Read and check a price table file; a broken entry is an error rather than a silent gap in the costs
+ */
+export function readPriceTable(filePath: string): PriceTable {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (typeof data.currency !== 'string' || !data.currency.trim()) {
+        throw new Error(`${filePath} has no "currency"`);
+    }
+    if (!Array.isArray(data.items)) {
+        throw new Error(`${filePath} has no "items" list`);
+    }
+
+    const items = data.items.map((entry: PriceEntry, index: number) => {
+        if (typeof entry?.name !== 'string' || !entry.name.trim()) {
+            throw new Error(`item ${index + 1} in ${filePath} has no name`);
+        }
+        if (typeof entry.price !== 'number' || entry.price < 0) {
+            throw new Error(`"${entry.name}" in ${filePath} needs a price of 0 or more`);
+        }
+        if (!PRICE_UNITS[entry.per]) {
+            throw new Error(`"${entry.name}" in ${filePath} is priced per "${entry.per}" (use ${PRICE_UNIT_NAMES.join(', ')})`);
+        }
+        return { ...entry, name: normalizeName(entry.name) };
+    });
+    return { currency: data.currency.trim(), items };
+}
+
+/**
+ * The user's table when there is one, otherwise the bundled one. Returns undefined when neither exists.
+ */
+export function loadPriceTable(userPath: string = getPricesPath()): LoadedPriceTable | undefined {
+    if (fs.existsSync(userPath)) {
+        return { table: readPriceTable(userPath), path: userPath, source: 'user' };
+    }
+
+    const builtInPath = getBuiltInPricesPath();
+    return builtInPath ? { table: readPriceTable(builtInPath), path: builtInPath, source: 'built-in' } : undefined;
+}
+
+export function savePriceTable(table: PriceTable, filePath: string = getPricesPath()): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(table, null, 2));
+}
+
+/**
+ * Read "11.50/kg", "11.50 per kg" or "0.35 each". Returns null for anything else.
+ */
+export function parsePrice(input: string): { price: number; per: string } | null {
+    const match = input.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(?:\/|per\s+|\s)\s*(\S+)$/);
+    if (!match || !PRICE_UNITS[match[2]]) return null;
+    return { price: Number(match[1]), per: match[2] };
+}
+
+/**
+ * Add a price, or replace the one already set for that name
+ */
+export function setPrice(table: PriceTable, entry: PriceEntry): { table: PriceTable; entry: PriceEntry; updated: boolean } {
+    const priced = { ...entry, name: normalizeName(entry.name) };
+    const updated = table.items.some(item => item.name === priced.name);
+    const items = updated
+        ? table.items.map(item => item.name === priced.name ? priced : item)
+        : [...table.items, priced];
+    return { table: { ...table, items }, entry: priced, updated };
+}
+
+export function removePrice(table: PriceTable, name: string): { table: PriceTable; removed: boolean } {
+    const target = normalizeName(name);
+    const items = table.items.filter(item => item.name !== target);
+    return { table: { ...table, items }, removed: items.length < table.items.length };
+}
+
+/**
+ * Money in the table's currency: ISO codes get the locale's formatting, anything else is appended
+ */
+export function formatMoney(amount: number, currency: string): string {
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch {
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+}
+
+export function formatPriceEntry(entry: PriceEntry, currency: string): string {
+    const price = `${formatMoney(entry.price, currency)}/${entry.per}`;
+    return entry.itemGrams ? `${entry.name}: ${price} (one is about ${entry.itemGrams}g)` : `${entry.name}: ${price}`;
+}
+
+/**
+ * Cost of one ingredient line, or null when it has no price or its amount can't be converted.
+ * "To taste" amounts cost nothing.
+ */
+export function priceIngredient(ingredient: string, table: PriceTable, parser: IngredientParser): number | null {
+    const parsed = parser.parseIngredient(ingredient);
+    if (parsed.quantity === 0) return 0;
+
+    const entry = findNamedItem(ingredient, table.items);
+    if (!entry) return null;
+
+    const unit = PRICE_UNITS[entry.per];
+    const counted = parsed.unit === 'unit';
+
+    if (unit.pieces) {
+        if (counted) return parsed.quantity / unit.pieces * entry.price;
+        if (!entry.itemGrams) return null;
+        const grams = parser.quantityToGrams(parsed.quantity, parsed.unit, parsed.ingredient);
+        return grams / entry.itemGrams / unit.pieces * entry.price;
+    }
+
+    // A count of something sold by weight needs to know what one weighs
+    if (counted && !entry.itemGrams) return null;
+    const grams = counted
+        ? parsed.quantity * entry.itemGrams!
+        : parser.quantityToGrams(parsed.quantity, parsed.unit, parsed.ingredient);
+    return grams / unit.grams! * entry.price;
+}
+
+function roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Cost of a meal's ingredients, times the portions cooked (a household cooks the same dish several times over)
+ */
+export function priceMeal(ingredients: string[], table: PriceTable, parser: IngredientParser, portions: number = 1): MealCost {
+    let amount = 0;
+    const unpriced: string[] = [];
+    for (const ingredient of ingredients) {
+        const cost = priceIngredient(ingredient, table, parser);
+        if (cost === null) {
+            unpriced.push(ingredient);
+        } else {
+            amount += cost;
+        }
+    }
+    return { amount: roundMoney(amount * portions), currency: table.currency, unpriced };
+}
+
+export function getDayCost(day: CostedDay): number {
+    return roundMoney(day.meals.reduce((sum, meal) => sum + (meal.cost?.amount || 0), 0));
+}
+
+/**
+ * Read "80" (a week), "80/week" or "12/day". Returns null for anything else.
+ */
+export function parseBudget(input: string | number): Budget | null {
+    const match = String(input).trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(?:(?:\/|per\s+|a\s+)\s*(day|week))?$/);
+    if (!match || Number(match[1]) <= 0) return null;
+    return { amount: Number(match[1]), per: (match[2] as Budget['per']) || 'week' };
+}
+
+export function describeBudget(budget: Budget, currency: string): string {
+    return `${formatMoney(budget.amount, currency)} per ${budget.per}`;
+}
+
+/**
+ * Totals for the whole plan and for each week of it (a short plan is one part week).
+ * With a budget, each week is held to the budget for the days it covers.
+ */
+export function summarizePlanCost(days: CostedDay[], currency: string, budget?: Budget): PlanCost {
+    const dailyBudget = budget ? (budget.per === 'day' ? budget.amount : budget.amount / 7) : undefined;
+
+    const weeks: WeekCost[] = [];
+    for (let start = 0; start < days.length; start += 7) {
+        const weekDays = days.slice(start, start + 7);
+        const total = roundMoney(weekDays.reduce((sum, day) => sum + getDayCost(day), 0));
+        const limit = dailyBudget !== undefined ? roundMoney(dailyBudget * weekDays.length) : undefined;
+        weeks.push({ days: weekDays.map(d => d.day), total, limit, overBudget: limit !== undefined && total > limit });
+    }
+
+    const total = roundMoney(weeks.reduce((sum, week) => sum + week.total, 0));
+    return {
+        currency,
+        total,
+        averagePerDay: days.length > 0 ? roundMoney(total / days.length) : 0,
+        weeks,
+        unpricedIngredients: days.reduce((sum, day) =>
+            sum + day.meals.reduce((count, meal) => count + (meal.cost?.unpriced.length || 0), 0), 0)
+    };
+}
+
+/**
+ * The priciest meals in the given days, most expensive first
+ */
+export function findMostExpensiveMeals(days: CostedDay[]): Array<{ day: string; mealIndex: number; amount: number }> {
+    return days
+        .flatMap(day => day.meals.map((meal, mealIndex) => ({ day: day.day, mealIndex, amount: meal.cost?.amount || 0 })))
+        .filter(meal => meal.amount > 0)
+        .sort((a, b) => b.amount - a.amount);
+}
+
+export function describeBudgetForPrompt(budget: Budget, currency: string): string {
+    return `BUDGET: the user's food budget is ${describeBudget(budget, currency)}. Favour affordable ingredients (cheaper cuts, eggs, seasonal vegetables, pantry staples) and keep premium ones such as steak, seafood and specialty products to occasional meals.`;
+}
+
+/**
+ * Why a meal is being replaced, and what the replacement may cost
+ */
+export function describeBudgetFixForPrompt(mealCost: number, week: WeekCost, currency: string): string {
+    const overBy = week.total - (week.limit || 0);
+    const target = Math.max(mealCost - overBy, mealCost * 0.5);
+    return `BUDGET: this meal costs about ${formatMoney(mealCost, currency)} at the user's prices, and its week is ${formatMoney(overBy, currency)} over the ${formatMoney(week.limit || 0, currency)} budget. The replacement must cost under ${formatMoney(target, currency)}: use cheaper proteins and cuts, seasonal vegetables and pantry staples, and fewer premium ingredients.`;
+}
@@ -0,0 +1,326 @@
+// Prompt templates for config files. Tags use the ${...} form the first templates were written in:
+//   ${profile.age}                       a value; arrays are joined with ", "
+//   ${patterns.proteins | label}         filters: label (red_meat -> red meat), lower, upper, count
+//   ${#if targets.calories}...${#else}...${/if}
+//   ${#if profile.diet == "Keto"}...${/if}   also "!=" and "not <path>"
+//   ${#each patterns.proteins as category, items}...${/each}
+//   ${> personal-details}                a shared fragment
+// Templates are checked against the context before anything is sent to the model.
+
+export class PromptTemplateError extends Error {
+    constructor(message: string, public problems: string[] = [message]) {
+        super(message);
+        this.name = 'PromptTemplateError';
+    }
+}
+
+export type TemplateContext = Record<string, unknown>;
+
+// Looks up a fragment for ${> name}; undefined when there is none
+export type IncludeResolver = (name: string) => string | undefined;
+
+export interface TemplateCheck {
+    problems: string[];
+    // Top-level variables the template and its fragments use, e.g. "profile", "recipePlan"
+    variables: Set<string>;
+}
+
+interface Condition {
+    path: string[];
+    negate: boolean;
+    equals?: string;
+}
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'value'; path: string[]; filters: string[]; line: number }
+    | { kind: 'if'; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+    | { kind: 'each'; path: string[]; names: string[]; body: TemplateNode[]; line: number }
+    | { kind: 'include'; name: string; line: number };
+
+type BlockNode = Extract<TemplateNode, { kind: 'if' | 'each' }>;
+
+const TAG_PATTERN = /\$\{([^}]*)\}/g;
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/;
+const NAME_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const MAX_INCLUDE_DEPTH = 10;
+
+const FILTERS: Record<string, (value: unknown) => unknown> = {
+    label: value => formatValue(value).replace(/_/g, ' '),
+    lower: value => formatValue(value).toLowerCase(),
+    upper: value => formatValue(value).toUpperCase(),
+    count: value => Array.isArray(value) ? value.length
+        : value && typeof value === 'object' ? Object.keys(value).length
+            : value === undefined || value === null || value === '' ? 0 : 1
+};
+
+// Fragments every template can include; a config file's own "fragments" take precedence
+export const BUILT_IN_FRAGMENTS: Record<string, string> = {
+    'personal-details': 'Tailor the portions and ingredients for: ${profile.sex}, age ${profile.age}, height ${profile.height}, current weight ${profile.currentWeight}, target weight ${profile.targetWeight} in ${profile.timeframe}, activity level: ${profile.activityLevel}.',
+    'meal-format': 'Format as: 1. ${plan.days.0}: [Meal Name] - Ingredients: [...] - Instructions: [...] - Macros: [...], 2. ${#if plan.days.1}${plan.days.1}${#else}${plan.days.0}${/if}: [continue pattern]',
+    'dynamic-variety': `Create a highly varied \${plan.dayCount}-day keto meal plan using diverse recipe patterns to ensure no repeated ingredients or cooking methods. \${plan.protocolText}
+
+CRITICAL VARIETY REQUIREMENTS:
+1) Use different protein categories each day (\${patterns.proteins | label}), following the recipe plan below
+2) Vary cooking methods (\${patterns.cooking_methods | label})
+3) Change seasoning profiles daily (\${patterns.seasonings | label})
+4) Rotate through different vegetable families and meal types
+
+For each day, combine one protein from a different category, one unique cooking method, fresh vegetables from un-used families, and a distinct seasoning approach. Create original keto dishes that feel creative and varied.
+
+\${> personal-details}
+
+Format: 1. \${plan.days.0}: [Creative Dish Name] - Protein: [category] - Method: [technique] - Signature flavors: [profile] - Macros: [...], 2. \${#if plan.days.1}\${plan.days.1}\${#else}\${plan.days.0}\${/if}: [continue with different combinations]
+
+\${recipePlan}`
+};
+
+function lineAt(source: string, index: number): number {
+    return source.slice(0, index).split('\n').length;
+}
+
+function parsePath(text: string, line: number): string[] {
+    if (!PATH_PATTERN.test(text)) {
+        throw new PromptTemplateError(`line ${line}: "${text}" is not a variable name`);
+    }
+    return text.split('.');
+}
+
+function parseCondition(text: string, line: number): Condition {
+    const match = text.match(/^(not\s+)?([\w$.]+)(?:\s*(==|!=)\s*"([^"]*)")?$/);
+    if (!match) {
+        throw new PromptTemplateError(`line ${line}: cannot read the condition "${text}" (use a variable, "not <variable>" or <variable> == "text")`);
+    }
+    const [, not, path, operator, equals] = match;
+    return { path: parsePath(path, line), negate: Boolean(not) !== (operator === '!='), equals };
+}
+
+/**
+ * Turn template text into a tree of text, values, conditionals, loops and includes
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+    const target = (): TemplateNode[] => {
+        const top = stack[stack.length - 1];
+        if (!top) return root;
+        if (top.node.kind === 'each') return top.node.body;
+        return top.inElse ? top.node.otherwise : top.node.then;
+    };
+
+    let last = 0;
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        const index = match.index ?? 0;
+        const line = lineAt(source, index);
+        const tag = match[1].trim();
+        if (index > last) target().push({ kind: 'text', text: source.slice(last, index) });
+        last = index + match[0].length;
+
+        if (tag.startsWith('#if ')) {
+            const node: BlockNode = { kind: 'if', condition: parseCondition(tag.slice(4).trim(), line), then: [], otherwise: [], line };
+            target().push(node);
+            stack.push({ node, inElse: false });
+        } else if (tag === '#else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.node.kind !== 'if' || top.inElse) {
+                throw new PromptTemplateError(`line ${line}: \${#else} outside an \${#if}`);
+            }
+            top.inElse = true;
+        } else if (tag.startsWith('#each ')) {
+            const each = tag.slice(6).match(/^([\w$.]+)\s+as\s+([\w$]+)(?:\s*,\s*([\w$]+))?$/);
+            if (!each) {
+                throw new PromptTemplateError(`line ${line}: write loops as \${#each <variable> as <name>} or \${#each <variable> as <key>, <value>}`);
+            }
+            const node: BlockNode = { kind: 'each', path: parsePath(each[1], line), names: [each[2], each[3]].filter(Boolean), body: [], line };
+            target().push(node);
+            stack.push({ node, inElse: false });
+        } else if (tag === '/if' || tag === '/each') {
+            const top = stack.pop();
+            if (!top || `/${top.node.kind}` !== tag) {
+                throw new PromptTemplateError(`line ${line}: \${${tag}} does not close an open \${#${tag.slice(1)}}`);
+            }
+        } else if (tag.startsWith('>')) {
+            const name = tag.slice(1).trim();
+            if (!name) throw new PromptTemplateError(`line ${line}: \${>} needs a fragment name`);
+            target().push({ kind: 'include', name, line });
+        } else {
+            const [pathText, ...filters] = tag.split('|').map(part => part.trim());
+            target().push({ kind: 'value', path: parsePath(pathText, line), filters, line });
+        }
+    }
+
+    if (last < source.length) target().push({ kind: 'text', text: source.slice(last) });
+
+    const open = stack.pop();
+    if (open) {
+        throw new PromptTemplateError(`line ${open.node.line}: \${#${open.node.kind}} is never closed with \${/${open.node.kind}}`);
+    }
+    return root;
+}
+
+/**
+ * Render a value for the prompt: nothing for missing values, lists joined with commas,
+ * and the names of an object's entries (pattern groups list their categories)
+ */
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ');
+    if (typeof value === 'object') return Object.keys(value).join(', ');
+    return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value && typeof value === 'object') return Object.keys(value).length > 0;
+    return Boolean(value);
+}
+
+function lookup(scopes: TemplateContext[], path: string[]): unknown {
+    const scope = [...scopes].reverse().find(s => path[0] in s);
+    let value: unknown = scope?.[path[0]];
+    for (const key of path.slice(1)) {
+        if (value === undefined || value === null) return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+/**
+ * Why a path doesn't exist in the context, or undefined when it does. A value that is present
+ * but unset (no targets without a full profile) accepts anything below it.
+ */
+function findUnknownPath(context: TemplateContext, path: string[]): string | undefined {
+    let value: unknown = context;
+    for (const [index, key] of path.entries()) {
+        if (value === undefined || value === null) return undefined;
+        const known = Array.isArray(value)
+            ? key === 'length' || /^\d+$/.test(key)
+            : typeof value === 'object' && key in value;
+        if (!known) return path.slice(0, index + 1).join('.');
+        value = (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+}
+
+function checkNodes(
+    nodes: TemplateNode[],
+    context: TemplateContext,
+    resolveInclude: IncludeResolver,
+    loopNames: string[],
+    includes: string[],
+    check: TemplateCheck
+): void {
+    const where = includes.length > 0 ? ` (in fragment "${includes[includes.length - 1]}")` : '';
+    const checkPath = (path: string[], line: number) => {
+        if (loopNames.includes(path[0])) return;
+        check.variables.add(path[0]);
+        const unknown = findUnknownPath(context, path);
+        if (unknown) check.problems.push(`line ${line}${where}: unknown variable \${${path.join('.')}}${unknown !== path.join('.') ? ` (no "${unknown}")` : ''}`);
+    };
+
+    for (const node of nodes) {
+        switch (node.kind) {
+            case 'value':
+                checkPath(node.path, node.line);
+                node.filters.filter(filter => !FILTERS[filter]).forEach(filter =>
+                    check.problems.push(`line ${node.line}${where}: unknown filter "${filter}" (use ${Object.keys(FILTERS).join(', ')})`));
+                break;
+            case 'if':
+                checkPath(node.condition.path, node.line);
+                checkNodes(node.then, context, resolveInclude, loopNames, includes, check);
+                checkNodes(node.otherwise, context, resolveInclude, loopNames, includes, check);
+                break;
+            case 'each':
+                checkPath(node.path, node.line);
+                checkNodes(node.body, context, resolveInclude, [...loopNames, ...node.names], includes, check);
+                break;
+            case 'include': {
+                if (includes.includes(node.name) || includes.length >= MAX_INCLUDE_DEPTH) {
+                    check.problems.push(`line ${node.line}${where}: fragment "${node.name}" includes itself`);
+                    break;
+                }
+                const fragment = resolveInclude(node.name);
+                if (fragment === undefined) {
+                    check.problems.push(`line ${node.line}${where}: unknown fragment \${> ${node.name}}`);
+                    break;
+                }
+                try {
+                    checkNodes(parseTemplate(fragment), context, resolveInclude, loopNames, [...includes, node.name], check);
+                } catch (error) {
+                    check.problems.push(`fragment "${node.name}": ${error instanceof Error ? error.message : String(error)}`);
+                }
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Find syntax errors, unknown variables, filters and fragments without rendering anything
+ */
+export function checkTemplate(source: string, context: TemplateContext, resolveInclude: IncludeResolver): TemplateCheck {
+    const check: TemplateCheck = { problems: [], variables: new Set() };
+    try {
+        checkNodes(parseTemplate(source), context, resolveInclude, [], [], check);
+    } catch (error) {
+        if (!(error instanceof PromptTemplateError)) throw error;
+        check.problems.push(...error.problems);
+    }
+    return check;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[], resolveInclude: IncludeResolver, depth: number): string {
+    return nodes.map(node => {
+        switch (node.kind) {
+            case 'text':
+                return node.text;
+            case 'value':
+                return formatValue(node.filters.reduce((value, filter) => FILTERS[filter](value), lookup(scopes, node.path)));
+            case 'if': {
+                const value = lookup(scopes, node.condition.path);
+                const result = node.condition.equals !== undefined
+                    ? formatValue(value).toLowerCase() === node.condition.equals.toLowerCase()
+                    : isTruthy(value);
+                return renderNodes(result !== node.condition.negate ? node.then : node.otherwise, scopes, resolveInclude, depth);
+            }
+            case 'each': {
+                const value = lookup(scopes, node.path);
+                const entries: Array<[unknown, unknown]> = Array.isArray(value)
+                    ? value.map((item, index) => [item, index + 1])
+                    : value && typeof value === 'object' ? Object.entries(value) : [];
+                return entries.map(([first, second]) => {
+                    const scope: TemplateContext = { [node.names[0]]: first };
+                    if (node.names[1]) scope[node.names[1]] = second;
+                    return renderNodes(node.body, [...scopes, scope], resolveInclude, depth);
+                }).join('');
+            }
+            case 'include': {
+                const fragment = resolveInclude(node.name);
+                if (fragment === undefined || depth >= MAX_INCLUDE_DEPTH) {
+                    throw new PromptTemplateError(`line ${node.line}: cannot include fragment "${node.name}"`);
+                }
+                return renderNodes(parseTemplate(fragment), scopes, resolveInclude, depth + 1);
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Fill in a template. Run checkTemplate first: rendering does not report unknown variables,
+ * it leaves them empty.
+ */
+export function renderTemplate(source: string, context: TemplateContext, resolveInclude: IncludeResolver): string {
+    return renderNodes(parseTemplate(source), [context], resolveInclude, 0)
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * The variables a context offers, for error messages, e.g. profile.age, targets.calories
+ */
+export function listTemplateVariables(context: TemplateContext): string[] {
+    return Object.entries(context).flatMap(([name, value]) =>
+        value && typeof value === 'object' && !Array.isArray(value) && name !== 'patterns' && name !== 'finalAnswers'
+            ? Object.keys(value).map(key => `${name}.${key}`)
+            : [name]);
+}
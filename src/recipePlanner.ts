@@ -0,0 +1,122 @@
+// Assigns each meal day a concrete protein, vegetable, cooking method and seasoning from
+// keto-recipe-patterns.json, never repeating a category on consecutive days.
+// Sampling is driven by a seed so the same seed always gives the same assignment.
+
+export type PatternGroup = Record<string, string[]>;
+
+export interface RecipePatterns {
+    proteins: PatternGroup;
+    vegetables: PatternGroup;
+    cooking_methods: PatternGroup;
+    seasonings: PatternGroup;
+    meal_types?: PatternGroup;
+    cuisine_themes?: PatternGroup;
+}
+
+export interface PatternPick {
+    category: string;
+    item: string;
+}
+
+export interface DayRecipeAssignment {
+    day: string;
+    date?: string;
+    protein: PatternPick;
+    vegetable: PatternPick;
+    method: PatternPick;
+    seasoning: PatternPick;
+}
+
+export interface RecipePlan {
+    seed: number;
+    days: DayRecipeAssignment[];
+}
+
+export const MAX_SEED = 0xffffffff;
+
+const DIMENSIONS = [
+    { key: 'protein', group: 'proteins' },
+    { key: 'vegetable', group: 'vegetables' },
+    { key: 'method', group: 'cooking_methods' },
+    { key: 'seasoning', group: 'seasonings' }
+] as const;
+
+/**
+ * Small deterministic generator (mulberry32) returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A fresh seed for runs without --seed; it is recorded so the run can be repeated
+ */
+export function generateSeed(): number {
+    return Math.floor(Math.random() * MAX_SEED);
+}
+
+function pick<T>(items: T[], random: () => number): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Category names shown to people and the model, e.g. red_meat -> red meat
+ */
+export function formatCategory(category: string): string {
+    return category.replace(/_/g, ' ');
+}
+
+/**
+ * Assign every day its combination. Items rejected by isAllowed (exclusions, diet rules)
+ * are never picked, and a category left without items is skipped. A category only repeats
+ * on consecutive days when a group has nothing else to offer.
+ */
+export function planRecipeAssignments(
+    patterns: RecipePatterns,
+    days: Array<{ day: string; date?: string }>,
+    seed: number,
+    isAllowed: (item: string) => boolean = () => true
+): RecipePlan {
+    const random = createSeededRandom(seed);
+    const options = DIMENSIONS.map(({ group }) =>
+        Object.entries(patterns[group] || {})
+            .map(([category, items]) => ({ category, items: items.filter(isAllowed) }))
+            .filter(option => option.items.length > 0));
+
+    const assignments: DayRecipeAssignment[] = [];
+    for (const { day, date } of days) {
+        const previous = assignments[assignments.length - 1];
+        const picks = DIMENSIONS.map(({ key }, index) => {
+            const fresh = options[index].filter(option => option.category !== previous?.[key].category);
+            const candidates = fresh.length > 0 ? fresh : options[index];
+            if (candidates.length === 0) {
+                throw new Error(`No usable ${DIMENSIONS[index].group.replace(/_/g, ' ')} left in the recipe patterns`);
+            }
+            const { category, items } = pick(candidates, random);
+            return { category, item: pick(items, random) };
+        });
+        const [protein, vegetable, method, seasoning] = picks;
+        assignments.push({ day, date, protein, vegetable, method, seasoning });
+    }
+
+    return { seed, days: assignments };
+}
+
+export function describeAssignment(assignment: DayRecipeAssignment): string {
+    return `${assignment.protein.item} with ${assignment.vegetable.item}, ${assignment.method.item}, ${assignment.seasoning.item}`;
+}
+
+export function describeRecipePlanForPrompt(assignments: DayRecipeAssignment[]): string {
+    if (assignments.length === 0) return '';
+
+    const lines = assignments.map(a =>
+        `- ${a.day}${a.date ? ` (${a.date})` : ''}: protein ${a.protein.item} (${formatCategory(a.protein.category)}), vegetable ${a.vegetable.item} (${formatCategory(a.vegetable.category)}), method ${a.method.item} (${formatCategory(a.method.category)}), seasoning ${a.seasoning.item} (${formatCategory(a.seasoning.category)})`);
+    return `RECIPE PLAN (build each day's main meal around its assigned protein, vegetable, cooking method and seasoning; other meals that day should use different ingredients):\n${lines.join('\n')}`;
+}
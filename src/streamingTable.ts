@@ -0,0 +1,47 @@
+import Table from 'cli-table3';
+import chalk from 'chalk';
+
+const NO_BOTTOM = { 'bottom': '', 'bottom-mid': '', 'bottom-left': '', 'bottom-right': '' };
+const JOINED_TOP = { 'top': '─', 'top-left': '├', 'top-mid': '┼', 'top-right': '┤' };
+
+/**
+ * A cli-table3 table printed one row at a time, so rows can appear while the rest
+ * of the data is still being produced. Each row is rendered as its own table with
+ * the borders joined up; log() closes the table, prints a message and the next row
+ * starts a fresh one.
+ */
+export class StreamingTable {
+    private open = false;
+    private rowCount = 0;
+
+    constructor(private head: string[], private colWidths: number[]) {}
+
+    get rows(): number {
+        return this.rowCount;
+    }
+
+    printRow(cells: string[]): void {
+        const table = this.open
+            ? new Table({ colWidths: this.colWidths, wordWrap: true, chars: { ...NO_BOTTOM, ...JOINED_TOP } })
+            : new Table({ head: this.head, colWidths: this.colWidths, wordWrap: true, chars: NO_BOTTOM });
+
+        table.push(cells);
+        console.log(table.toString());
+        this.open = true;
+        this.rowCount++;
+    }
+
+    log(message: string): void {
+        this.end();
+        console.log(message);
+    }
+
+    end(): void {
+        if (!this.open) return;
+
+        const bottom = '└' + this.colWidths.map(width => '─'.repeat(width)).join('┴') + '┘';
+        // cli-table3 draws its borders in grey
+        console.log(chalk.gray(bottom));
+        this.open = false;
+    }
+}
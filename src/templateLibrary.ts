@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Named prompt templates: the ones bundled in templates/ and the user's own in
+// ~/.ai-fasting-planner/templates/, where a template with the same name replaces the bundled one.
+// A template is a JSON file ({ description, promptTemplate, fragments }) or a plain .txt prompt.
+
+export interface NamedTemplate {
+    name: string;
+    description?: string;
+    promptTemplate: string;
+    fragments?: Record<string, string>;
+    source: 'built-in' | 'user';
+    path: string;
+    // Set on a user template that replaces a bundled one
+    overridesBuiltIn?: boolean;
+}
+
+const TEMPLATE_EXTENSIONS = ['.json', '.txt'];
+
+export function getUserTemplatesDir(): string {
+    return path.join(os.homedir(), '.ai-fasting-planner', 'templates');
+}
+
+/**
+ * The bundled templates sit next to the sources in development and are copied into dist/ on build
+ */
+export function getBuiltInTemplatesDir(): string | undefined {
+    const possibleDirs = [
+        path.join(__dirname, '../templates'), // From source (dev)
+        path.join(__dirname, 'templates')     // From dist (installed)
+    ];
+    return possibleDirs.find(dir => fs.existsSync(dir));
+}
+
+/**
+ * Template names are file names without the extension, matched case-insensitively
+ */
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+export function loadTemplateFile(filePath: string, source: NamedTemplate['source']): NamedTemplate {
+    const name = normalizeName(path.basename(filePath, path.extname(filePath)));
+    const content = fs.readFileSync(filePath, 'utf8');
+
+    if (path.extname(filePath) === '.txt') {
+        return { name, promptTemplate: content.trim(), source, path: filePath };
+    }
+
+    const data = JSON.parse(content);
+    if (typeof data.promptTemplate !== 'string' || !data.promptTemplate.trim()) {
+        throw new Error(`${filePath} has no "promptTemplate"`);
+    }
+    return {
+        name,
+        description: typeof data.description === 'string' ? data.description : undefined,
+        promptTemplate: data.promptTemplate,
+        fragments: data.fragments,
+        source,
+        path: filePath
+    };
+}
+
+function loadTemplatesFrom(dir: string | undefined, source: NamedTemplate['source'], warn: (message: string) => void): NamedTemplate[] {
+    if (!dir || !fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(file => TEMPLATE_EXTENSIONS.includes(path.extname(file)))
+        .sort()
+        .flatMap(file => {
+            try {
+                return [loadTemplateFile(path.join(dir, file), source)];
+            } catch (error) {
+                warn(`Skipping template ${path.join(dir, file)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                return [];
+            }
+        });
+}
+
+/**
+ * Every template by name, the user's replacing bundled ones with the same name
+ */
+export function listTemplates(warn: (message: string) => void = message => console.warn(message)): NamedTemplate[] {
+    const templates = new Map<string, NamedTemplate>();
+    for (const template of loadTemplatesFrom(getBuiltInTemplatesDir(), 'built-in', warn)) {
+        templates.set(template.name, template);
+    }
+    for (const template of loadTemplatesFrom(getUserTemplatesDir(), 'user', warn)) {
+        templates.set(template.name, { ...template, overridesBuiltIn: templates.has(template.name) });
+    }
+    return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function findTemplate(name: string, warn?: (message: string) => void): NamedTemplate | undefined {
+    const wanted = normalizeName(name);
+    return listTemplates(warn).find(template => template.name === wanted);
+}
@@ -0,0 +1,298 @@
+import { RecipePatterns, formatCategory } from './recipePlanner';
+
+// Checks the variety the prompt asks for: maps every day's meals back to the protein, vegetable,
+// cooking method and seasoning categories in keto-recipe-patterns.json, scores how much the plan
+// varies and finds the days that repeat their neighbour's category or an earlier dish.
+// Works on the plain day/meal shape so it stays independent of the zod schema in index.ts.
+
+export type VarietyDimension = 'protein' | 'vegetable' | 'method' | 'seasoning';
+
+export interface DayVarietyProfile {
+    day: string;
+    // The day's main category per dimension; missing when nothing in the meals matched
+    categories: Partial<Record<VarietyDimension, string>>;
+}
+
+export interface VarietyRepeat {
+    dimension: VarietyDimension | 'dish';
+    // A pattern category, or the dish name for repeated dishes
+    category: string;
+    days: [string, string];
+}
+
+export interface VarietyAudit {
+    score: number;
+    dimensionScores: Partial<Record<VarietyDimension, number>>;
+    profiles: DayVarietyProfile[];
+    repeats: VarietyRepeat[];
+}
+
+interface AuditableMeal {
+    name: string;
+    ingredients?: string[];
+    instructions?: string[];
+}
+
+interface AuditableDay {
+    day: string;
+    dayType?: string;
+    meals: AuditableMeal[];
+}
+
+interface DimensionRules {
+    group: keyof RecipePatterns;
+    // Where the category is looked for besides the meal name
+    source: 'ingredients' | 'instructions';
+    // Extra words that place a meal in a category, on top of the items in the patterns file
+    keywords: Record<string, string[]>;
+    // Garnish and aromatics that only count when nothing else matched
+    fallbackCategories?: string[];
+    ignore?: RegExp;
+}
+
+// The meal name says what the dish is; a match there outweighs a single ingredient or step
+const NAME_WEIGHT = 3;
+
+// Each repeated dish costs this many points off the score
+const DISH_REPEAT_PENALTY = 5;
+
+const DIMENSIONS: Record<VarietyDimension, DimensionRules> = {
+    protein: {
+        group: 'proteins',
+        source: 'ingredients',
+        keywords: {
+            red_meat: ['beef', 'ribeye', 'sirloin', '(?:flank|skirt|rump|t-bone) steak', 'brisket', '(?:beef|lamb|pork) mince', 'lamb', 'mutton', 'pork', 'bison', 'venison', 'veal', 'short ribs?', 'meatballs?', 'chorizo', 'bacon'],
+            poultry: ['chicken', 'turkey', 'duck', 'hen', 'quail', 'goose'],
+            seafood: ['fish', 'salmon', 'tuna', 'shrimp', 'prawns?', 'scallops?', 'mahi', 'cod', 'halibut', 'sardines?', 'mussels?', 'clams?', 'trout', 'mackerel', 'crab', 'lobster', 'sea bass', 'snapper', 'squid', 'calamari', 'octopus'],
+            eggs_dairy: ['eggs?', 'frittata', 'omelet(?:te)?', 'shakshuka', 'cheese', 'halloumi', 'paneer', 'feta', 'ricotta', 'mozzarella', 'yogh?urt', 'cottage cheese'],
+            plant_based: ['tofu', 'tempeh', 'edamame', 'seitan', 'hemp seeds', 'chia', 'coconut meat']
+        }
+    },
+    vegetable: {
+        group: 'vegetables',
+        source: 'ingredients',
+        keywords: {
+            leafy_greens: ['spinach', 'kale', 'arugula', 'rocket', 'lettuce', 'greens', 'chard', 'bok choy', 'watercress', 'romaine'],
+            cruciferous: ['broccoli', 'broccolini', 'cauliflower', 'brussels sprouts?', 'cabbage', 'kohlrabi', 'radish(?:es)?', 'turnips?', 'rutabagas?'],
+            nightshades: ['bell peppers?', '(?:red|green|yellow|orange) peppers?', 'capsicums?', 'eggplants?', 'aubergines?', 'zucchini', 'courgettes?', 'squash', 'tomato(?:es)?', 'green beans', 'okra', 'asparagus'],
+            root_vegetables: ['carrots?', 'celery root', 'celeriac', 'parsnips?', 'beets?', 'beetroot', 'fennel', 'leeks?'],
+            herbs: ['basil', 'cilantro', 'coriander', 'parsley', 'dill', 'mint', 'rosemary', 'thyme', 'oregano', 'chives']
+        },
+        fallbackCategories: ['herbs'],
+        // Garlic and onion go into nearly everything, so they say nothing about variety
+        ignore: /\b(?:garlic|onions?|shallots?)\b/g
+    },
+    method: {
+        group: 'cooking_methods',
+        source: 'instructions',
+        keywords: {
+            dry_heat: ['pan[- ]?sear', 'sear', 'grill', 'broil', 'bake', 'baking', 'roast', 'air[- ]?fr', 'stir[- ]?fr', 'saut[eé]', 'pan[- ]?fr', 'char(?:red|ring)'],
+            moist_heat: ['steam', 'poach', 'slow[- ]?cook', 'brais', 'stew', 'pressure[- ]?cook', 'simmer', 'blanch', 'boil', 'sous vide'],
+            fat_based: ['deep[- ]?fr', 'shallow[- ]?fr', 'butter[- ]?bast', 'bast(?:e|ing)', 'confit'],
+            raw_preparations: ['raw', 'no[- ]cook', 'ceviche', 'tartare', 'carpaccio', 'pickl', 'ferment', 'salad']
+        }
+    },
+    seasoning: {
+        group: 'seasonings',
+        source: 'ingredients',
+        keywords: {
+            herb_based: ['herbs?', 'rosemary', 'thyme', 'basil', 'oregano', 'sage', 'dill', 'parsley', 'mint', 'tarragon', 'italian seasoning', 'herbes de provence', 'pesto', 'chimichurri'],
+            spice_based: ['cumin', 'coriander seeds?', 'ground coriander', 'paprika', 'cinnamon', 'nutmeg', 'curry', 'five[- ]spice', "za'?atar", 'ras el hanout', 'chil(?:i|li) powder', 'chil(?:i|li) flakes', 'cayenne', 'turmeric', 'garam masala', 'cajun', 'jerk', 'harissa'],
+            citrus_acid: ['lemons?', 'limes?', 'oranges?', 'grapefruit', 'citrus', 'vinegar', 'zest'],
+            umami_savory: ['miso', 'coconut aminos', 'sesame oil', 'fish sauce', 'mushroom powder', 'nutritional yeast', 'soy sauce', 'tamari', 'anchov(?:y|ies)', 'kimchi', 'gochujang', 'worcestershire']
+        }
+    }
+};
+
+const DIMENSION_ORDER: VarietyDimension[] = ['protein', 'vegetable', 'method', 'seasoning'];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * One matcher per category: the hand-written keywords plus the category's items from the
+ * patterns file (without notes such as "(limited)")
+ */
+function buildMatchers(patterns: RecipePatterns, rules: DimensionRules): Array<{ category: string; pattern: RegExp }> {
+    const categories = Object.keys(patterns[rules.group] || {});
+    return categories.map(category => {
+        const items = (patterns[rules.group]?.[category] || [])
+            .map(item => escapeRegExp(item.replace(/\(.*?\)/g, '').trim().toLowerCase()))
+            .filter(Boolean);
+        // Method keywords are stems ("grill" for grilled/grilling); the rest are whole words
+        const terms = [...(rules.keywords[category] || []), ...items];
+        const ending = rules.source === 'instructions' ? '' : '(?:e?s)?\\b';
+        return { category, pattern: new RegExp(`\\b(?:${terms.join('|')})${ending}`, 'i') };
+    });
+}
+
+/**
+ * The category a day leans on most for one dimension. Ties go to the category listed first
+ * in the patterns file, which puts the main protein ahead of a sprinkling of cheese.
+ */
+function findMainCategory(meals: AuditableMeal[], matchers: Array<{ category: string; pattern: RegExp }>, rules: DimensionRules): string | undefined {
+    const scores = new Map<string, number>();
+    const count = (text: string, weight: number) => {
+        const cleaned = rules.ignore ? text.toLowerCase().replace(rules.ignore, ' ') : text;
+        for (const { category, pattern } of matchers) {
+            if (pattern.test(cleaned)) {
+                scores.set(category, (scores.get(category) || 0) + weight);
+            }
+        }
+    };
+
+    for (const meal of meals) {
+        count(meal.name, NAME_WEIGHT);
+        (meal[rules.source] || []).forEach(text => count(text, 1));
+    }
+
+    const ranked = matchers
+        .map(({ category }) => ({ category, score: scores.get(category) || 0 }))
+        .filter(entry => entry.score > 0);
+    const main = ranked.filter(entry => !rules.fallbackCategories?.includes(entry.category));
+    const candidates = main.length > 0 ? main : ranked;
+    return candidates.reduce<{ category: string; score: number } | undefined>(
+        (best, entry) => !best || entry.score > best.score ? entry : best, undefined)?.category;
+}
+
+export function profileDay(day: AuditableDay, patterns: RecipePatterns): DayVarietyProfile {
+    const categories: Partial<Record<VarietyDimension, string>> = {};
+    for (const dimension of DIMENSION_ORDER) {
+        const rules = DIMENSIONS[dimension];
+        const category = findMainCategory(day.meals, buildMatchers(patterns, rules), rules);
+        if (category) {
+            categories[dimension] = category;
+        }
+    }
+    return { day: day.day, categories };
+}
+
+/**
+ * Profile every meal day, then look for categories repeated on consecutive meal days and
+ * dishes served more than once. Fasting days are skipped, as the recipe planner skips them.
+ */
+export function auditPlanVariety(days: AuditableDay[], patterns: RecipePatterns): VarietyAudit {
+    const mealDays = days.filter(day => day.dayType !== 'fasting' && day.meals.length > 0);
+    const profiles = mealDays.map(day => profileDay(day, patterns));
+    const repeats: VarietyRepeat[] = [];
+    const dimensionScores: Partial<Record<VarietyDimension, number>> = {};
+
+    for (const dimension of DIMENSION_ORDER) {
+        const available = Object.keys(patterns[DIMENSIONS[dimension].group] || {}).length;
+        const used = profiles.map(p => p.categories[dimension]);
+        let pairs = 0;
+        let repeated = 0;
+
+        for (let i = 1; i < profiles.length; i++) {
+            const [previous, current] = [used[i - 1], used[i]];
+            if (!previous || !current) continue;
+            pairs++;
+            if (previous === current) {
+                repeated++;
+                repeats.push({ dimension, category: current, days: [profiles[i - 1].day, profiles[i].day] });
+            }
+        }
+
+        const found = used.filter(Boolean).length;
+        if (found === 0 || available === 0) continue;
+
+        // Half for avoiding back-to-back repeats, half for how many categories the plan reaches
+        const spread = new Set(used.filter(Boolean)).size / Math.min(available, found);
+        const noRepeats = pairs > 0 ? 1 - repeated / pairs : 1;
+        dimensionScores[dimension] = Math.round((noRepeats + spread) * 50);
+    }
+
+    const servedOn = new Map<string, string>();
+    for (const day of mealDays) {
+        for (const meal of day.meals) {
+            const name = meal.name.trim().toLowerCase();
+            const firstDay = servedOn.get(name);
+            if (firstDay && firstDay !== day.day) {
+                repeats.push({ dimension: 'dish', category: meal.name, days: [firstDay, day.day] });
+            } else if (!firstDay) {
+                servedOn.set(name, day.day);
+            }
+        }
+    }
+
+    const scores = Object.values(dimensionScores);
+    const average = scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 100;
+    const dishRepeats = repeats.filter(r => r.dimension === 'dish').length;
+
+    return {
+        score: Math.max(0, Math.round(average) - dishRepeats * DISH_REPEAT_PENALTY),
+        dimensionScores,
+        profiles,
+        repeats
+    };
+}
+
+/**
+ * The days to regenerate so every repeat goes away: the later day of each pair, unless the
+ * earlier day is already being regenerated (Mon-Tue-Wed all red meat only needs Tuesday)
+ */
+export function getDaysBreakingVariety(audit: VarietyAudit): string[] {
+    const days: string[] = [];
+    for (const repeat of audit.repeats) {
+        if (!days.includes(repeat.days[0]) && !days.includes(repeat.days[1])) {
+            days.push(repeat.days[1]);
+        }
+    }
+    return days;
+}
+
+/**
+ * One line per repeated category, joining back-to-back pairs into runs, e.g.
+ * "seafood protein on Sunday-Wednesday". Also takes the repeats stored on an exported plan.
+ */
+export function summarizeRepeats(repeats: Array<{ dimension: string; category: string; days: string[] }>): string[] {
+    const runs = new Map<string, string[][]>();
+    for (const repeat of repeats) {
+        const key = `${repeat.dimension}\u0000${repeat.category}`;
+        const keyRuns = runs.get(key) || [];
+        const last = keyRuns[keyRuns.length - 1];
+        if (repeat.dimension !== 'dish' && last && last[last.length - 1] === repeat.days[0]) {
+            last.push(repeat.days[1]);
+        } else {
+            keyRuns.push([...repeat.days]);
+        }
+        runs.set(key, keyRuns);
+    }
+
+    return [...runs].map(([key, keyRuns]) => {
+        const [dimension, category] = key.split('\u0000');
+        const days = keyRuns
+            .map(run => run.length > 2 ? `${run[0]}-${run[run.length - 1]}` : run.join(' and '))
+            .join(', ');
+        return dimension === 'dish' ? `"${category}" on ${days}` : `${formatCategory(category)} ${dimension} on ${days}`;
+    });
+}
+
+/**
+ * Tell the model which categories the neighbouring days already use, so a regenerated day
+ * breaks the repeat instead of moving it
+ */
+export function describeVarietyFixForPrompt(audit: VarietyAudit, day: string): string {
+    const index = audit.profiles.findIndex(p => p.day === day);
+    if (index === -1) return '';
+
+    const neighbours = [audit.profiles[index - 1], audit.profiles[index + 1]].filter(Boolean);
+    const avoid = DIMENSION_ORDER.flatMap(dimension => {
+        const taken = new Map<string, string[]>();
+        for (const profile of neighbours) {
+            const category = profile.categories[dimension];
+            if (category) taken.set(category, [...(taken.get(category) || []), profile.day]);
+        }
+        const list = [...taken].map(([category, days]) => `${formatCategory(category)} (${days.join(', ')})`);
+        return list.length > 0 ? [`${dimension}: not ${list.join(' or ')}`] : [];
+    });
+    const dishes = audit.repeats
+        .filter(r => r.dimension === 'dish' && r.days[1] === day)
+        .map(r => `"${r.category}" (already on ${r.days[0]})`);
+
+    const parts = [];
+    if (avoid.length > 0) parts.push(`use a different category from the neighbouring days for each of ${avoid.join('; ')}`);
+    if (dishes.length > 0) parts.push(`do not serve ${dishes.join(', ')} again`);
+    return parts.length > 0 ? `VARIETY FIX for ${day}: ${parts.join(', and ')}.` : '';
+}
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+// Simple test script for food exclusions: groups, aliases, look-alikes and plain dislikes
+// Usage: npm run build && node test-exclusions.js
+
+const { resolveExclusions, findExcludedItems } = require('./dist/exclusions');
+
+// Exclusions as entered, ingredient line -> the exclusions it breaks (empty: allowed)
+const cases = [
+    [['shellfish'], '200g king prawns', ['shellfish']],
+    [['shellfish'], '100g oyster mushrooms', []],
+    [['Dairy-free'], '2 tbsp butter', ['dairy']],
+    [['dairy'], '2 tbsp almond butter', []],
+    [['dairy'], '1 can (400ml) coconut milk', []],
+    [['dairy'], '50g dairy-free cream cheese', []],
+    [['dairy'], '2 tbsp vegan mayo with parmesan', ['dairy']],
+    [['lactose intolerant'], '1/2 cup sour cream', ['dairy']],
+    [['no pork'], '4 slices turkey bacon', []],
+    [['pork'], '4 slices streaky bacon', ['pork']],
+    [['beef'], '2 cauliflower steaks', []],
+    [['halal'], '1 tbsp white wine vinegar', []],
+    [['halal'], '1/4 cup dry white wine', ['alcohol']],
+    [['halal'], '2 pork sausages', ['pork']],
+    [['seafood'], '2 tsp fish sauce', ['fish']],
+    [['tree nuts'], '30g walnuts', ['nuts']],
+    [['peanut allergy'], '2 tbsp peanut butter', ['peanuts']],
+    [['gluten'], '1 cup almond flour', []],
+    [['gluten'], '2 tbsp soy sauce', ['gluten']],
+    [['gluten', 'soy'], '2 tbsp soy sauce', ['gluten', 'soy']],
+    [['mushrooms'], '150g sliced cremini', ['mushrooms']],
+    [['cilantro'], 'handful of fresh coriander', ['cilantro']],
+    [['strawberries'], '1 strawberry, halved', ['strawberries']],
+    [['strawberries'], '1 cup strawberries', ['strawberries']],
+    [['fish'], '4 anchovies', ['fish']],
+    [['anchovies'], '2 anchovy fillets', ['anchovies']],
+    [['tomatoes'], '2 tomatoes, diced', ['tomatoes']],
+    [['tomatoes'], '1 tomato', ['tomatoes']]
+];
+
+function testExclusions() {
+    console.log('🧪 Testing food exclusions\n');
+
+    let failures = 0;
+    for (const [exclusions, ingredient, expected] of cases) {
+        const actual = findExcludedItems(ingredient, resolveExclusions(exclusions));
+        const label = `[${exclusions.join(', ')}] "${ingredient}"`;
+        if (actual.join() === expected.join()) {
+            console.log(`   ✅ ${label} → ${actual.join(', ') || 'allowed'}`);
+        } else {
+            console.log(`   ❌ ${label} → ${actual.join(', ') || 'allowed'} (expected ${expected.join(', ') || 'allowed'})`);
+            failures++;
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} exclusion test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Exclusions catch their foods and leave the look-alikes alone.');
+}
+
+testExclusions();
@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+
+// Simple test script for reading fasting times and checking the extended fast
+// Usage: npm run build && node test-fasting-window.js
+
+const { findFastingProtocol, parseTimeOfDay, resolveFastingWindow } = require('./dist/fastingProtocols');
+
+const extendedFast = findFastingProtocol('36-hour');
+
+// Time of day -> minutes after midnight (null: not understood)
+const times = [
+    ['8pm', 20 * 60],
+    ['8:30 am', 8 * 60 + 30],
+    ['20:00', 20 * 60],
+    ['12am', 0],
+    ['12pm', 12 * 60],
+    ['noon', 12 * 60],
+    ['midnight', 0],
+    ['8', null],
+    ['13pm', null],
+    ['25:00', null],
+    ['8:75', null],
+    ['soon', null]
+];
+
+// Fasting start and end -> the skipped days, or the start of the error message
+const windows = [
+    ['Friday 8pm', 'Sunday 8am', { durationHours: 36, skippedDays: ['Saturday'] }],
+    ['fri 20:00', 'sun at 8:00 am', { durationHours: 36, skippedDays: ['Saturday'] }],
+    ['Saturday 8pm', 'Monday 8am', { durationHours: 36, skippedDays: ['Sunday'] }],
+    ['Thursday 8pm', 'Sunday 8am', { durationHours: 60, skippedDays: ['Friday', 'Saturday'] }],
+    ['Friday 8pm', 'Saturday 8pm', { durationHours: 24, skippedDays: ['Saturday'] }],
+    ['Sunday 8am', 'Friday 8pm', 'Fasting end must come after the start and within 72 hours'],
+    ['Friday 8pm', 'Saturday 8am', 'A 36-Hour Fast must last at least 24 hours'],
+    ['Friday 2pm', 'Sunday 8am', 'Fasting start Friday 2pm falls inside the 08:00-20:00 eating window'],
+    ['Friday 8pm', 'Sunday noon', 'Fasting end Sunday 12pm falls inside the 08:00-20:00 eating window'],
+    ['Friday 8pm', 'Friday 8pm', 'Fasting end must be after fasting start'],
+    ['Someday 8pm', 'Sunday 8am', 'Could not understand "Someday 8pm"']
+];
+
+function testFastingWindow() {
+    console.log('🧪 Testing fasting times and windows\n');
+
+    let failures = 0;
+    for (const [input, expected] of times) {
+        const actual = parseTimeOfDay(input);
+        if (actual === expected) {
+            console.log(`   ✅ "${input}" → ${actual === null ? 'not understood' : `${actual} min`}`);
+        } else {
+            console.log(`   ❌ "${input}" → ${actual} (expected ${expected})`);
+            failures++;
+        }
+    }
+
+    for (const [start, end, expected] of windows) {
+        const { window, error } = resolveFastingWindow(extendedFast, start, end);
+        const label = `${start} → ${end}`;
+        if (typeof expected === 'string') {
+            if (!window && error && error.startsWith(expected)) {
+                console.log(`   ✅ ${label}: ${error}`);
+            } else {
+                console.log(`   ❌ ${label}: ${error || 'accepted'} (expected "${expected}...")`);
+                failures++;
+            }
+        } else if (window && window.durationHours === expected.durationHours &&
+            window.skippedDays.join() === expected.skippedDays.join()) {
+            console.log(`   ✅ ${label}: ${window.durationHours}h, skips ${window.skippedDays.join(', ') || 'no day'}`);
+        } else {
+            console.log(`   ❌ ${label}: ${error || `${window.durationHours}h, skips ${window.skippedDays.join(', ') || 'no day'}`} (expected ${expected.durationHours}h, skips ${expected.skippedDays.join(', ') || 'no day'})`);
+            failures++;
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} fasting window test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Fasting times are read and checked against the eating window.');
+}
+
+testFastingWindow();
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+// Simple test script for batch cooking: linking leftover lunches and keeping them in step with their dinners
+// Usage: npm run build && node test-leftovers.js
+
+const { linkLeftovers, syncLeftovers } = require('./dist/leftovers');
+
+const meal = (name, type) => ({ name, type, prepTime: '30 minutes', ingredients: [`200g ${name.toLowerCase()}`], instructions: [`Cook the ${name.toLowerCase()}`] });
+const buildDays = () => [
+    { day: 'Sunday', meals: [meal('Omelette', 'breakfast'), meal('Salad', 'lunch'), meal('Curry', 'dinner')] },
+    { day: 'Monday', meals: [meal('Omelette', 'breakfast'), meal('Soup', 'lunch'), meal('Chili', 'dinner')] },
+    { day: 'Tuesday', meals: [meal('Omelette', 'breakfast'), meal('Wrap', 'lunch'), meal('Stew', 'dinner')] }
+];
+const pairs = [{ sourceDay: 'Sunday', targetDay: 'Monday' }, { sourceDay: 'Monday', targetDay: 'Tuesday' }];
+
+const find = (days, day, type) => days.find(d => d.day === day).meals.find(m => m.type === type);
+// "Curry x2 -> Monday lunch" for a batch, "Curry (from Sunday)" for a leftover
+const describe = m => !m ? '-' : m.leftoverFrom
+    ? `${m.name} (from ${m.leftoverFrom.day})`
+    : m.batch ? `${m.name} x${m.batch.servings} -> ${m.batch.leftovers.map(l => `${l.day} ${l.type}`).join(', ')}` : m.name;
+const summarize = days => days.map(d => `${d.day}: ${describe(find(days, d.day, 'lunch'))} / ${describe(find(days, d.day, 'dinner'))}`).join('; ');
+
+// What happens to the plan after linking -> the lunches and dinners of each day
+const cases = [
+    ['linked', () => {
+        const days = buildDays();
+        linkLeftovers(days, pairs);
+        return days;
+    }, 'Sunday: Salad / Curry x2 -> Monday lunch; Monday: Curry (from Sunday) / Chili x2 -> Tuesday lunch; Tuesday: Chili (from Monday) / Stew'],
+    ['a missing day is skipped', () => {
+        const days = buildDays();
+        linkLeftovers(days, [...pairs, { sourceDay: 'Tuesday', targetDay: 'Wednesday' }]);
+        return days;
+    }, 'Sunday: Salad / Curry x2 -> Monday lunch; Monday: Curry (from Sunday) / Chili x2 -> Tuesday lunch; Tuesday: Chili (from Monday) / Stew'],
+    ['a replaced dinner passes its batch on', () => {
+        const days = buildDays();
+        linkLeftovers(days, pairs);
+        days[0].meals[2] = meal('Roast', 'dinner');
+        syncLeftovers(days);
+        return days;
+    }, 'Sunday: Salad / Roast x2 -> Monday lunch; Monday: Roast (from Sunday) / Chili x2 -> Tuesday lunch; Tuesday: Chili (from Monday) / Stew'],
+    ['a replaced leftover is cooked fresh', () => {
+        const days = buildDays();
+        linkLeftovers(days, pairs);
+        days[2].meals[1] = meal('Burger', 'lunch');
+        syncLeftovers(days);
+        return days;
+    }, 'Sunday: Salad / Curry x2 -> Monday lunch; Monday: Curry (from Sunday) / Chili; Tuesday: Burger / Stew'],
+    ['a regenerated day drops its links', () => {
+        const days = buildDays();
+        linkLeftovers(days, pairs);
+        days[0] = { day: 'Sunday', meals: [meal('Eggs', 'breakfast'), meal('Tacos', 'lunch')] };
+        syncLeftovers(days);
+        return days;
+    }, 'Sunday: Tacos / -; Monday: Curry / Chili x2 -> Tuesday lunch; Tuesday: Chili (from Monday) / Stew'],
+    ['linking again replaces the old links', () => {
+        const days = buildDays();
+        linkLeftovers(days, pairs);
+        linkLeftovers(days, pairs.slice(1));
+        return days;
+    }, 'Sunday: Salad / Curry; Monday: Curry / Chili x2 -> Tuesday lunch; Tuesday: Chili (from Monday) / Stew']
+];
+
+function testLeftovers() {
+    console.log('🧪 Testing batch cooking\n');
+
+    let failures = 0;
+    for (const [label, run, expected] of cases) {
+        const actual = summarize(run());
+        if (actual === expected) {
+            console.log(`   ✅ ${label} → ${actual}`);
+        } else {
+            console.log(`   ❌ ${label} → ${actual}\n      (expected ${expected})`);
+            failures++;
+        }
+    }
+
+    // A leftover is a copy of its dinner, reheated rather than cooked
+    const days = buildDays();
+    linkLeftovers(days, pairs);
+    const dinner = find(days, 'Sunday', 'dinner');
+    const leftover = find(days, 'Monday', 'lunch');
+    if (leftover !== dinner && leftover.ingredients.join() === dinner.ingredients.join() &&
+        leftover.prepTime === '5 minutes' && leftover.instructions[0].startsWith('Reheat') && !leftover.batch) {
+        console.log(`   ✅ leftover copy → ${leftover.prepTime}: ${leftover.instructions[0]}`);
+    } else {
+        console.log(`   ❌ leftover copy → ${leftover.prepTime}: ${leftover.instructions[0]}`);
+        failures++;
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} batch cooking test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Leftover lunches follow their batch dinners through every change.');
+}
+
+testLeftovers();
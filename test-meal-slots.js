@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+// Simple test script for the daily meal structure and fitting a day's meals into its slots
+// Usage: npm run build && node test-meal-slots.js
+
+const { parseMealStructure, fitMealsToSlots } = require('./dist/mealSlots');
+
+// Meal structure as typed -> the slots, in the order they are eaten (null: not understood)
+const structures = [
+    ['3 meals', ['breakfast', 'lunch', 'dinner']],
+    ['2 meals + 1 snack', ['lunch', 'snack', 'dinner']],
+    ['two meals and two snacks', ['lunch', 'snack', 'snack', 'dinner']],
+    ['dinner only', ['dinner']],
+    ['OMAD', ['dinner']],
+    ['breakfast, dinner, 2 snacks', ['breakfast', 'snack', 'snack', 'dinner']],
+    ['dinner & lunch', ['lunch', 'dinner']],
+    ['4 meals', null],
+    ['0 snacks', null],
+    ['lunch + lunch', null],
+    ['1 meal + 4 snacks', null],
+    ['2 dinners', null],
+    ['brunch', null],
+    ['', null]
+];
+
+const meal = (name, type) => ({ name, ...(type ? { type } : {}) });
+
+// A day's meals and its slots -> the meal names in slot order (null: they don't fit)
+const fits = [
+    [[meal('Omelette', 'breakfast'), meal('Salad', 'lunch'), meal('Steak', 'dinner')],
+        ['breakfast', 'lunch', 'dinner'], ['Omelette', 'Salad', 'Steak']],
+    [[meal('Steak', 'dinner'), meal('Omelette', 'breakfast'), meal('Salad', 'lunch')],
+        ['breakfast', 'lunch', 'dinner'], ['Omelette', 'Salad', 'Steak']],
+    [[meal('Salad'), meal('Steak')],
+        ['lunch', 'dinner'], ['Salad', 'Steak']],
+    [[meal('Steak', 'dinner'), meal('Salad'), meal('Nuts', 'snack')],
+        ['lunch', 'snack', 'dinner'], ['Salad', 'Nuts', 'Steak']],
+    [[meal('Nuts', 'snack'), meal('Olives', 'snack'), meal('Steak', 'dinner')],
+        ['snack', 'snack', 'dinner'], ['Nuts', 'Olives', 'Steak']],
+    [[meal('Salad', 'lunch'), meal('Steak', 'dinner')],
+        ['breakfast', 'lunch', 'dinner'], null],
+    [[meal('Omelette', 'breakfast'), meal('Steak', 'dinner')],
+        ['lunch', 'dinner'], null],
+    [[meal('Steak', 'dinner'), meal('Fish', 'dinner')],
+        ['lunch', 'dinner'], null]
+];
+
+function testMealSlots() {
+    console.log('🧪 Testing meal slots\n');
+
+    let failures = 0;
+    for (const [input, expected] of structures) {
+        const actual = parseMealStructure(input);
+        if (JSON.stringify(actual) === JSON.stringify(expected)) {
+            console.log(`   ✅ "${input}" → ${actual ? actual.join(', ') : 'not understood'}`);
+        } else {
+            console.log(`   ❌ "${input}" → ${actual ? actual.join(', ') : 'not understood'} (expected ${expected ? expected.join(', ') : 'not understood'})`);
+            failures++;
+        }
+    }
+
+    for (const [meals, slots, expected] of fits) {
+        const fitted = fitMealsToSlots(meals, slots);
+        const actual = fitted && fitted.map(m => m.name);
+        const label = `${meals.map(m => `${m.name}${m.type ? ` (${m.type})` : ''}`).join(', ')} into ${slots.join(', ')}`;
+        const typed = !fitted || fitted.every((m, i) => m.type === slots[i]);
+        if (JSON.stringify(actual) === JSON.stringify(expected) && typed) {
+            console.log(`   ✅ ${label} → ${actual ? actual.join(', ') : "doesn't fit"}`);
+        } else {
+            console.log(`   ❌ ${label} → ${actual ? actual.join(', ') : "doesn't fit"}${typed ? '' : ' with the wrong types'} (expected ${expected ? expected.join(', ') : "doesn't fit"})`);
+            failures++;
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} meal slot test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Meal structures are read and every meal lands in its own slot.');
+}
+
+testMealSlots();
@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+
+// Simple test script for pantry matching on the shopping list
+// Usage: npm run build && node test-pantry.js
+
+const { findPantryItem, splitShoppingList } = require('./dist/pantry');
+
+const pantry = ['butter', 'milk', 'oil', 'cream', 'eggs', 'salmon fillet', 'olive oil', 'chicken']
+    .map(name => ({ name, addedAt: '2026-01-01' }));
+
+// Ingredient line -> the pantry item that should cover it (null: it still has to be bought)
+const cases = [
+    ['2 tbsp butter', 'butter'],
+    ['1 tbsp unsalted butter', 'butter'],
+    ['3 large eggs', 'eggs'],
+    ['2 egg yolks', 'eggs'],
+    ['2 salmon fillets', 'salmon fillet'],
+    ['1 tbsp extra virgin olive oil', 'olive oil'],
+    ['1 cup whole milk', 'milk'],
+    ['200g boneless skinless chicken thighs', 'chicken'],
+    ['2 tbsp peanut butter', null],
+    ['1 can (400ml) coconut milk', null],
+    ['1 tsp sesame oil', null],
+    ['50g cream cheese', null],
+    ['1/2 cup sour cream', null],
+    ['2 cups chicken broth', null],
+    ['butter lettuce leaves', null]
+];
+
+function testPantryMatching() {
+    console.log('🧪 Testing pantry matching\n');
+
+    let failures = 0;
+    for (const [ingredient, expected] of cases) {
+        const item = findPantryItem(ingredient, pantry);
+        const actual = item ? item.name : null;
+        if (actual === expected) {
+            console.log(`   ✅ "${ingredient}" → ${actual || 'to buy'}`);
+        } else {
+            console.log(`   ❌ "${ingredient}" → ${actual || 'to buy'} (expected ${expected || 'to buy'})`);
+            failures++;
+        }
+    }
+
+    const split = splitShoppingList(cases.map(([ingredient]) => ingredient), pantry);
+    const toBuy = cases.filter(([, expected]) => expected === null).length;
+    if (split.needed.length !== toBuy) {
+        console.log(`   ❌ Shopping list has ${split.needed.length} items to buy (expected ${toBuy})`);
+        failures++;
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} pantry test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Pantry items only cover the ingredients they name.');
+}
+
+testPantryMatching();
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+// Simple test script for ingredient prices, meal costs and the budget check
+// Usage: npm run build && node test-prices.js
+
+const { parseBudget, priceIngredient, summarizePlanCost } = require('./dist/priceTable');
+const { NutritionCalculator } = require('./dist/nutritionCalculator');
+
+const parser = new NutritionCalculator();
+const table = {
+    currency: 'USD',
+    items: [
+        { name: 'ground beef', price: 10, per: 'kg' },
+        { name: 'chicken breast', price: 10, per: 'kg', itemGrams: 200 },
+        { name: 'eggs', price: 3.6, per: 'dozen' },
+        { name: 'avocado', price: 1.5, per: 'each' },
+        { name: 'butter', price: 2, per: '100g' },
+        { name: 'peanut butter', price: 1, per: '100g' },
+        { name: 'olive oil', price: 10, per: 'l' }
+    ]
+};
+
+// Budget as typed -> amount and period (null: not understood)
+const budgets = [
+    ['80', { amount: 80, per: 'week' }],
+    [80, { amount: 80, per: 'week' }],
+    ['80/week', { amount: 80, per: 'week' }],
+    ['12.50 / day', { amount: 12.5, per: 'day' }],
+    ['12 per day', { amount: 12, per: 'day' }],
+    ['100 a week', { amount: 100, per: 'week' }],
+    ['0', null],
+    ['-5', null],
+    ['80/month', null],
+    ['cheap', null]
+];
+
+// Ingredient line -> its cost (null: no price, or an amount that can't be converted)
+const ingredients = [
+    ['500g ground beef', 5],
+    ['2 chicken breasts', 4],
+    ['6 large eggs', 1.8],
+    ['2 avocados', 3],
+    ['2 tbsp butter', 0.6],
+    ['2 tbsp peanut butter', 0.3],
+    ['salt and pepper to taste', 0],
+    ['2 cups spinach', null],
+    ['2 lamb chops', null]
+];
+
+const day = (name, ...amounts) => ({ day: name, meals: amounts.map(amount => ({ name: 'Meal', cost: { amount, currency: 'USD', unpriced: [] } })) });
+const tenDays = Array.from({ length: 10 }, (_, i) => day(`Day ${i + 1}`, 4, 6));
+
+function testPrices() {
+    console.log('🧪 Testing prices and budgets\n');
+
+    let failures = 0;
+    const check = (label, ok, detail) => {
+        console.log(`   ${ok ? '✅' : '❌'} ${label}${detail ? ` → ${detail}` : ''}`);
+        if (!ok) failures++;
+    };
+
+    for (const [input, expected] of budgets) {
+        const actual = parseBudget(input);
+        check(`budget ${JSON.stringify(input)}`, JSON.stringify(actual) === JSON.stringify(expected),
+            `${actual ? `${actual.amount}/${actual.per}` : 'not understood'}${JSON.stringify(actual) === JSON.stringify(expected) ? '' : ` (expected ${expected ? `${expected.amount}/${expected.per}` : 'not understood'})`}`);
+    }
+
+    for (const [ingredient, expected] of ingredients) {
+        const actual = priceIngredient(ingredient, table, parser);
+        const rounded = actual === null ? null : Math.round(actual * 100) / 100;
+        check(`"${ingredient}"`, rounded === expected,
+            `${rounded === null ? 'no price' : `$${rounded}`}${rounded === expected ? '' : ` (expected ${expected === null ? 'no price' : `$${expected}`})`}`);
+    }
+
+    // Ten days at $10 a day: a full week and a three-day part week, each held to its share of the budget
+    const cost = summarizePlanCost(tenDays, 'USD', { amount: 63, per: 'week' });
+    check('10 days at $10 a day', cost.total === 100 && cost.averagePerDay === 10, `total $${cost.total}, $${cost.averagePerDay} a day`);
+    check('split into weeks', cost.weeks.map(w => w.days.length).join() === '7,3', `${cost.weeks.map(w => `${w.days.length} days $${w.total}`).join(', ')}`);
+    check('a $63 week budget', cost.weeks.map(w => `${w.limit}:${w.overBudget}`).join() === '63:true,27:true',
+        cost.weeks.map(w => `limit $${w.limit}${w.overBudget ? ' (over)' : ''}`).join(', '));
+
+    const daily = summarizePlanCost(tenDays.slice(0, 3), 'USD', { amount: 12, per: 'day' });
+    check('a $12 day budget', daily.weeks.length === 1 && daily.weeks[0].limit === 36 && !daily.weeks[0].overBudget,
+        `limit $${daily.weeks[0].limit}${daily.weeks[0].overBudget ? ' (over)' : ''}`);
+
+    const noBudget = summarizePlanCost([day('Monday', 1, 2), { day: 'Tuesday', meals: [{ name: 'Meal', cost: { amount: 3, currency: 'USD', unpriced: ['saffron', 'truffle'] } }] }], 'USD');
+    check('no budget', noBudget.weeks[0].limit === undefined && !noBudget.weeks[0].overBudget && noBudget.unpricedIngredients === 2,
+        `total $${noBudget.total}, ${noBudget.unpricedIngredients} unpriced`);
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} price test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Ingredients are priced by weight or piece and each week is held to the budget.');
+}
+
+testPrices();
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+// Simple test script for plan schedules of any length and their split into model calls
+// Usage: npm run build && node test-schedule.js
+
+const { findFastingProtocol, resolveFastingWindow, buildSchedule, chunkSchedule } = require('./dist/fastingProtocols');
+
+const summarize = schedule => schedule.map(d => `${d.day}${d.type === 'eating' ? '' : ` (${d.type})`}`).join(', ');
+
+const { window: sundayFast } = resolveFastingWindow(findFastingProtocol('36-hour'), 'Saturday 8pm', 'Monday 8am');
+
+// Protocol, plan length and fasting window -> the scheduled days
+const schedules = [
+    ['36-hour', 7, undefined,
+        'Sunday, Monday, Tuesday, Wednesday, Thursday, Friday, Saturday (fasting)'],
+    ['36-hour', 3, undefined,
+        'Sunday, Monday, Tuesday'],
+    ['36-hour', 7, sundayFast,
+        'Sunday (fasting), Monday, Tuesday, Wednesday, Thursday, Friday, Saturday'],
+    ['5:2', 5, undefined,
+        'Sunday, Monday (reduced), Tuesday, Wednesday, Thursday (reduced)'],
+    ['alternate-day', 4, undefined,
+        'Sunday, Monday (fasting), Tuesday, Wednesday (fasting)'],
+    ['16:8', 9, undefined,
+        'Week 1 Sunday, Week 1 Monday, Week 1 Tuesday, Week 1 Wednesday, Week 1 Thursday, Week 1 Friday, Week 1 Saturday, Week 2 Sunday, Week 2 Monday']
+];
+
+// Plan length -> days in each chunk sent to the model
+const chunks = [
+    [1, [1]],
+    [7, [7]],
+    [10, [7, 3]],
+    [14, [7, 7]],
+    [30, [7, 7, 7, 7, 2]]
+];
+
+function testSchedule() {
+    console.log('🧪 Testing plan schedules\n');
+
+    let failures = 0;
+    for (const [protocolId, days, fastingWindow, expected] of schedules) {
+        const actual = summarize(buildSchedule(findFastingProtocol(protocolId), days, fastingWindow));
+        const label = `${protocolId}, ${days} days${fastingWindow ? ', Sunday fast' : ''}`;
+        if (actual === expected) {
+            console.log(`   ✅ ${label} → ${actual}`);
+        } else {
+            console.log(`   ❌ ${label} → ${actual}\n      (expected ${expected})`);
+            failures++;
+        }
+    }
+
+    const protocol = findFastingProtocol('16:8');
+    for (const [days, expected] of chunks) {
+        const schedule = buildSchedule(protocol, days);
+        const parts = chunkSchedule(schedule);
+        const actual = parts.map(part => part.length);
+        const inOrder = parts.flat().every((d, i) => d === schedule[i]);
+        if (actual.join() === expected.join() && inOrder) {
+            console.log(`   ✅ ${days} day${days === 1 ? '' : 's'} → chunks of ${actual.join(' + ')}`);
+        } else {
+            console.log(`   ❌ ${days} days → chunks of ${actual.join(' + ')}${inOrder ? '' : ' out of order'} (expected ${expected.join(' + ')})`);
+            failures++;
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} schedule test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Plans of any length get the right days and are split a week at a time.');
+}
+
+testSchedule();
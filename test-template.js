@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+// Simple test script for prompt templates: syntax, checking against the context, and rendering
+// Usage: npm run build && node test-template.js
+
+const { parseTemplate, checkTemplate, renderTemplate, PromptTemplateError } = require('./dist/promptTemplate');
+
+const context = {
+    profile: { sex: 'Female', age: '42', diet: 'Keto' },
+    targets: { calories: undefined, protein: undefined },
+    plan: { days: ['Monday', 'Tuesday'], dayCount: 2 },
+    patterns: { proteins: { red_meat: ['beef', 'lamb'], seafood: ['salmon'] } },
+    excludedFoods: [],
+    recipePlan: ''
+};
+const fragments = { 'house-style': 'Cook for ${profile.sex | lower}s.', loop: '${> loop}' };
+const resolveInclude = name => fragments[name];
+
+// Template -> the rendered prompt
+const renders = [
+    ['Plan ${plan.dayCount} days: ${plan.days}.', 'Plan 2 days: Monday, Tuesday.'],
+    ['${plan.days.0} to ${plan.days.1 | upper}', 'Monday to TUESDAY'],
+    ['${patterns.proteins | label} (${patterns.proteins | count})', 'red meat, seafood (2)'],
+    ['${#if targets.calories}Aim for ${targets.calories} kcal.${#else}No targets.${/if}', 'No targets.'],
+    ['${#if profile.diet == "keto"}Keto${/if}${#if profile.diet != "Keto"}Other${/if}', 'Keto'],
+    ['${#if not excludedFoods}Nothing excluded.${/if}', 'Nothing excluded.'],
+    ['${#each patterns.proteins as category, items}- ${category | label}: ${items}\n${/each}', '- red meat: beef, lamb\n- seafood: salmon'],
+    ['${#each plan.days as day, n}${n}. ${day} ${/each}', '1. Monday 2. Tuesday'],
+    ['${> house-style}', 'Cook for females.'],
+    ['Plan:\n\n\n\n${recipePlan}\n\n\nDone', 'Plan:\n\nDone'],
+    // Targets are unset without a full profile, so anything below them checks and renders empty
+    ['Aim for ${targets.calories.kcal} kcal', 'Aim for  kcal']
+];
+
+// Template -> the start of each problem reported
+const problems = [
+    ['${profile.weight}', ['line 1: unknown variable ${profile.weight}']],
+    ['${profile.weight.kg}', ['line 1: unknown variable ${profile.weight.kg} (no "profile.weight")']],
+    ['${plan.days | shout}', ['line 1: unknown filter "shout"']],
+    ['${> missing}', ['line 1: unknown fragment ${> missing}']],
+    ['${> loop}', ['line 1 (in fragment "loop"): fragment "loop" includes itself']],
+    ['Line one\n${#if plan.days}open', ['line 2: ${#if} is never closed with ${/if}']],
+    ['${/each}', ['line 1: ${/each} does not close an open ${#each}']],
+    ['${#else}', ['line 1: ${#else} outside an ${#if}']],
+    ['${#each plan.days}${/each}', ['line 1: write loops as']],
+    ['${plan days}', ['line 1: "plan days" is not a variable name']]
+];
+
+function testTemplate() {
+    console.log('🧪 Testing prompt templates\n');
+
+    let failures = 0;
+    for (const [source, expected] of renders) {
+        const check = checkTemplate(source, context, resolveInclude);
+        const actual = check.problems.length > 0 ? check.problems.join('; ') : renderTemplate(source, context, resolveInclude);
+        if (actual === expected) {
+            console.log(`   ✅ ${JSON.stringify(source)} → ${JSON.stringify(actual)}`);
+        } else {
+            console.log(`   ❌ ${JSON.stringify(source)} → ${JSON.stringify(actual)} (expected ${JSON.stringify(expected)})`);
+            failures++;
+        }
+    }
+
+    for (const [source, expected] of problems) {
+        const actual = checkTemplate(source, context, resolveInclude).problems;
+        if (actual.length === expected.length && expected.every((problem, i) => actual[i].startsWith(problem))) {
+            console.log(`   ✅ ${JSON.stringify(source)} → ${actual.join('; ')}`);
+        } else {
+            console.log(`   ❌ ${JSON.stringify(source)} → ${actual.join('; ') || 'no problems'} (expected ${expected.join('; ')})`);
+            failures++;
+        }
+    }
+
+    // Syntax errors are thrown by the parser itself, with every problem attached
+    try {
+        parseTemplate('${#if plan.days}');
+        console.log('   ❌ parseTemplate accepted an unclosed ${#if}');
+        failures++;
+    } catch (error) {
+        if (error instanceof PromptTemplateError && error.problems.length === 1) {
+            console.log(`   ✅ parseTemplate throws: ${error.message}`);
+        } else {
+            console.log(`   ❌ parseTemplate threw ${error}`);
+            failures++;
+        }
+    }
+
+    if (failures > 0) {
+        console.error(`\n❌ ${failures} template test${failures === 1 ? '' : 's'} failed`);
+        process.exit(1);
+    }
+    console.log('\n🎉 All tests passed! Templates render their values and report every problem before reaching the model.');
+}
+
+testTemplate();